@@ -1,5 +1,5 @@
 import { Tabs, Redirect } from 'expo-router';
-import { Home, ListTodo, FolderOpen, Calendar, User, Shield, FileCheck, Trophy } from 'lucide-react-native';
+import { Home, ListTodo, FolderOpen, Calendar, User, Shield, FileCheck, Trophy, Bell } from 'lucide-react-native';
 import React from 'react';
 import { Platform, View, ActivityIndicator, StyleSheet } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
@@ -7,10 +7,18 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import Colors from '@/constants/colors';
 import Typography from '@/constants/typography';
 import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+
+const UNREAD_POLL_INTERVAL_MS = 60 * 1000;
 
 export default function TabLayout() {
   const { isAdmin, isLoading, isAuthenticated } = useAuth();
   const insets = useSafeAreaInsets();
+  const unreadQuery = trpc.notifications.unreadCount.useQuery(undefined, {
+    enabled: isAuthenticated,
+    refetchInterval: UNREAD_POLL_INTERVAL_MS,
+  });
+  const unreadCount = unreadQuery.data?.count || 0;
 
   if (isLoading) {
     return (
@@ -88,6 +96,15 @@ export default function TabLayout() {
           href: null,
         }}
       />
+      <Tabs.Screen
+        name="notifications"
+        options={{
+          title: 'Alerts',
+          tabBarIcon: ({ color, size }) => <Bell size={size} color={color} />,
+          tabBarBadge: unreadCount > 0 ? (unreadCount > 99 ? '99+' : unreadCount) : undefined,
+          tabBarBadgeStyle: { backgroundColor: Colors.dark.error, color: '#fff', fontSize: 10 },
+        }}
+      />
       <Tabs.Screen
         name="profile"
         options={{
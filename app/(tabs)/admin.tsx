@@ -3,7 +3,7 @@ import { View, Text, StyleSheet, ScrollView, TextInput, Alert } from 'react-nati
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { LinearGradient } from 'expo-linear-gradient';
-import { Users, FileCheck, BarChart3, Globe2, RadioTower, TimerReset, ChevronRight, Sparkles, Gamepad2 } from 'lucide-react-native';
+import { Users, FileCheck, BarChart3, Globe2, RadioTower, TimerReset, ChevronRight, Sparkles, Gamepad2, ScrollText, BellRing, Send, Megaphone, FileUp, ClipboardList } from 'lucide-react-native';
 import Colors from '@/constants/colors';
 import Typography from '@/constants/typography';
 import { useAuth } from '@/contexts/AuthContext';
@@ -44,6 +44,30 @@ const ADMIN_ITEMS: AdminItem[] = [
     colors: ['#a78bfa', '#7c3aed'],
     route: '/admin/analytics',
   },
+  {
+    id: 'campaigns',
+    title: 'Campaigns',
+    subtitle: 'Dates, budgets, goals and campaign dashboards',
+    icon: Megaphone,
+    colors: ['#f472b6', '#8b5cf6'],
+    route: '/admin/campaigns',
+  },
+  {
+    id: 'task-import',
+    title: 'Task Import',
+    subtitle: 'Bulk CSV/JSON import and task templates',
+    icon: FileUp,
+    colors: ['#34d399', '#0ea5e9'],
+    route: '/admin/task-import',
+  },
+  {
+    id: 'review-guidance',
+    title: 'Review Guidance',
+    subtitle: 'Feedback snippets and scoring rubric',
+    icon: ClipboardList,
+    colors: ['#f472b6', '#8b5cf6'],
+    route: '/admin/review-guidance',
+  },
   {
     id: 'regional',
     title: 'Regional Dashboard',
@@ -68,6 +92,30 @@ const ADMIN_ITEMS: AdminItem[] = [
     colors: ['#34d399', '#10b981'],
     route: '/admin/management?section=season',
   },
+  {
+    id: 'audit',
+    title: 'Audit Log',
+    subtitle: 'Who changed what across users, reviews, and content',
+    icon: ScrollText,
+    colors: ['#94a3b8', '#475569'],
+    route: '/admin/audit',
+  },
+  {
+    id: 'reminders',
+    title: 'Event Reminders',
+    subtitle: 'Upcoming and sent Telegram reminders',
+    icon: BellRing,
+    colors: ['#f97316', '#ef4444'],
+    route: '/admin/reminders',
+  },
+  {
+    id: 'telegram',
+    title: 'Telegram Routing',
+    subtitle: 'Regional chats per message type and delivery log',
+    icon: Send,
+    colors: ['#38bdf8', '#2563eb'],
+    route: '/admin/telegram',
+  },
   {
     id: 'crosscraft',
     title: 'CrossCraft Lab',
@@ -195,7 +243,6 @@ export default function AdminHubScreen() {
                 return;
               }
               saveNewsMutation.mutate({
-                adminUserId: currentUser.id,
                 postUrl: newsPostUrl.trim(),
                 text: newsText.trim(),
                 imageUrl: newsImageUrl.trim(),
@@ -1,8 +1,9 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert, RefreshControl, Modal, TextInput, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Alert, RefreshControl, Modal, TextInput, ActivityIndicator, Linking } from 'react-native';
+import * as Clipboard from 'expo-clipboard';
 import Image from '@/components/StableImage';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Calendar, Clock, MapPin, Users, Globe, Check, ExternalLink, Plus, Trash2, Edit3, X, BarChart3 } from 'lucide-react-native';
+import { Calendar, Clock, MapPin, Users, Globe, Check, ExternalLink, Plus, Trash2, Edit3, X, BarChart3, QrCode, Repeat, CalendarPlus } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import Typography from '@/constants/typography';
@@ -10,9 +11,11 @@ import { useApp } from '@/contexts/AppContext';
 import { useAuth } from '@/contexts/AuthContext';
 import PressableScale from '@/components/PressableScale';
 import EmptyState from '@/components/EmptyState';
-import { EventType, Event } from '@/types';
-import { trpc } from '@/lib/trpc';
+import { EventType, Event, EventRecurrence, EventRecurrenceFrequency } from '@/types';
+import { trpc, getApiBaseUrl } from '@/lib/trpc';
 import AppButton from '@/components/AppButton';
+import { describeRecurrence, getDeviceTimeZone, getDisplayOccurrence, isValidTimeZone } from '@/lib/event-schedule';
+import { canManageEventCheckIn } from '@/lib/event-checkins';
 
 type FilterType = 'all' | EventType;
 
@@ -23,27 +26,72 @@ const EVENT_IMAGE_PRESETS = [
   'https://images.unsplash.com/photo-1523580846011-d3a5bc25702b?w=800&h=500&fit=crop',
 ];
 
+// Events stay "today" for a few hours after they start so check-in remains reachable.
+const EVENT_ONGOING_GRACE_MS = 3 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Same one-week cap the server applies to reminder offsets.
+const MAX_REMINDER_MINUTES = 7 * 24 * 60;
+
+const REPEAT_OPTIONS: { id: EventRecurrenceFrequency | 'none'; label: string }[] = [
+  { id: 'none', label: 'Once' },
+  { id: 'weekly', label: 'Weekly' },
+  { id: 'biweekly', label: '2 Weeks' },
+  { id: 'monthly', label: 'Monthly' },
+];
+
+function getEventStartMs(event: Event): number | null {
+  return getDisplayOccurrence(event, Date.now(), EVENT_ONGOING_GRACE_MS)?.startMs ?? null;
+}
+
 function eventSortTimestamp(event: Event): number {
-  const base = event.date?.trim();
-  if (!base) return Number.POSITIVE_INFINITY;
-  const time = event.time?.trim() || '23:59';
-  const iso = `${base}T${time}`;
-  const parsed = Date.parse(iso);
-  if (!Number.isNaN(parsed)) return parsed;
-  const dateOnly = Date.parse(base);
-  return Number.isNaN(dateOnly) ? Number.POSITIVE_INFINITY : dateOnly;
+  return getEventStartMs(event) ?? Number.POSITIVE_INFINITY;
+}
+
+function buildRecurrence(repeat: EventRecurrenceFrequency | 'none', until: string, exceptionsCsv: string): EventRecurrence | null {
+  if (repeat === 'none') return null;
+  const exceptions = exceptionsCsv
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return {
+    frequency: repeat,
+    until: until.trim() || undefined,
+    exceptions: exceptions.length > 0 ? exceptions : undefined,
+  };
+}
+
+// Empty keeps the default reminder and "off" disables reminders; returns undefined for bad input.
+function parseReminderOffsets(value: string): number[] | null | undefined {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return null;
+  if (trimmed === 'off') return [];
+  const offsets = trimmed
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => Number(part));
+  if (offsets.some((offset) => !Number.isInteger(offset) || offset < 1 || offset > MAX_REMINDER_MINUTES)) {
+    return undefined;
+  }
+  return offsets;
 }
 
 export default function EventsScreen() {
   const { isAdmin, currentUser } = useAuth();
-  const { events, rsvpStates, updateRsvp, isRefreshing, refreshData, addEvent, updateEvent, deleteEvent } = useApp();
-  const trpcUtils = trpc.useUtils();
+  const { events, rsvpStates, updateRsvp, checkInToEvent, isRefreshing, refreshData, addEvent, updateEvent, deleteEvent } = useApp();
   const [activeFilter] = useState<FilterType>('all');
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingEvent, setEditingEvent] = useState<Event | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isPollModalVisible, setIsPollModalVisible] = useState(false);
   const [selectedPollId, setSelectedPollId] = useState<string | null>(null);
+  const [attendeeListEvent, setAttendeeListEvent] = useState<Event | null>(null);
+  const [checkInCodeEvent, setCheckInCodeEvent] = useState<Event | null>(null);
+  const [checkInEvent, setCheckInEvent] = useState<Event | null>(null);
+  const [checkInInput, setCheckInInput] = useState('');
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const canManageCheckIn = isAdmin || currentUser?.role === 'regional_lead';
+  const [calendarToken, setCalendarToken] = useState<string | null>(null);
   const [isCreatePollModalVisible, setIsCreatePollModalVisible] = useState(false);
   const [pollForm, setPollForm] = useState({
     title: '',
@@ -65,6 +113,25 @@ export default function EventsScreen() {
     { pollId: selectedPollId || '' },
     { enabled: Boolean(selectedPollId && isPollModalVisible) }
   );
+  const attendeesQuery = trpc.events.attendees.useQuery(
+    { id: attendeeListEvent?.id || '' },
+    { enabled: Boolean(isAdmin && attendeeListEvent) }
+  );
+  const checkInCodeQuery = trpc.events.checkInCode.useQuery(
+    { id: checkInCodeEvent?.id || '' },
+    { enabled: Boolean(canManageCheckIn && checkInCodeEvent), refetchInterval: 15_000 }
+  );
+  const calendarFeedMutation = trpc.events.calendarFeed.useMutation();
+  const openCheckInMutation = trpc.events.openCheckIn.useMutation({
+    onSuccess: async () => {
+      await checkInCodeQuery.refetch();
+    },
+  });
+  const closeCheckInMutation = trpc.events.closeCheckIn.useMutation({
+    onSuccess: async () => {
+      await checkInCodeQuery.refetch();
+    },
+  });
   const voteMutation = trpc.polls.vote.useMutation({
     onSuccess: async () => {
       if (selectedPollId) {
@@ -95,8 +162,14 @@ export default function EventsScreen() {
     date: '',
     time: '',
     location: '',
-    timezone: 'UTC',
+    timezone: getDeviceTimeZone(),
+    repeat: 'none' as EventRecurrenceFrequency | 'none',
+    repeatUntil: '',
+    repeatExceptions: '',
+    region: '',
+    reminders: '',
     maxAttendees: '',
+    checkInPoints: '',
     link: '',
   });
 
@@ -123,7 +196,6 @@ export default function EventsScreen() {
     if (!currentUser?.id || !selectedPollId) return;
     try {
       await voteMutation.mutateAsync({
-        userId: currentUser.id,
         pollId: selectedPollId,
         optionId,
       });
@@ -158,7 +230,6 @@ export default function EventsScreen() {
       }
 
       await createPollMutation.mutateAsync({
-        adminUserId: currentUser.id,
         title: pollForm.title.trim(),
         description: pollForm.description.trim() || undefined,
         expiresAt: expiry.toISOString(),
@@ -172,38 +243,133 @@ export default function EventsScreen() {
     }
   }, [currentUser?.id, isAdmin, pollForm, createPollMutation]);
 
-  const handleRSVP = useCallback((eventId: string, eventTitle: string) => {
-    const isCurrentlyRsvped = rsvpStates[eventId];
+  const handleRSVP = useCallback(async (event: Event) => {
+    const isCurrentlyRsvped = rsvpStates[event.id];
+    const isWaitlisted = event.rsvpStatus === 'waitlisted';
     
     if (isCurrentlyRsvped) {
       Alert.alert(
-        'Cancel RSVP',
-        `Are you sure you want to cancel your RSVP for "${eventTitle}"?`,
+        isWaitlisted ? 'Leave Waitlist' : 'Cancel RSVP',
+        isWaitlisted
+          ? `Remove yourself from the waitlist for "${event.title}"?`
+          : `Are you sure you want to cancel your RSVP for "${event.title}"?`,
         [
-          { text: 'Keep RSVP', style: 'cancel' },
+          { text: isWaitlisted ? 'Stay' : 'Keep RSVP', style: 'cancel' },
           { 
-            text: 'Cancel RSVP', 
+            text: isWaitlisted ? 'Leave Waitlist' : 'Cancel RSVP', 
             style: 'destructive',
-            onPress: () => {
+            onPress: async () => {
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
-              updateRsvp(eventId, false);
+              const result = await updateRsvp(event.id, false);
+              if (!result.success) {
+                Alert.alert('RSVP Failed', result.error || 'Could not update your RSVP.');
+              }
             }
           },
         ]
       );
-    } else {
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      updateRsvp(eventId, true);
+      return;
+    }
+
+    const result = await updateRsvp(event.id, true);
+    if (!result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('RSVP Failed', result.error || 'Could not update your RSVP.');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    if (result.event?.rsvpStatus === 'waitlisted') {
       Alert.alert(
-        'RSVP Confirmed! 🎉',
-        `You are registered for "${eventTitle}". We'll send you a reminder before the event.`,
-        [{ text: 'Great!' }]
+        'Added to Waitlist',
+        `"${event.title}" is full. You're on the waitlist and will move up automatically if a spot opens.`,
+        [{ text: 'OK' }]
       );
+      return;
     }
+    Alert.alert(
+      'RSVP Confirmed! 🎉',
+      `You are registered for "${event.title}". We'll send you a reminder before the event.`,
+      [{ text: 'Great!' }]
+    );
   }, [rsvpStates, updateRsvp]);
 
-  const formatDate = (dateStr: string) => {
-    const date = new Date(dateStr);
+  const openCheckInModal = useCallback((event: Event) => {
+    setCheckInInput('');
+    setCheckInEvent(event);
+  }, []);
+
+  const handleCheckIn = useCallback(async () => {
+    if (!checkInEvent || !checkInInput.trim()) {
+      Alert.alert('Error', 'Enter the check-in code shown at the event');
+      return;
+    }
+
+    setIsCheckingIn(true);
+    const result = await checkInToEvent(checkInEvent.id, checkInInput.trim());
+    setIsCheckingIn(false);
+
+    if (!result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Check-in Failed', result.error || 'Could not check you in.');
+      return;
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setCheckInEvent(null);
+    Alert.alert(
+      result.alreadyCheckedIn ? 'Already Checked In' : 'Checked In! 🎉',
+      result.pointsAwarded
+        ? `Thanks for coming to "${checkInEvent.title}". You earned ${result.pointsAwarded} points.`
+        : `Your attendance at "${checkInEvent.title}" has been recorded.`,
+      [{ text: 'OK' }]
+    );
+  }, [checkInEvent, checkInInput, checkInToEvent]);
+
+  const getCalendarToken = useCallback(async () => {
+    if (calendarToken) return calendarToken;
+    const result = await calendarFeedMutation.mutateAsync();
+    setCalendarToken(result.token);
+    return result.token;
+  }, [calendarToken, calendarFeedMutation]);
+
+  const handleSubscribeCalendar = useCallback(async () => {
+    try {
+      const token = await getCalendarToken();
+      const feedUrl = `${getApiBaseUrl()}/calendar/${token}.ics`;
+      Alert.alert(
+        'Subscribe to Events',
+        'Add this private feed to your calendar app to see events for your region, with a reminder before each one.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Copy Link',
+            onPress: async () => {
+              await Clipboard.setStringAsync(feedUrl);
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            },
+          },
+          { text: 'Open Calendar', onPress: () => void Linking.openURL(feedUrl.replace(/^https?:/, 'webcal:')) },
+        ]
+      );
+    } catch (error) {
+      console.log('[Events] Calendar feed error:', error);
+      Alert.alert('Error', 'Could not load your calendar feed');
+    }
+  }, [getCalendarToken]);
+
+  const handleAddToCalendar = useCallback(async (event: Event) => {
+    try {
+      const token = await getCalendarToken();
+      await Linking.openURL(`${getApiBaseUrl()}/calendar/${token}/events/${encodeURIComponent(event.id)}.ics`);
+    } catch (error) {
+      console.log('[Events] Add to calendar error:', error);
+      Alert.alert('Error', 'Could not open the calendar file');
+    }
+  }, [getCalendarToken]);
+
+  const formatDate = (startMs: number) => {
+    const date = new Date(startMs);
     return date.toLocaleDateString('en-US', { 
       weekday: 'short',
       month: 'short', 
@@ -211,13 +377,20 @@ export default function EventsScreen() {
     });
   };
 
-  const getTimeUntil = (dateStr: string) => {
-    const eventDate = new Date(dateStr);
+  const formatLocalTime = (startMs: number) =>
+    new Date(startMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const getTimeUntil = (startMs: number | null) => {
+    if (startMs === null) return 'Past';
     const now = new Date();
-    const diffTime = eventDate.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    if (startMs + EVENT_ONGOING_GRACE_MS < now.getTime()) return 'Past';
+    // Compare local calendar days so "Today" and "Tomorrow" match the viewer's clock.
+    const eventDay = new Date(startMs);
+    eventDay.setHours(0, 0, 0, 0);
+    now.setHours(0, 0, 0, 0);
+    const diffDays = Math.round((eventDay.getTime() - now.getTime()) / DAY_MS);
     
-    if (diffDays < 0) return 'Past';
+    if (diffDays <= 0) return 'Today';
     if (diffDays === 0) return 'Today';
     if (diffDays === 1) return 'Tomorrow';
     if (diffDays < 7) return `In ${diffDays} days`;
@@ -234,8 +407,14 @@ export default function EventsScreen() {
       date: '',
       time: '',
       location: '',
-      timezone: 'UTC',
+      timezone: getDeviceTimeZone(),
+      repeat: 'none',
+      repeatUntil: '',
+      repeatExceptions: '',
+      region: '',
+      reminders: '',
       maxAttendees: '',
+      checkInPoints: '',
       link: '',
     });
     setEditingEvent(null);
@@ -257,7 +436,13 @@ export default function EventsScreen() {
       time: event.time,
       location: event.location,
       timezone: event.timezone,
+      repeat: event.recurrence?.frequency || 'none',
+      repeatUntil: event.recurrence?.until || '',
+      repeatExceptions: event.recurrence?.exceptions?.join(', ') || '',
+      region: event.region || '',
+      reminders: event.reminderOffsets ? event.reminderOffsets.join(', ') || 'off' : '',
       maxAttendees: event.maxAttendees?.toString() || '',
+      checkInPoints: event.checkInPoints?.toString() || '',
       link: event.link || '',
     });
     setIsModalVisible(true);
@@ -268,6 +453,15 @@ export default function EventsScreen() {
       Alert.alert('Error', 'Please fill in title, description, date, and time');
       return;
     }
+    if (formData.timezone.trim() && !isValidTimeZone(formData.timezone)) {
+      Alert.alert('Error', 'Use a timezone name like "Asia/Tokyo" or an offset like "UTC+09:00"');
+      return;
+    }
+    const reminderOffsets = parseReminderOffsets(formData.reminders);
+    if (reminderOffsets === undefined) {
+      Alert.alert('Error', 'Reminders must be minutes before the start, like "1440, 60, 10", up to one week');
+      return;
+    }
 
     setIsSubmitting(true);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -280,16 +474,23 @@ export default function EventsScreen() {
       date: formData.date,
       time: formData.time,
       location: formData.location.trim() || (formData.type === 'online' ? 'Online' : 'TBD'),
-      timezone: formData.timezone || 'UTC',
+      timezone: formData.timezone.trim() || 'UTC',
+      region: formData.region.trim(),
       maxAttendees: formData.maxAttendees ? parseInt(formData.maxAttendees) : undefined,
+      checkInPoints: formData.type === 'irl' && formData.checkInPoints ? parseInt(formData.checkInPoints) : undefined,
       link: formData.link.trim() || undefined,
     };
 
+    const recurrence = buildRecurrence(formData.repeat, formData.repeatUntil, formData.repeatExceptions);
+    if (recurrence && editingEvent?.recurrence?.count) {
+      recurrence.count = editingEvent.recurrence.count;
+    }
+
     let result;
     if (editingEvent) {
-      result = await updateEvent(editingEvent.id, eventData);
+      result = await updateEvent(editingEvent.id, { ...eventData, recurrence, reminderOffsets });
     } else {
-      result = await addEvent(eventData);
+      result = await addEvent({ ...eventData, recurrence: recurrence || undefined, reminderOffsets: reminderOffsets || undefined });
     }
 
     setIsSubmitting(false);
@@ -336,9 +537,18 @@ export default function EventsScreen() {
             <Text style={styles.title}>Events</Text>
             <Text style={styles.subtitle}>{filteredEvents.length} upcoming events</Text>
           </View>
-          {isAdmin && (
-            <AppButton label="Add" size="sm" onPress={openAddModal} icon={<Plus size={16} color="#FFF" />} />
-          )}
+          <View style={styles.headerActions}>
+            <AppButton
+              label="Subscribe"
+              size="sm"
+              variant="secondary"
+              onPress={handleSubscribeCalendar}
+              icon={<CalendarPlus size={16} color={Colors.dark.text} />}
+            />
+            {isAdmin && (
+              <AppButton label="Add" size="sm" onPress={openAddModal} icon={<Plus size={16} color="#FFF" />} />
+            )}
+          </View>
         </View>
       </View>
 
@@ -417,8 +627,14 @@ export default function EventsScreen() {
           <View style={styles.eventsContainer}>
             {filteredEvents.map((event) => {
               const isRsvped = rsvpStates[event.id];
-              const timeUntil = getTimeUntil(event.date);
+              const isWaitlisted = isRsvped && event.rsvpStatus === 'waitlisted';
+              const startMs = getEventStartMs(event);
+              const timeUntil = getTimeUntil(startMs);
+              const recurrenceLabel = describeRecurrence(event.recurrence);
+              const viewerTimeZone = getDeviceTimeZone();
               const isPast = timeUntil === 'Past';
+              const showCheckIn = event.type === 'irl' && (timeUntil === 'Today' || Boolean(event.isCheckedIn));
+              const showCheckInCode = event.type === 'irl' && canManageEventCheckIn(currentUser, event) && !isPast;
               
               return (
                 <View key={event.id} style={[styles.eventCard, isPast && styles.eventCardPast]}>
@@ -471,12 +687,21 @@ export default function EventsScreen() {
                     <View style={styles.eventDetails}>
                       <View style={styles.detailRow}>
                         <Calendar size={14} color={Colors.dark.textMuted} />
-                        <Text style={styles.detailText}>{formatDate(event.date)}</Text>
+                        <Text style={styles.detailText}>{startMs !== null ? formatDate(startMs) : event.date}</Text>
                       </View>
                       <View style={styles.detailRow}>
                         <Clock size={14} color={Colors.dark.textMuted} />
-                        <Text style={styles.detailText}>{event.time} {event.timezone}</Text>
+                        <Text style={styles.detailText}>
+                          {startMs !== null ? formatLocalTime(startMs) : event.time}
+                          {event.timezone !== viewerTimeZone && ` (${event.time} ${event.timezone})`}
+                        </Text>
                       </View>
+                      {recurrenceLabel && (
+                        <View style={styles.detailRow}>
+                          <Repeat size={14} color={Colors.dark.textMuted} />
+                          <Text style={styles.detailText}>{recurrenceLabel}</Text>
+                        </View>
+                      )}
                       <View style={styles.detailRow}>
                         <MapPin size={14} color={Colors.dark.textMuted} />
                         <Text style={styles.detailText} numberOfLines={1}>{event.location}</Text>
@@ -486,6 +711,7 @@ export default function EventsScreen() {
                         <Text style={styles.detailText}>
                           {event.attendees} attending
                           {event.maxAttendees && ` / ${event.maxAttendees} spots`}
+                          {!!event.waitlistCount && ` · ${event.waitlistCount} waitlisted`}
                         </Text>
                       </View>
                     </View>
@@ -493,12 +719,17 @@ export default function EventsScreen() {
                     <View style={styles.eventActions}>
                       {!isPast && (
                         <PressableScale 
-                          style={[styles.rsvpBtn, isRsvped && styles.rsvpBtnActive]}
-                          onPress={() => handleRSVP(event.id, event.title)}
+                          style={[styles.rsvpBtn, isRsvped && styles.rsvpBtnActive, isWaitlisted && styles.rsvpBtnWaitlisted]}
+                          onPress={() => handleRSVP(event)}
                           hapticType="medium"
                           testID={`rsvp-${event.id}`}
                         >
-                          {isRsvped ? (
+                          {isWaitlisted ? (
+                            <>
+                              <Clock size={16} color={Colors.dark.warning} />
+                              <Text style={[styles.rsvpText, styles.rsvpTextWaitlisted]}>Waitlisted</Text>
+                            </>
+                          ) : isRsvped ? (
                             <>
                               <Check size={16} color={Colors.dark.success} />
                               <Text style={[styles.rsvpText, styles.rsvpTextActive]}>Going</Text>
@@ -509,6 +740,17 @@ export default function EventsScreen() {
                         </PressableScale>
                       )}
                       
+                      {isAdmin && (
+                        <PressableScale
+                          style={styles.linkBtn}
+                          onPress={() => setAttendeeListEvent(event)}
+                          testID={`attendees-${event.id}`}
+                        >
+                          <Users size={14} color={Colors.dark.primary} />
+                          <Text style={styles.linkText}>Attendees</Text>
+                        </PressableScale>
+                      )}
+
                       {event.link && (
                         <PressableScale style={styles.linkBtn} testID={`link-${event.id}`}>
                           <ExternalLink size={14} color={Colors.dark.primary} />
@@ -516,6 +758,51 @@ export default function EventsScreen() {
                         </PressableScale>
                       )}
                     </View>
+
+                    {(showCheckIn || showCheckInCode || !isPast) && (
+                      <View style={[styles.eventActions, styles.secondaryActions]}>
+                        {showCheckIn && (
+                          <PressableScale
+                            style={[styles.rsvpBtn, event.isCheckedIn && styles.rsvpBtnActive]}
+                            onPress={() => openCheckInModal(event)}
+                            disabled={event.isCheckedIn}
+                            hapticType="medium"
+                            testID={`check-in-${event.id}`}
+                          >
+                            {event.isCheckedIn ? (
+                              <>
+                                <Check size={16} color={Colors.dark.success} />
+                                <Text style={[styles.rsvpText, styles.rsvpTextActive]}>Checked In</Text>
+                              </>
+                            ) : (
+                              <Text style={styles.rsvpText}>Check In</Text>
+                            )}
+                          </PressableScale>
+                        )}
+
+                        {showCheckInCode && (
+                          <PressableScale
+                            style={styles.linkBtn}
+                            onPress={() => setCheckInCodeEvent(event)}
+                            testID={`check-in-code-${event.id}`}
+                          >
+                            <QrCode size={14} color={Colors.dark.primary} />
+                            <Text style={styles.linkText}>Check-in Code</Text>
+                          </PressableScale>
+                        )}
+
+                        {!isPast && (
+                          <PressableScale
+                            style={styles.linkBtn}
+                            onPress={() => handleAddToCalendar(event)}
+                            testID={`add-to-calendar-${event.id}`}
+                          >
+                            <CalendarPlus size={14} color={Colors.dark.primary} />
+                            <Text style={styles.linkText}>Add to Calendar</Text>
+                          </PressableScale>
+                        )}
+                      </View>
+                    )}
                   </View>
                 </View>
               );
@@ -620,7 +907,9 @@ export default function EventsScreen() {
                   style={styles.input}
                   value={formData.timezone}
                   onChangeText={(text) => setFormData(prev => ({ ...prev, timezone: text }))}
-                  placeholder="UTC"
+                  placeholder="Europe/Berlin"
+                  autoCapitalize="none"
+                  autoCorrect={false}
                   placeholderTextColor={Colors.dark.textMuted}
                 />
               </View>
@@ -637,6 +926,64 @@ export default function EventsScreen() {
               </View>
             </View>
 
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Repeats</Text>
+              <View style={styles.typeRow}>
+                {REPEAT_OPTIONS.map((option) => {
+                  const active = formData.repeat === option.id;
+                  return (
+                    <PressableScale
+                      key={option.id}
+                      style={[styles.typeOption, styles.repeatOption, active && styles.typeOptionActive]}
+                      onPress={() => setFormData(prev => ({ ...prev, repeat: option.id }))}
+                      hapticType="selection"
+                    >
+                      <Text style={[styles.typeOptionText, active && styles.typeOptionTextActive]}>{option.label}</Text>
+                    </PressableScale>
+                  );
+                })}
+              </View>
+            </View>
+
+            {formData.repeat !== 'none' && (
+              <View style={styles.row}>
+                <View style={[styles.inputGroup, { flex: 1 }]}>
+                  <Text style={styles.inputLabel}>Repeat Until</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.repeatUntil}
+                    onChangeText={(text) => setFormData(prev => ({ ...prev, repeatUntil: text }))}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor={Colors.dark.textMuted}
+                  />
+                </View>
+                <View style={[styles.inputGroup, { flex: 1, marginLeft: 12 }]}>
+                  <Text style={styles.inputLabel}>Skip Dates</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={formData.repeatExceptions}
+                    onChangeText={(text) => setFormData(prev => ({ ...prev, repeatExceptions: text }))}
+                    placeholder="2026-12-24, ..."
+                    placeholderTextColor={Colors.dark.textMuted}
+                  />
+                </View>
+              </View>
+            )}
+
+            {formData.type === 'irl' && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Check-in Points</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.checkInPoints}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, checkInPoints: text }))}
+                  placeholder="0"
+                  placeholderTextColor={Colors.dark.textMuted}
+                  keyboardType="number-pad"
+                />
+              </View>
+            )}
+
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Location</Text>
               <TextInput
@@ -648,6 +995,28 @@ export default function EventsScreen() {
               />
             </View>
 
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Region</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.region}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, region: text }))}
+                placeholder="Leave empty for all regions"
+                placeholderTextColor={Colors.dark.textMuted}
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Reminders (minutes before)</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.reminders}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, reminders: text }))}
+                placeholder="60 (e.g. 1440, 60, 10 or off)"
+                placeholderTextColor={Colors.dark.textMuted}
+              />
+            </View>
+
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Event Link</Text>
               <TextInput
@@ -744,6 +1113,168 @@ export default function EventsScreen() {
         </View>
       </Modal>
 
+      {isAdmin && (
+        <Modal
+          visible={Boolean(attendeeListEvent)}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setAttendeeListEvent(null)}
+        >
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <PressableScale onPress={() => setAttendeeListEvent(null)}>
+                <X size={24} color={Colors.dark.text} />
+              </PressableScale>
+              <Text style={styles.modalTitle}>Attendees</Text>
+              <View style={{ width: 24 }} />
+            </View>
+            <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+              {attendeesQuery.isLoading ? (
+                <View style={styles.pollLoading}>
+                  <ActivityIndicator color={Colors.dark.primary} />
+                </View>
+              ) : attendeesQuery.data && attendeesQuery.data.length > 0 ? (
+                <View style={styles.pollResultWrap}>
+                  <Text style={styles.pollResultTitle}>{attendeeListEvent?.title}</Text>
+                  {attendeesQuery.data.map((attendee) => (
+                    <View key={attendee.userId} style={styles.pollResultCard}>
+                      <View style={styles.pollResultTop}>
+                        <Text style={styles.pollOptionLabel}>{attendee.name}</Text>
+                        <Text style={[styles.pollOptionVotes, attendee.status === 'waitlisted' && styles.rsvpTextWaitlisted]}>
+                          {attendee.status === 'waitlisted' ? 'Waitlisted' : 'Going'}
+                        </Text>
+                      </View>
+                      <Text style={styles.pollOptionVotes}>
+                        {attendee.region || 'No region'} · {new Date(attendee.rsvpedAt).toLocaleDateString()}
+                        {attendee.checkedInAt && ` · Checked in ${new Date(attendee.checkedInAt).toLocaleTimeString()}`}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ) : (
+                <View style={styles.pollEmpty}>
+                  <Text style={styles.pollEmptyText}>
+                    {attendeesQuery.error ? 'Unable to load attendees.' : 'No RSVPs yet.'}
+                  </Text>
+                </View>
+              )}
+            </ScrollView>
+          </View>
+        </Modal>
+      )}
+
+      {canManageCheckIn && (
+        <Modal
+          visible={Boolean(checkInCodeEvent)}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setCheckInCodeEvent(null)}
+        >
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <PressableScale onPress={() => setCheckInCodeEvent(null)}>
+                <X size={24} color={Colors.dark.text} />
+              </PressableScale>
+              <Text style={styles.modalTitle}>Check-in Code</Text>
+              <View style={{ width: 24 }} />
+            </View>
+            <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+              <View style={styles.pollResultWrap}>
+                <Text style={styles.pollResultTitle}>{checkInCodeEvent?.title}</Text>
+                {checkInCodeQuery.isLoading ? (
+                  <View style={styles.pollLoading}>
+                    <ActivityIndicator color={Colors.dark.primary} />
+                  </View>
+                ) : checkInCodeQuery.data?.isOpen ? (
+                  <>
+                    <Text style={styles.pollResultDescription}>
+                      Show this code at the venue. It changes every minute, so attendees need to enter it on the spot.
+                    </Text>
+                    <View style={styles.checkInCodeBox}>
+                      <Text style={styles.checkInCodeText} selectable>{checkInCodeQuery.data.code}</Text>
+                      {checkInCodeQuery.data.expiresAt && (
+                        <Text style={styles.pollOptionVotes}>
+                          Rotates at {new Date(checkInCodeQuery.data.expiresAt).toLocaleTimeString()}
+                        </Text>
+                      )}
+                    </View>
+                    <Text style={styles.pollOptionVotes}>{checkInCodeQuery.data.checkedInCount} checked in</Text>
+                    <PressableScale
+                      style={styles.pollActionBtn}
+                      onPress={() => checkInCodeEvent && closeCheckInMutation.mutate({ id: checkInCodeEvent.id })}
+                      disabled={closeCheckInMutation.isPending}
+                    >
+                      <Text style={styles.pollActionBtnText}>
+                        {closeCheckInMutation.isPending ? 'Closing...' : 'Close Check-in'}
+                      </Text>
+                    </PressableScale>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.pollResultDescription}>
+                      {checkInCodeQuery.error
+                        ? 'Unable to load check-in status.'
+                        : 'Check-in is closed. Open it when the event starts to display a rotating code.'}
+                    </Text>
+                    {!!checkInCodeQuery.data?.checkedInCount && (
+                      <Text style={styles.pollOptionVotes}>{checkInCodeQuery.data.checkedInCount} checked in</Text>
+                    )}
+                    <PressableScale
+                      style={styles.pollActionBtn}
+                      onPress={() => checkInCodeEvent && openCheckInMutation.mutate({ id: checkInCodeEvent.id })}
+                      disabled={openCheckInMutation.isPending}
+                    >
+                      <Text style={styles.pollActionBtnText}>
+                        {openCheckInMutation.isPending ? 'Opening...' : 'Open Check-in'}
+                      </Text>
+                    </PressableScale>
+                  </>
+                )}
+              </View>
+            </ScrollView>
+          </View>
+        </Modal>
+      )}
+
+      <Modal
+        visible={Boolean(checkInEvent)}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setCheckInEvent(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <PressableScale onPress={() => setCheckInEvent(null)}>
+              <X size={24} color={Colors.dark.text} />
+            </PressableScale>
+            <Text style={styles.modalTitle}>Check In</Text>
+            <View style={{ width: 24 }} />
+          </View>
+          <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={styles.pollResultTitle}>{checkInEvent?.title}</Text>
+            <Text style={styles.pollResultDescription}>Enter the code shown by the event host.</Text>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Check-in Code</Text>
+              <TextInput
+                style={[styles.input, styles.checkInCodeInput]}
+                value={checkInInput}
+                onChangeText={(text) => setCheckInInput(text.toUpperCase())}
+                placeholder="ABC123"
+                placeholderTextColor={Colors.dark.textMuted}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={6}
+              />
+            </View>
+            <AppButton
+              label={isCheckingIn ? 'Checking in...' : 'Check In'}
+              onPress={handleCheckIn}
+              disabled={isCheckingIn}
+            />
+          </ScrollView>
+        </View>
+      </Modal>
+
       {isAdmin && <Modal
         visible={isCreatePollModalVisible}
         animationType="slide"
@@ -835,6 +1366,10 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'flex-start',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   title: {
     fontSize: Typography.sizes.h1,
     fontWeight: Typography.weights.bold,
@@ -1209,6 +1744,37 @@ const styles = StyleSheet.create({
   rsvpTextActive: {
     color: Colors.dark.success,
   },
+  rsvpBtnWaitlisted: {
+    backgroundColor: Colors.dark.warning + '20',
+    borderColor: Colors.dark.warning,
+  },
+  rsvpTextWaitlisted: {
+    color: Colors.dark.warning,
+  },
+  secondaryActions: {
+    marginTop: 10,
+  },
+  checkInCodeBox: {
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 24,
+    marginBottom: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.dark.primary,
+    backgroundColor: Colors.dark.primary + '15',
+  },
+  checkInCodeText: {
+    color: Colors.dark.text,
+    fontSize: 40,
+    fontWeight: '800' as const,
+    letterSpacing: 8,
+  },
+  checkInCodeInput: {
+    fontSize: 22,
+    letterSpacing: 6,
+    textAlign: 'center',
+  },
   linkBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1289,6 +1855,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.dark.border,
   },
+  repeatOption: {
+    paddingHorizontal: 6,
+  },
   typeOptionActive: {
     borderColor: Colors.dark.primary,
     backgroundColor: Colors.dark.primary + '20',
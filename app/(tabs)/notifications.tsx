@@ -0,0 +1,159 @@
+import React, { useCallback } from 'react';
+import { View, Text, StyleSheet, ScrollView, RefreshControl, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Bell, ListTodo, FileCheck, BarChart3, Calendar, Trophy, Newspaper } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import Typography from '@/constants/typography';
+import { useAuth } from '@/contexts/AuthContext';
+import PressableScale from '@/components/PressableScale';
+import EmptyState from '@/components/EmptyState';
+import { trpc } from '@/lib/trpc';
+import type { AppNotification, AppNotificationType } from '@/types';
+
+const TYPE_ICONS: Record<AppNotificationType, React.ComponentType<{ size?: number; color?: string }>> = {
+  task: ListTodo,
+  review: FileCheck,
+  poll: BarChart3,
+  event: Calendar,
+  season: Trophy,
+  news: Newspaper,
+};
+
+function formatRelativeTime(iso: string): string {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+export default function NotificationsScreen() {
+  const router = useRouter();
+  const { currentUser } = useAuth();
+  const trpcUtils = trpc.useUtils();
+  const notificationsQuery = trpc.notifications.list.useQuery(
+    { limit: 100 },
+    { enabled: Boolean(currentUser?.id) }
+  );
+  const refreshCounts = useCallback(() => {
+    void trpcUtils.notifications.list.invalidate();
+    void trpcUtils.notifications.unreadCount.invalidate();
+  }, [trpcUtils]);
+  const markRead = trpc.notifications.markRead.useMutation({ onSuccess: refreshCounts });
+  const markAllRead = trpc.notifications.markAllRead.useMutation({ onSuccess: refreshCounts });
+
+  const notifications = notificationsQuery.data || [];
+  const hasUnread = notifications.some((notification) => !notification.readAt);
+
+  const openNotification = useCallback((notification: AppNotification) => {
+    if (!notification.readAt) {
+      markRead.mutate({ ids: [notification.id] });
+    }
+    if (notification.link) {
+      router.push(notification.link as any);
+    }
+  }, [markRead, router]);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={notificationsQuery.isRefetching}
+            onRefresh={refreshCounts}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Notifications</Text>
+            <Text style={styles.subtitle}>Tasks, reviews, polls, events and seasons</Text>
+          </View>
+          {hasUnread && (
+            <PressableScale style={styles.markAllBtn} onPress={() => markAllRead.mutate()}>
+              <Text style={styles.markAllText}>Mark all read</Text>
+            </PressableScale>
+          )}
+        </View>
+
+        {notificationsQuery.isLoading ? (
+          <ActivityIndicator color={Colors.dark.primary} />
+        ) : notifications.length === 0 ? (
+          <EmptyState icon={Bell} title="All caught up" message="New tasks, reviews and events will show up here" />
+        ) : (
+          notifications.map((notification) => {
+            const Icon = TYPE_ICONS[notification.type] || Bell;
+            const unread = !notification.readAt;
+            return (
+              <PressableScale
+                key={notification.id}
+                style={[styles.item, unread && styles.itemUnread]}
+                onPress={() => openNotification(notification)}
+              >
+                <View style={styles.iconWrap}>
+                  <Icon size={18} color={unread ? Colors.dark.primary : Colors.dark.textMuted} />
+                </View>
+                <View style={styles.itemBody}>
+                  <Text style={[styles.itemTitle, !unread && styles.itemTitleRead]}>{notification.title}</Text>
+                  <Text style={styles.itemText} numberOfLines={3}>{notification.body}</Text>
+                  <Text style={styles.itemTime}>{formatRelativeTime(notification.createdAt)}</Text>
+                </View>
+                {unread && <View style={styles.unreadDot} />}
+              </PressableScale>
+            );
+          })
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: Colors.dark.background },
+  content: { padding: 16, paddingBottom: 36, gap: 10 },
+  headerRow: { flexDirection: 'row', alignItems: 'flex-start', justifyContent: 'space-between', marginBottom: 4 },
+  header: { gap: 4, flex: 1 },
+  title: { color: Colors.dark.text, fontSize: Typography.sizes.h1, fontWeight: Typography.weights.bold },
+  subtitle: { color: Colors.dark.textSecondary, fontSize: Typography.sizes.body },
+  markAllBtn: {
+    borderWidth: 1,
+    borderColor: Colors.dark.primary,
+    backgroundColor: Colors.dark.primary + '18',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  markAllText: { color: Colors.dark.primary, fontSize: 12, fontWeight: '700' },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  itemUnread: { borderColor: Colors.dark.primary + '60' },
+  iconWrap: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  itemBody: { flex: 1, gap: 3 },
+  itemTitle: { color: Colors.dark.text, fontSize: 15, fontWeight: '700' },
+  itemTitleRead: { fontWeight: '500', color: Colors.dark.textSecondary },
+  itemText: { color: Colors.dark.textSecondary, fontSize: 13, lineHeight: 18 },
+  itemTime: { color: Colors.dark.textMuted, fontSize: 11 },
+  unreadDot: { width: 8, height: 8, borderRadius: 4, backgroundColor: Colors.dark.primary, marginTop: 6 },
+});
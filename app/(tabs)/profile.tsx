@@ -4,13 +4,14 @@ import Image from '@/components/StableImage';
 import Constants from 'expo-constants';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { Edit3, Award, TrendingUp, FileCheck, ExternalLink, ChevronRight, ChevronLeft, X, Save, User as UserIcon, LogOut, Star, Mail, MessageCircle, Circle, CheckCircle, Lock, Eye, EyeOff, MapPin } from 'lucide-react-native';
+import { Edit3, Award, TrendingUp, FileCheck, ExternalLink, ChevronRight, ChevronLeft, X, Save, User as UserIcon, LogOut, Star, Mail, MessageCircle, Circle, CheckCircle, Lock, Eye, EyeOff, MapPin, Calendar } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import Typography from '@/constants/typography';
 import { useApp, useUserExtraContent, useUserSubmissions } from '@/contexts/AppContext';
 import { AVATAR_PRESETS, normalizeAvatarUri } from '@/constants/avatarPresets';
 import { getBuildLabel } from '@/constants/buildInfo';
+import { trpc } from '@/lib/trpc';
 
 import { useAuth } from '@/contexts/AuthContext';
 import StatCard from '@/components/StatCard';
@@ -19,6 +20,13 @@ import PlatformBadge from '@/components/PlatformBadge';
 import PressableScale from '@/components/PressableScale';
 import EmptyState from '@/components/EmptyState';
 import LoadingScreen from '@/components/LoadingScreen';
+import type { NotificationCategory } from '@/types';
+
+const TELEGRAM_NOTIFICATION_OPTIONS: { id: NotificationCategory; label: string }[] = [
+  { id: 'submission_approved', label: 'Approved' },
+  { id: 'submission_needs_edits', label: 'Needs edits' },
+  { id: 'submission_rejected', label: 'Rejected' },
+];
 
 type TabType = 'submissions' | 'stats';
 
@@ -28,6 +36,24 @@ export default function ProfileScreen() {
   const { currentUser, logout, changePassword, updateProfile } = useAuth();
   const sortedSubmissions = useUserSubmissions(currentUser?.id);
   const sortedExtraContent = useUserExtraContent(currentUser?.id);
+  const attendanceQuery = trpc.events.myAttendance.useQuery(undefined, {
+    enabled: Boolean(currentUser?.id),
+  });
+  const attendance = attendanceQuery.data || [];
+  const telegramLinkQuery = trpc.users.telegramLink.useQuery(undefined, {
+    enabled: Boolean(currentUser?.id),
+  });
+  const createTelegramLinkCode = trpc.users.createTelegramLinkCode.useMutation();
+  const unlinkTelegram = trpc.users.unlinkTelegram.useMutation({
+    onSuccess: () => void telegramLinkQuery.refetch(),
+  });
+  const notificationPreferencesQuery = trpc.users.notificationPreferences.useQuery(undefined, {
+    enabled: Boolean(telegramLinkQuery.data?.linked),
+  });
+  const updateNotificationPreferences = trpc.users.updateNotificationPreferences.useMutation({
+    onSuccess: () => void notificationPreferencesQuery.refetch(),
+    onError: (error) => Alert.alert('Error', error.message || 'Could not save notification settings'),
+  });
   const [activeTab, setActiveTab] = useState<TabType>('submissions');
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
   const [editName, setEditName] = useState(currentUser?.name || '');
@@ -83,7 +109,8 @@ export default function ProfileScreen() {
 
   const handleRefresh = useCallback(() => {
     refreshData();
-  }, [refreshData]);
+    void attendanceQuery.refetch();
+  }, [refreshData, attendanceQuery]);
 
   const openEditModal = useCallback(() => {
     if (!currentUser) return;
@@ -255,6 +282,43 @@ export default function ProfileScreen() {
     setIsPasswordModalVisible(true);
   }, []);
 
+  const handleTelegramBot = useCallback(async () => {
+    const link = telegramLinkQuery.data;
+    if (link?.linked) {
+      Alert.alert(
+        'Telegram Bot',
+        `Linked${link.telegramUsername ? ` to @${link.telegramUsername}` : ''}. Unlink to stop using the bot from that chat.`,
+        [
+          { text: 'Close', style: 'cancel' },
+          { text: 'Unlink', style: 'destructive', onPress: () => unlinkTelegram.mutate() },
+        ]
+      );
+      return;
+    }
+
+    try {
+      const result = await createTelegramLinkCode.mutateAsync();
+      const botName = result.botUsername ? `@${result.botUsername}` : 'the ambassador bot';
+      Alert.alert(
+        'Link Telegram',
+        `Send this to ${botName} within 15 minutes:\n\n/link ${result.code}`,
+        [
+          { text: 'Done', style: 'cancel', onPress: () => void telegramLinkQuery.refetch() },
+          ...(result.deepLink
+            ? [{ text: 'Open Telegram', onPress: () => void Linking.openURL(result.deepLink as string) }]
+            : []),
+        ]
+      );
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Could not create a link code');
+    }
+  }, [createTelegramLinkCode, telegramLinkQuery, unlinkTelegram]);
+
+  const toggleTelegramNotification = useCallback((category: NotificationCategory) => {
+    const current = notificationPreferencesQuery.data?.telegram[category] ?? true;
+    updateNotificationPreferences.mutate({ telegram: { [category]: !current } });
+  }, [notificationPreferencesQuery.data, updateNotificationPreferences]);
+
   const handleChangePassword = useCallback(async () => {
     if (!currentPassword.trim()) {
       Alert.alert('Error', 'Please enter your current password');
@@ -380,6 +444,52 @@ export default function ProfileScreen() {
             </View>
             <ChevronRight size={20} color={Colors.dark.textMuted} />
           </PressableScale>
+          <PressableScale
+            style={[styles.changePasswordBtn, styles.securityRowSpaced]}
+            onPress={handleTelegramBot}
+            testID="telegram-bot-btn"
+          >
+            <View style={styles.changePasswordLeft}>
+              <View style={styles.lockIconContainer}>
+                <MessageCircle size={18} color={Colors.dark.primary} />
+              </View>
+              <View>
+                <Text style={styles.changePasswordTitle}>Telegram Bot</Text>
+                <Text style={styles.changePasswordSubtitle}>
+                  {telegramLinkQuery.data?.linked
+                    ? `Linked${telegramLinkQuery.data.telegramUsername ? ` as @${telegramLinkQuery.data.telegramUsername}` : ''}`
+                    : 'Check tasks, rank and events from Telegram'}
+                </Text>
+              </View>
+            </View>
+            <ChevronRight size={20} color={Colors.dark.textMuted} />
+          </PressableScale>
+          {telegramLinkQuery.data?.linked && (
+            <View style={styles.notificationPrefs}>
+              <Text style={styles.changePasswordSubtitle}>Message me on Telegram when a submission is:</Text>
+              <View style={styles.notificationPrefRow}>
+                {TELEGRAM_NOTIFICATION_OPTIONS.map((option) => {
+                  const enabled = notificationPreferencesQuery.data?.telegram[option.id] ?? true;
+                  return (
+                    <PressableScale
+                      key={option.id}
+                      style={[styles.notificationPrefChip, enabled && styles.notificationPrefChipActive]}
+                      onPress={() => toggleTelegramNotification(option.id)}
+                    >
+                      {enabled ? (
+                        <CheckCircle size={14} color={Colors.dark.primary} />
+                      ) : (
+                        <Circle size={14} color={Colors.dark.textMuted} />
+                      )}
+                      <Text style={[styles.notificationPrefText, enabled && styles.notificationPrefTextActive]}>
+                        {option.label}
+                      </Text>
+                    </PressableScale>
+                  );
+                })}
+              </View>
+            </View>
+          )}
         </View>
 
         <View style={styles.handlesSection}>
@@ -667,7 +777,34 @@ export default function ProfileScreen() {
               <StatCard label="Avg Score" value={averageScore} color={Colors.dark.warning} />
               <StatCard label="Avg Engagement" value={avgEngagement} color={Colors.dark.error} />
             </View>
-            
+
+            <View style={[styles.sectionHeader, styles.attendanceHeader]}>
+              <Text style={styles.sectionHeaderTitle}>Events Attended</Text>
+              <Text style={styles.sectionHeaderSubtitle}>{attendance.length} checked in</Text>
+            </View>
+            {attendance.length === 0 ? (
+              <EmptyState
+                icon={Calendar}
+                title="No events yet"
+                message="Check in at an in-person event to see it here"
+              />
+            ) : (
+              attendance.map((item) => (
+                <View key={item.eventId} style={styles.submissionCard}>
+                  <Text style={styles.submissionTitle}>{item.title}</Text>
+                  {!!item.location && <Text style={styles.submissionCampaign}>{item.location}</Text>}
+                  <View style={styles.attendanceFooter}>
+                    <Text style={styles.submissionDate}>
+                      Checked in {new Date(item.checkedInAt).toLocaleDateString()}
+                    </Text>
+                    {item.pointsAwarded > 0 && (
+                      <Text style={styles.attendancePoints}>+{item.pointsAwarded} pts</Text>
+                    )}
+                  </View>
+                </View>
+              ))
+            )}
+
             <View style={styles.memberSince}>
               <Text style={styles.memberSinceText}>
                 Member since {new Date(user.joinedAt).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
@@ -1578,6 +1715,19 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 12,
   },
+  attendanceHeader: {
+    marginTop: 24,
+  },
+  attendanceFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  attendancePoints: {
+    fontSize: 13,
+    fontWeight: '700' as const,
+    color: Colors.dark.success,
+  },
   memberSince: {
     alignItems: 'center',
     paddingVertical: 20,
@@ -1768,6 +1918,46 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: 14,
   },
+  securityRowSpaced: {
+    marginTop: 10,
+  },
+  notificationPrefs: {
+    marginTop: 10,
+    backgroundColor: Colors.dark.surface,
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+  },
+  notificationPrefRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 10,
+  },
+  notificationPrefChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    backgroundColor: Colors.dark.surfaceLight,
+  },
+  notificationPrefChipActive: {
+    borderColor: Colors.dark.primary,
+    backgroundColor: Colors.dark.primary + '18',
+  },
+  notificationPrefText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: Colors.dark.textMuted,
+  },
+  notificationPrefTextActive: {
+    color: Colors.dark.primary,
+  },
   lockIconContainer: {
     width: 40,
     height: 40,
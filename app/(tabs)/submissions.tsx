@@ -1,19 +1,20 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Modal, TextInput, Alert, RefreshControl, Linking, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { FileCheck, Clock, CheckCircle, XCircle, Edit3, ExternalLink, Star, X, Users, MessageSquare, TrendingUp, AlertCircle, RotateCcw, RefreshCw, Eye, Heart, Repeat, MessageCircle } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import Typography from '@/constants/typography';
 import { useAuth } from '@/contexts/AuthContext';
 import { useApp, useUserSubmissions } from '@/contexts/AppContext';
-import { Submission, SubmissionRating, SubmissionStatus, Platform } from '@/types';
+import { RubricBand, RubricGuide, Submission, SubmissionDuplicateRef, SubmissionRating, SubmissionReviewEntry, SubmissionStatus, Platform } from '@/types';
 import PlatformBadge from '@/components/PlatformBadge';
 import StatusBadge from '@/components/StatusBadge';
 import PressableScale from '@/components/PressableScale';
 import EmptyState from '@/components/EmptyState';
-import { trpc } from '@/lib/trpc';
+import { isBackendEnabled, trpc } from '@/lib/trpc';
+import { buildEditChecklist, canReviewSubmissionBy } from '@/lib/submission-review';
 import AppBackButton from '@/components/AppBackButton';
 
 type FilterTab = 'pending' | 'approved' | 'needs_edits' | 'rejected';
@@ -46,10 +47,41 @@ function computeSuggestedXEngagementScore(impressions: number, followerCount?: n
   return 20;
 }
 
+function isClaimedByOther(submission: Submission, userId?: string): boolean {
+  const claim = submission.reviewClaim;
+  return Boolean(claim && claim.reviewerId !== userId && Date.parse(claim.expiresAt) > Date.now());
+}
+
+function formatReviewEntry(entry: SubmissionReviewEntry): string {
+  const stage = entry.overridesLead ? 'Admin override' : entry.stage === 'second' ? 'Second review' : 'Review';
+  const reviewer = entry.reviewerRole === 'regional_lead' ? `${entry.reviewerName} (lead)` : entry.reviewerName;
+  const status = entry.status === 'needs_edits' ? 'needs edits' : entry.status;
+  const score = entry.rating ? ` • ${entry.rating.totalScore} pts` : '';
+  return `${stage} by ${reviewer}: ${status}${score} • ${new Date(entry.reviewedAt).toLocaleDateString()}`;
+}
+
+function hasXPost(submission: Submission): boolean {
+  return [submission.postUrl, ...(submission.links || []).map(link => link.url)]
+    .some(url => /(?:twitter|x)\.com\/\w+\/status\/\d+/i.test(url));
+}
+
+function hasFailedPrecheck(submission: Submission): boolean {
+  return Boolean(submission.prechecks?.checks.some(check => !check.passed));
+}
+
+function formatDuplicateRef(ref: SubmissionDuplicateRef): string {
+  const source = ref.source === 'extra_content' ? 'Extra X content' : ref.taskTitle || 'Another task';
+  return `${source} • ${new Date(ref.submittedAt).toLocaleDateString()}`;
+}
+
+function findRubricBand(guide: RubricGuide | undefined, value: number): RubricBand | undefined {
+  return guide?.bands.find(band => value >= band.min && value <= band.max);
+}
+
 function AdminReviewScreen() {
   const router = useRouter();
-  const { users, refreshUsers } = useAuth();
-  const { allSubmissions, reviewSubmission, isRefreshing, refreshData, deleteSubmission } = useApp();
+  const { currentUser, users, refreshUsers } = useAuth();
+  const { allSubmissions, tasks, reviewSubmission, isRefreshing, refreshData, deleteSubmission } = useApp();
   const [activeTab, setActiveTab] = useState<FilterTab>('pending');
   const [selectedSubmission, setSelectedSubmission] = useState<Submission | null>(null);
   const [isReviewModalVisible, setIsReviewModalVisible] = useState(false);
@@ -65,6 +97,8 @@ function AdminReviewScreen() {
   const [feedback, setFeedback] = useState('');
   const [ratingNotes, setRatingNotes] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [requestSecondReview, setRequestSecondReview] = useState(false);
+  const [checklistIds, setChecklistIds] = useState<string[]>([]);
   const [fetchedMetrics, setFetchedMetrics] = useState<{
     impressions: number;
     likes: number;
@@ -78,17 +112,52 @@ function AdminReviewScreen() {
     retry: false,
   });
   const trpcUtils = trpc.useUtils();
+  const claimSubmission = trpc.submissions.claim.useMutation();
+  const releaseSubmission = trpc.submissions.release.useMutation();
+  const precheckSubmission = trpc.submissions.precheck.useMutation();
+  const assignReviewer = trpc.submissions.assign.useMutation({
+    onSuccess: (updated) => {
+      setSelectedSubmission(updated);
+      void refreshData();
+    },
+    onError: (error) => Alert.alert('Error', error.message || 'Failed to assign reviewer'),
+  });
+  const guidanceQuery = trpc.reviewGuidance.get.useQuery(undefined, { enabled: isBackendEnabled() });
+  const isAdminReviewer = currentUser?.role === 'admin';
+
+  const rubricByDimension = useMemo(
+    () => new Map((guidanceQuery.data?.rubric || []).map(guide => [guide.dimension as string, guide])),
+    [guidanceQuery.data]
+  );
+  const snippets = guidanceQuery.data?.snippets || [];
+
+  const editChecklist = useMemo(() => {
+    const task = tasks.find(t => t.id === selectedSubmission?.taskId);
+    return task ? buildEditChecklist(task) : [];
+  }, [tasks, selectedSubmission?.taskId]);
+
+  // Regional leads only see submissions from ambassadors in their region.
+  const reviewableSubmissions = useMemo(() => {
+    if (!currentUser || isAdminReviewer) return allSubmissions;
+    const userById = new Map(users.map(user => [user.id, user]));
+    return allSubmissions.filter(s => canReviewSubmissionBy(currentUser, userById.get(s.userId)));
+  }, [allSubmissions, users, currentUser, isAdminReviewer]);
+
+  const reviewers = useMemo(() => {
+    const author = users.find(user => user.id === selectedSubmission?.userId);
+    return users.filter(user => user.role !== 'ambassador' && canReviewSubmissionBy(user, author));
+  }, [users, selectedSubmission?.userId]);
 
   const filteredSubmissions = useMemo(() => {
-    return allSubmissions.filter(s => s.status === activeTab);
-  }, [allSubmissions, activeTab]);
+    return reviewableSubmissions.filter(s => s.status === activeTab);
+  }, [reviewableSubmissions, activeTab]);
 
   const tabCounts = useMemo(() => ({
-    pending: allSubmissions.filter(s => s.status === 'pending').length,
-    approved: allSubmissions.filter(s => s.status === 'approved').length,
-    needs_edits: allSubmissions.filter(s => s.status === 'needs_edits').length,
-    rejected: allSubmissions.filter(s => s.status === 'rejected').length,
-  }), [allSubmissions]);
+    pending: reviewableSubmissions.filter(s => s.status === 'pending').length,
+    approved: reviewableSubmissions.filter(s => s.status === 'approved').length,
+    needs_edits: reviewableSubmissions.filter(s => s.status === 'needs_edits').length,
+    rejected: reviewableSubmissions.filter(s => s.status === 'rejected').length,
+  }), [reviewableSubmissions]);
 
   const calculateTotalScore = useCallback(() => {
     const contentScore = Object.values(ratings).reduce((sum, val) => sum + val, 0);
@@ -104,26 +173,67 @@ function AdminReviewScreen() {
     return user?.stats?.xFollowers || 0;
   }, [users]);
 
-  const openReviewModal = useCallback((submission: Submission) => {
-    setSelectedSubmission(submission);
+  // Unrated submissions take the relevance score suggested by the pre-checks.
+  const runPrechecks = useCallback(async (submission: Submission, showErrors: boolean) => {
+    try {
+      const checked = await precheckSubmission.mutateAsync({ id: submission.id });
+      setSelectedSubmission(current => current?.id === checked.id ? checked : current);
+      void refreshData();
+      const suggested = checked.prechecks?.suggestedRelevance;
+      if (!submission.rating && suggested !== undefined) {
+        setRatings(prev => ({ ...prev, relevanceToTask: suggested }));
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Failed to check the X post';
+      console.log('[Submissions] Pre-check failed:', message);
+      if (showErrors) {
+        Alert.alert('Pre-check failed', message);
+      }
+    }
+  }, [precheckSubmission, refreshData]);
+
+  // Opening a submission claims it so two reviewers cannot rate it at the same time.
+  const openReviewModal = useCallback(async (submission: Submission) => {
+    let claimed = submission;
+    try {
+      if (isBackendEnabled()) {
+        claimed = await claimSubmission.mutateAsync({ id: submission.id });
+      }
+    } catch (error: unknown) {
+      Alert.alert('In review', error instanceof Error ? error.message : 'This submission is being reviewed');
+      return;
+    }
+    setSelectedSubmission(claimed);
+    setRequestSecondReview(false);
+    setChecklistIds(claimed.editChecklist?.map(item => item.id) || []);
     setRatings({
-      relevanceToTask: submission.rating?.relevanceToTask ?? 15,
-      creativity: submission.rating?.creativity ?? 10,
-      originality: submission.rating?.originality ?? 10,
-      effortFormat: submission.rating?.effortFormat ?? 10,
-      enthusiasmTone: submission.rating?.enthusiasmTone ?? 6,
+      relevanceToTask: claimed.rating?.relevanceToTask ?? claimed.prechecks?.suggestedRelevance ?? 15,
+      creativity: claimed.rating?.creativity ?? 10,
+      originality: claimed.rating?.originality ?? 10,
+      effortFormat: claimed.rating?.effortFormat ?? 10,
+      enthusiasmTone: claimed.rating?.enthusiasmTone ?? 6,
     });
-    setEngagementScore(submission.rating?.engagementScore ?? 10);
-    setFeedback(submission.feedback || '');
-    setRatingNotes(submission.rating?.notes || '');
-    setFetchedMetrics(submission.metrics ? {
-      impressions: submission.metrics.impressions,
-      likes: submission.metrics.likes,
-      retweets: submission.metrics.shares,
-      replies: submission.metrics.comments,
+    setEngagementScore(claimed.rating?.engagementScore ?? 10);
+    setFeedback(claimed.feedback || '');
+    setRatingNotes(claimed.rating?.notes || '');
+    setFetchedMetrics(claimed.metrics ? {
+      impressions: claimed.metrics.impressions,
+      likes: claimed.metrics.likes,
+      retweets: claimed.metrics.shares,
+      replies: claimed.metrics.comments,
     } : null);
     setIsReviewModalVisible(true);
-  }, []);
+    if (isBackendEnabled() && hasXPost(claimed) && !claimed.prechecks) {
+      void runPrechecks(claimed, false);
+    }
+  }, [claimSubmission, runPrechecks]);
+
+  const closeReviewModal = useCallback(() => {
+    if (selectedSubmission && isBackendEnabled()) {
+      releaseSubmission.mutate({ id: selectedSubmission.id });
+    }
+    setIsReviewModalVisible(false);
+  }, [selectedSubmission, releaseSubmission]);
 
   const isTwitterPost = useCallback((submission: Submission | null) => {
     if (!submission) return false;
@@ -182,7 +292,13 @@ function AdminReviewScreen() {
       status,
       status === 'approved' ? rating : undefined,
       feedback || undefined,
-      metricsToSave
+      metricsToSave,
+      {
+        requestSecondReview,
+        checklistItemIds: status === 'needs_edits'
+          ? editChecklist.filter(item => checklistIds.includes(item.id)).map(item => item.id)
+          : undefined,
+      }
     );
 
     setIsSubmitting(false);
@@ -192,12 +308,24 @@ function AdminReviewScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setIsReviewModalVisible(false);
       setSelectedSubmission(null);
-      Alert.alert('Success', `Submission ${status === 'approved' ? 'approved' : status === 'needs_edits' ? 'marked for edits' : 'rejected'}`);
+      if (result.awaitingSecondReview) {
+        Alert.alert('Sent for second review', 'Another reviewer needs to confirm this approval.');
+      } else {
+        Alert.alert('Success', `Submission ${status === 'approved' ? 'approved' : status === 'needs_edits' ? 'marked for edits' : 'rejected'}`);
+      }
     } else {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert('Error', result.error || 'Failed to review submission');
     }
-  }, [selectedSubmission, ratings, engagementScore, feedback, ratingNotes, calculateTotalScore, reviewSubmission, fetchedMetrics, refreshUsers]);
+  }, [selectedSubmission, ratings, engagementScore, feedback, ratingNotes, calculateTotalScore, reviewSubmission, fetchedMetrics, refreshUsers, requestSecondReview, editChecklist, checklistIds]);
+
+  const toggleChecklistItem = useCallback((itemId: string) => {
+    setChecklistIds(prev => prev.includes(itemId) ? prev.filter(id => id !== itemId) : [...prev, itemId]);
+  }, []);
+
+  const appendSnippet = useCallback((text: string) => {
+    setFeedback(prev => prev.trim() ? `${prev.trim()}\n\n${text}` : text);
+  }, []);
 
   const handleDeleteSubmission = useCallback((submission: Submission) => {
     const userName = getUserName(submission.userId);
@@ -242,7 +370,11 @@ function AdminReviewScreen() {
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
       <View style={styles.header}>
         <View style={styles.headerMain}>
-          <AppBackButton onPress={() => router.push('/(tabs)/admin' as any)} label="Admin" style={styles.backBtn} />
+          {isAdminReviewer ? (
+            <AppBackButton onPress={() => router.push('/(tabs)/admin' as any)} label="Admin" style={styles.backBtn} />
+          ) : (
+            <AppBackButton onPress={() => router.back()} style={styles.backBtn} />
+          )}
           <Text style={styles.headerTitle}>Review Submissions</Text>
         </View>
         <View style={styles.headerStats}>
@@ -297,7 +429,7 @@ function AdminReviewScreen() {
             <PressableScale
               key={submission.id}
               style={styles.submissionCard}
-              onPress={() => openReviewModal(submission)}
+              onPress={() => void openReviewModal(submission)}
             >
               <View style={styles.submissionHeader}>
                 <View style={styles.submissionMeta}>
@@ -328,6 +460,28 @@ function AdminReviewScreen() {
                 </View>
               </View>
 
+              {(submission.secondReviewReason || submission.assignedReviewerId || isClaimedByOther(submission, currentUser?.id) || hasFailedPrecheck(submission) || submission.duplicateOf) && (
+                <View style={styles.reviewTags}>
+                  {submission.secondReviewReason && (
+                    <Text style={[styles.reviewTag, styles.reviewTagWarning]}>Second review</Text>
+                  )}
+                  {hasFailedPrecheck(submission) && (
+                    <Text style={[styles.reviewTag, styles.reviewTagFailed]}>Pre-check failed</Text>
+                  )}
+                  {submission.duplicateOf && (
+                    <Text style={[styles.reviewTag, styles.reviewTagWarning]}>Reused post</Text>
+                  )}
+                  {submission.assignedReviewerId && (
+                    <Text style={styles.reviewTag}>Assigned: {getUserName(submission.assignedReviewerId)}</Text>
+                  )}
+                  {isClaimedByOther(submission, currentUser?.id) && (
+                    <Text style={[styles.reviewTag, styles.reviewTagWarning]}>
+                      Reviewing: {submission.reviewClaim?.reviewerName}
+                    </Text>
+                  )}
+                </View>
+              )}
+
               <PressableScale
                 style={styles.viewPostBtn}
                 onPress={() => openPostUrl(submission.postUrl)}
@@ -345,11 +499,11 @@ function AdminReviewScreen() {
         visible={isReviewModalVisible}
         animationType="slide"
         presentationStyle="pageSheet"
-        onRequestClose={() => setIsReviewModalVisible(false)}
+        onRequestClose={closeReviewModal}
       >
         <View style={styles.modalContainer}>
           <View style={styles.modalHeader}>
-            <PressableScale onPress={() => setIsReviewModalVisible(false)}>
+            <PressableScale onPress={closeReviewModal}>
               <X size={24} color={Colors.dark.text} />
             </PressableScale>
             <Text style={styles.modalTitle}>Review Submission</Text>
@@ -379,8 +533,110 @@ function AdminReviewScreen() {
                       <Text style={styles.notesText}>{selectedSubmission.notes}</Text>
                     </View>
                   )}
+                  {selectedSubmission.secondReviewReason && (
+                    <View style={styles.notesBox}>
+                      <AlertCircle size={14} color={Colors.dark.warning} />
+                      <Text style={styles.notesText}>
+                        Second review needed: {selectedSubmission.secondReviewReason}. Your decision is final.
+                      </Text>
+                    </View>
+                  )}
                 </View>
 
+                {selectedSubmission.duplicateOf && (() => {
+                  const earlier = selectedSubmission.duplicateOf;
+                  const earlierSubmission = allSubmissions.find(s => s.id === earlier.id);
+                  return (
+                    <View style={styles.inputGroup}>
+                      <Text style={styles.inputLabel}>Reuses an Earlier Post</Text>
+                      <View style={styles.historyEntry}>
+                        <Text style={styles.historyText}>
+                          {formatDuplicateRef(earlier)}
+                          {earlier.userId !== selectedSubmission.userId ? ` • by ${getUserName(earlier.userId)}` : ''}
+                        </Text>
+                        {earlierSubmission && (
+                          <Text style={styles.historyFeedback}>
+                            Status: {earlierSubmission.status.replace('_', ' ')}
+                            {earlierSubmission.rating ? ` • ${earlierSubmission.rating.totalScore}/100` : ''}
+                          </Text>
+                        )}
+                        <PressableScale onPress={() => openPostUrl(earlier.url)} hapticType="selection">
+                          <Text style={styles.fetchMetricsText} numberOfLines={1}>{earlier.url}</Text>
+                        </PressableScale>
+                      </View>
+                    </View>
+                  );
+                })()}
+
+                {hasXPost(selectedSubmission) && (
+                  <View style={styles.inputGroup}>
+                    <View style={styles.precheckHeader}>
+                      <Text style={styles.inputLabel}>Pre-checks</Text>
+                      {precheckSubmission.isPending ? (
+                        <ActivityIndicator size="small" color={Colors.dark.primary} />
+                      ) : (
+                        <PressableScale onPress={() => void runPrechecks(selectedSubmission, true)} hapticType="selection">
+                          <Text style={styles.fetchMetricsText}>{selectedSubmission.prechecks ? 'Run again' : 'Run checks'}</Text>
+                        </PressableScale>
+                      )}
+                    </View>
+                    {selectedSubmission.prechecks ? (
+                      <>
+                        <View style={styles.reviewTags}>
+                          {selectedSubmission.prechecks.checks.map((check) => (
+                            <Text key={check.key} style={[styles.reviewTag, check.passed ? styles.reviewTagPassed : styles.reviewTagFailed]}>
+                              {check.passed ? '✓' : '✗'} {check.label}
+                            </Text>
+                          ))}
+                        </View>
+                        {selectedSubmission.prechecks.checks.filter(check => check.detail).map((check) => (
+                          <Text key={check.key} style={styles.historyFeedback}>{check.label}: {check.detail}</Text>
+                        ))}
+                      </>
+                    ) : (
+                      <Text style={styles.historyFeedback}>
+                        {precheckSubmission.isPending ? 'Checking the X post...' : 'Not checked yet'}
+                      </Text>
+                    )}
+                  </View>
+                )}
+
+                {isAdminReviewer && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Assigned Reviewer</Text>
+                    <View style={styles.reviewTags}>
+                      {[{ id: null, name: 'Unassigned' }, ...reviewers].map((reviewer) => {
+                        const isActive = (selectedSubmission.assignedReviewerId || null) === reviewer.id;
+                        return (
+                          <PressableScale
+                            key={reviewer.id || 'none'}
+                            style={[styles.reviewerChip, isActive && styles.reviewerChipActive]}
+                            onPress={() => assignReviewer.mutate({ id: selectedSubmission.id, reviewerId: reviewer.id })}
+                            disabled={isActive || assignReviewer.isPending}
+                            hapticType="selection"
+                          >
+                            <Text style={[styles.reviewerChipText, isActive && styles.reviewerChipTextActive]}>
+                              {reviewer.name}
+                            </Text>
+                          </PressableScale>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
+
+                {(selectedSubmission.reviewHistory?.length ?? 0) > 0 && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Review History</Text>
+                    {[...(selectedSubmission.reviewHistory || [])].reverse().map((entry) => (
+                      <View key={entry.id} style={styles.historyEntry}>
+                        <Text style={styles.historyText}>{formatReviewEntry(entry)}</Text>
+                        {entry.feedback ? <Text style={styles.historyFeedback}>{entry.feedback}</Text> : null}
+                      </View>
+                    ))}
+                  </View>
+                )}
+
                 <View style={styles.ratingSection}>
                   <Text style={styles.ratingSectionTitle}>Content Quality & Execution (80 pts)</Text>
                   <Text style={styles.ratingSectionSubtitle}>Score each criteria based on max points</Text>
@@ -392,6 +648,8 @@ function AdminReviewScreen() {
                       : criteria.maxPoints === 15 
                         ? [0, 5, 10, 15] 
                         : [0, 3, 6, 10];
+                    const guide = rubricByDimension.get(criteria.key);
+                    const band = findRubricBand(guide, currentValue);
                     return (
                       <View key={criteria.key} style={styles.criteriaRow}>
                         <View style={styles.criteriaInfo}>
@@ -399,7 +657,13 @@ function AdminReviewScreen() {
                             <Text style={styles.criteriaLabel}>{criteria.label}</Text>
                             <Text style={styles.criteriaPoints}>{currentValue}/{criteria.maxPoints}</Text>
                           </View>
-                          <Text style={styles.criteriaDescription}>{criteria.description}</Text>
+                          <Text style={styles.criteriaDescription}>{guide?.description || criteria.description}</Text>
+                          {band && (
+                            <Text style={styles.rubricBandText}>
+                              {band.label}: {band.description}
+                              {band.example ? <Text style={styles.rubricExample}>{`\nExample: ${band.example}`}</Text> : null}
+                            </Text>
+                          )}
                         </View>
                         <View style={styles.pointsRow}>
                           {options.map((value) => (
@@ -584,6 +848,15 @@ function AdminReviewScreen() {
                       ))}
                     </View>
                   </View>
+                  {(() => {
+                    const band = findRubricBand(rubricByDimension.get('engagementScore'), engagementScore);
+                    return band ? (
+                      <Text style={styles.rubricBandText}>
+                        {band.label}: {band.description}
+                        {band.example ? <Text style={styles.rubricExample}>{`\nExample: ${band.example}`}</Text> : null}
+                      </Text>
+                    ) : null;
+                  })()}
                 </View>
 
                 <View style={styles.totalScoreBox}>
@@ -605,8 +878,46 @@ function AdminReviewScreen() {
                   />
                 </View>
 
+                {editChecklist.length > 0 && (
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.inputLabel}>Needs Edits Checklist</Text>
+                    <Text style={styles.ratingSectionSubtitle}>Ticked items are sent to the ambassador with Needs Edits</Text>
+                    <View style={styles.reviewTags}>
+                      {editChecklist.map((item) => {
+                        const isChecked = checklistIds.includes(item.id);
+                        return (
+                          <PressableScale
+                            key={item.id}
+                            style={[styles.reviewerChip, isChecked && styles.reviewerChipActive]}
+                            onPress={() => toggleChecklistItem(item.id)}
+                            hapticType="selection"
+                          >
+                            <Text style={[styles.reviewerChipText, isChecked && styles.reviewerChipTextActive]}>
+                              {isChecked ? '✓ ' : ''}{item.label}
+                            </Text>
+                          </PressableScale>
+                        );
+                      })}
+                    </View>
+                  </View>
+                )}
+
                 <View style={styles.inputGroup}>
                   <Text style={styles.inputLabel}>Feedback for Ambassador</Text>
+                  {snippets.length > 0 && (
+                    <View style={styles.reviewTags}>
+                      {snippets.map((snippet) => (
+                        <PressableScale
+                          key={snippet.id}
+                          style={styles.reviewerChip}
+                          onPress={() => appendSnippet(snippet.text)}
+                          hapticType="selection"
+                        >
+                          <Text style={styles.reviewerChipText}>+ {snippet.title}</Text>
+                        </PressableScale>
+                      ))}
+                    </View>
+                  )}
                   <TextInput
                     style={[styles.input, styles.textArea]}
                     value={feedback}
@@ -618,6 +929,18 @@ function AdminReviewScreen() {
                   />
                 </View>
 
+                {!selectedSubmission.secondReviewReason && (
+                  <PressableScale
+                    style={[styles.reviewerChip, styles.secondReviewToggle, requestSecondReview && styles.reviewerChipActive]}
+                    onPress={() => setRequestSecondReview(prev => !prev)}
+                    hapticType="selection"
+                  >
+                    <Text style={[styles.reviewerChipText, requestSecondReview && styles.reviewerChipTextActive]}>
+                      {requestSecondReview ? '✓ ' : ''}Ask for a second review if approved
+                    </Text>
+                  </PressableScale>
+                )}
+
                 <View style={styles.actionButtons}>
                   <PressableScale
                     style={[styles.actionBtn, styles.rejectBtn]}
@@ -645,14 +968,16 @@ function AdminReviewScreen() {
                   </PressableScale>
                 </View>
 
-                <PressableScale
-                  style={styles.resetSubmissionBtn}
-                  onPress={() => handleDeleteSubmission(selectedSubmission)}
-                  hapticType="light"
-                >
-                  <RotateCcw size={16} color={Colors.dark.textMuted} />
-                  <Text style={styles.resetSubmissionText}>Delete & Allow Resubmission</Text>
-                </PressableScale>
+                {isAdminReviewer && (
+                  <PressableScale
+                    style={styles.resetSubmissionBtn}
+                    onPress={() => handleDeleteSubmission(selectedSubmission)}
+                    hapticType="light"
+                  >
+                    <RotateCcw size={16} color={Colors.dark.textMuted} />
+                    <Text style={styles.resetSubmissionText}>Delete & Allow Resubmission</Text>
+                  </PressableScale>
+                )}
 
                 <View style={styles.modalBottomPadding} />
               </>
@@ -695,6 +1020,17 @@ function UserSubmissionsScreen() {
     setIsDetailModalVisible(true);
   }, []);
 
+  // Review notifications link here with ?submissionId= so the submission opens directly.
+  const { submissionId } = useLocalSearchParams<{ submissionId?: string }>();
+  const [openedSubmissionId, setOpenedSubmissionId] = useState<string | null>(null);
+  useEffect(() => {
+    if (!submissionId || submissionId === openedSubmissionId) return;
+    const linked = userSubmissions.find((submission) => submission.id === submissionId);
+    if (!linked) return;
+    setOpenedSubmissionId(submissionId);
+    openDetailModal(linked);
+  }, [submissionId, openedSubmissionId, userSubmissions, openDetailModal]);
+
   const openPostUrl = useCallback((url: string) => {
     Linking.openURL(url).catch(() => {
       Alert.alert('Error', 'Could not open link');
@@ -913,6 +1249,9 @@ function UserSubmissionsScreen() {
                       <Text style={styles.actionNeededText}>
                         Please review the feedback above and resubmit your content with the requested changes.
                       </Text>
+                      {selectedSubmission.editChecklist?.map((item) => (
+                        <Text key={item.id} style={styles.actionNeededItem}>• {item.label}</Text>
+                      ))}
                     </View>
                   </View>
                 )}
@@ -1012,9 +1351,11 @@ function UserSubmissionsScreen() {
 }
 
 export default function SubmissionsScreen() {
-  const { isAdmin } = useAuth();
+  const { currentUser, isAdmin } = useAuth();
+  const { view } = useLocalSearchParams<{ view?: string }>();
 
-  if (isAdmin) {
+  // Regional leads open the review queue from the regional dashboard; otherwise they see their own submissions.
+  if (isAdmin || (currentUser?.role === 'regional_lead' && view === 'review')) {
     return <AdminReviewScreen />;
   }
 
@@ -1283,6 +1624,87 @@ const styles = StyleSheet.create({
     color: Colors.dark.textSecondary,
     lineHeight: 18,
   },
+  reviewTags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 8,
+  },
+  reviewTag: {
+    fontSize: 12,
+    color: Colors.dark.primary,
+    backgroundColor: Colors.dark.primary + '15',
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  reviewTagWarning: {
+    color: Colors.dark.warning,
+    backgroundColor: Colors.dark.warning + '15',
+  },
+  reviewTagPassed: {
+    color: Colors.dark.success,
+    backgroundColor: Colors.dark.success + '15',
+  },
+  reviewTagFailed: {
+    color: Colors.dark.error,
+    backgroundColor: Colors.dark.error + '15',
+  },
+  precheckHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  reviewerChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+  },
+  reviewerChipActive: {
+    backgroundColor: Colors.dark.primary + '20',
+    borderColor: Colors.dark.primary,
+  },
+  reviewerChipText: {
+    fontSize: 13,
+    color: Colors.dark.textMuted,
+  },
+  reviewerChipTextActive: {
+    color: Colors.dark.primary,
+    fontWeight: '600' as const,
+  },
+  secondReviewToggle: {
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
+  historyEntry: {
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    borderRadius: 10,
+    marginBottom: 6,
+  },
+  historyText: {
+    fontSize: 12,
+    color: Colors.dark.textSecondary,
+  },
+  historyFeedback: {
+    fontSize: 12,
+    color: Colors.dark.textMuted,
+    marginTop: 4,
+  },
+  rubricBandText: {
+    fontSize: 12,
+    color: Colors.dark.textSecondary,
+    marginTop: 4,
+    lineHeight: 17,
+  },
+  rubricExample: {
+    fontStyle: 'italic' as const,
+    color: Colors.dark.textMuted,
+  },
   ratingSection: {
     marginBottom: 24,
   },
@@ -1587,6 +2009,12 @@ const styles = StyleSheet.create({
     color: Colors.dark.textSecondary,
     lineHeight: 18,
   },
+  actionNeededItem: {
+    fontSize: 13,
+    color: Colors.dark.text,
+    lineHeight: 18,
+    marginTop: 4,
+  },
   notesSection: {
     marginBottom: 24,
   },
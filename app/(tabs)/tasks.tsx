@@ -3,17 +3,20 @@ import { View, Text, StyleSheet, ScrollView, RefreshControl, Modal, TextInput, A
 import Image from '@/components/StableImage';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
-import { Zap, Clock, Users, ListTodo, Plus, Trash2, Edit3, X, Check, CheckCircle2 } from 'lucide-react-native';
+import { Zap, Clock, Users, ListTodo, Plus, Trash2, Edit3, X, Check, CheckCircle2, Copy } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import Colors from '@/constants/colors';
 import Typography from '@/constants/typography';
 
 import { useApp } from '@/contexts/AppContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
 import PlatformBadge from '@/components/PlatformBadge';
 import PressableScale from '@/components/PressableScale';
 import EmptyState from '@/components/EmptyState';
-import { Platform as PlatformType, Task } from '@/types';
+import { Platform as PlatformType, Task, TaskAudienceRole, TaskTemplate, TaskTemplateFields } from '@/types';
+import { regions } from '@/mocks/data';
+import { TASK_AUDIENCE_ROLES, describeTaskAudience, normalizeTaskAudience } from '@/lib/task-audience';
 import ImagePicker from '@/components/ImagePicker';
 import AppButton from '@/components/AppButton';
 
@@ -24,6 +27,10 @@ const PLATFORM_OPTIONS: PlatformType[] = ['twitter', 'instagram', 'tiktok', 'you
 const INLINE_IMAGE_LIMIT_BYTES = 225_000;
 const TASK_IMAGE_FALLBACK = 'https://images.unsplash.com/photo-1540575467063-178a50c2df87?w=400&h=300&fit=crop';
 const ONE_HOUR_MS = 60 * 60 * 1000;
+const AUDIENCE_ROLE_LABELS: Record<TaskAudienceRole, string> = {
+  ambassador: 'Ambassadors',
+  regional_lead: 'Regional Leads',
+};
 
 function taskDeadlineTimestamp(task: Task): number {
   const deadline = task.deadline?.trim();
@@ -41,6 +48,22 @@ function getDeadlineUrgency(deadline: string): 'normal' | 'warn' | 'critical' {
   return 'normal';
 }
 
+// Publish times are entered as local "YYYY-MM-DD HH:mm" and stored as ISO.
+function formatPublishAtInput(publishAt?: string): string {
+  if (!publishAt) return '';
+  const date = new Date(publishAt);
+  if (Number.isNaN(date.getTime())) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function parsePublishAtInput(value: string): string | null | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  const date = new Date(trimmed.replace(' ', 'T'));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
 function estimateDataUriBytes(value: string): number | null {
   if (!value.startsWith('data:')) return null;
   const base64 = value.split(',')[1] || '';
@@ -58,7 +81,18 @@ export default function TasksScreen() {
   const router = useRouter();
   const { isAdmin } = useAuth();
   const { tasks, isRefreshing, refreshData, addTask, updateTask, deleteTask, hasUserSubmittedTask } = useApp();
-  const { currentUser } = useAuth();
+  const { currentUser, users } = useAuth();
+  const campaignsQuery = trpc.campaigns.list.useQuery(undefined, { enabled: isAdmin });
+  const campaigns = useMemo(() => campaignsQuery.data || [], [campaignsQuery.data]);
+  const templatesQuery = trpc.tasks.templates.useQuery(undefined, { enabled: isAdmin });
+  const templates = useMemo(() => templatesQuery.data || [], [templatesQuery.data]);
+  const saveTemplateMutation = trpc.tasks.saveTemplate.useMutation({
+    onSuccess: (template) => {
+      void templatesQuery.refetch();
+      Alert.alert('Template saved', `"${template.name}" can now be used for new tasks.`);
+    },
+    onError: (error) => Alert.alert('Error', error.message || 'Failed to save template'),
+  });
   const [activeFilter] = useState<FilterType>('all');
   const [isModalVisible, setIsModalVisible] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
@@ -70,6 +104,7 @@ export default function TasksScreen() {
     title: '',
     brief: '',
     thumbnail: '',
+    campaignId: '',
     campaignTitle: '',
     platforms: [] as PlatformType[],
     hashtags: '',
@@ -78,6 +113,13 @@ export default function TasksScreen() {
     donts: '',
     deadline: '',
     points: '',
+    maxSubmissions: '',
+    maxSubmissionsPerUser: '',
+    deadlineGraceMinutes: '',
+    publishAt: '',
+    audienceRegions: [] as string[],
+    audienceRoles: [] as TaskAudienceRole[],
+    audienceUsers: '',
   });
 
   
@@ -132,6 +174,7 @@ export default function TasksScreen() {
       title: '',
       brief: '',
       thumbnail: '',
+      campaignId: '',
       campaignTitle: '',
       platforms: [],
       hashtags: '',
@@ -140,6 +183,13 @@ export default function TasksScreen() {
       donts: '',
       deadline: '',
       points: '',
+      maxSubmissions: '',
+      maxSubmissionsPerUser: '',
+      deadlineGraceMinutes: '',
+      publishAt: '',
+      audienceRegions: [],
+      audienceRoles: [],
+      audienceUsers: '',
     });
     setImageInputMode('upload');
     setUploadImageSizeBytes(null);
@@ -151,27 +201,55 @@ export default function TasksScreen() {
     setIsModalVisible(true);
   }, [resetForm]);
 
-  const openEditModal = useCallback((task: Task) => {
+  const fillForm = useCallback((task: TaskTemplateFields & Partial<Pick<Task, 'campaignTitle' | 'deadline' | 'publishAt'>>) => {
     const initialImage = task.thumbnail || '';
     const initialBytes = initialImage ? estimateDataUriBytes(initialImage) : null;
     setImageInputMode(initialImage && !initialImage.startsWith('data:') ? 'url' : 'upload');
     setUploadImageSizeBytes(initialBytes);
-    setEditingTask(task);
     setFormData({
       title: task.title,
       brief: task.brief,
       thumbnail: task.thumbnail || '',
-      campaignTitle: task.campaignTitle,
+      campaignId: task.campaignId || '',
+      campaignTitle: task.campaignTitle || '',
       platforms: task.platforms,
       hashtags: task.hashtags.join(', '),
       mentions: task.mentions.join(', '),
       dos: task.dos.join('\n'),
       donts: task.donts.join('\n'),
-      deadline: task.deadline,
+      deadline: task.deadline || '',
       points: task.points.toString(),
+      maxSubmissions: task.maxSubmissions?.toString() || '',
+      maxSubmissionsPerUser: task.maxSubmissionsPerUser?.toString() || '',
+      deadlineGraceMinutes: task.deadlineGraceMinutes?.toString() || '',
+      publishAt: formatPublishAtInput(task.publishAt),
+      audienceRegions: task.audience?.regions || [],
+      audienceRoles: task.audience?.roles || [],
+      audienceUsers: (task.audience?.userIds || [])
+        .map((userId) => {
+          const user = users.find((candidate) => candidate.id === userId);
+          return user?.username || user?.email || userId;
+        })
+        .join(', '),
     });
+  }, [users]);
+
+  const openEditModal = useCallback((task: Task) => {
+    setEditingTask(task);
+    fillForm(task);
     setIsModalVisible(true);
-  }, []);
+  }, [fillForm]);
+
+  // A copy starts as a new task with the same brief and settings but no dates.
+  const openDuplicateModal = useCallback((task: Task) => {
+    setEditingTask(null);
+    fillForm({ ...task, title: `${task.title} (copy)`, deadline: undefined, publishAt: undefined });
+    setIsModalVisible(true);
+  }, [fillForm]);
+
+  const applyTemplate = useCallback((template: TaskTemplate) => {
+    fillForm({ ...template, deadline: formData.deadline, publishAt: parsePublishAtInput(formData.publishAt) || undefined });
+  }, [fillForm, formData.deadline, formData.publishAt]);
 
   const togglePlatform = useCallback((platform: PlatformType) => {
     setFormData(prev => ({
@@ -182,29 +260,93 @@ export default function TasksScreen() {
     }));
   }, []);
 
-  const handleSave = useCallback(async () => {
+  const toggleAudienceValue = useCallback(<K extends 'audienceRegions' | 'audienceRoles'>(
+    key: K,
+    value: (typeof formData)[K][number]
+  ) => {
+    setFormData(prev => {
+      const current = prev[key] as string[];
+      return {
+        ...prev,
+        [key]: current.includes(value) ? current.filter(item => item !== value) : [...current, value],
+      };
+    });
+  }, []);
+
+  // The form fields a task shares with a template, or null after alerting about a problem.
+  const readTemplateFields = useCallback((): TaskTemplateFields | null => {
     if (!formData.title.trim() || !formData.brief.trim() || formData.platforms.length === 0) {
       Alert.alert('Error', 'Please fill in title, brief, and select at least one platform');
-      return;
+      return null;
     }
 
-    setIsSubmitting(true);
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    const audienceIdentifiers = formData.audienceUsers.split(',').map(value => value.trim()).filter(Boolean);
+    const audienceUserIds: string[] = [];
+    const unknownIdentifiers: string[] = [];
+    for (const identifier of audienceIdentifiers) {
+      const normalized = identifier.replace(/^@/, '').toLowerCase();
+      const user = users.find((candidate) =>
+        candidate.id === identifier ||
+        candidate.email.toLowerCase() === normalized ||
+        candidate.username?.toLowerCase() === normalized
+      );
+      if (user) {
+        audienceUserIds.push(user.id);
+      } else {
+        unknownIdentifiers.push(identifier);
+      }
+    }
+    if (unknownIdentifiers.length > 0) {
+      Alert.alert('Unknown users', `No account found for: ${unknownIdentifiers.join(', ')}`);
+      return null;
+    }
 
-    const taskData = {
+    return {
       title: formData.title.trim(),
       brief: formData.brief.trim(),
       thumbnail: formData.thumbnail.trim() || undefined,
-      campaignId: 'camp-1',
-      campaignTitle: formData.campaignTitle.trim() || 'General Campaign',
+      campaignId: formData.campaignId,
       platforms: formData.platforms,
       hashtags: formData.hashtags.split(',').map(h => h.trim()).filter(Boolean),
       mentions: formData.mentions.split(',').map(m => m.trim()).filter(Boolean),
       dos: formData.dos.split('\n').map(d => d.trim()).filter(Boolean),
       donts: formData.donts.split('\n').map(d => d.trim()).filter(Boolean),
-      deadline: formData.deadline || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       points: parseInt(formData.points) || 100,
-      status: 'active' as const,
+      maxSubmissions: parseInt(formData.maxSubmissions) || undefined,
+      maxSubmissionsPerUser: parseInt(formData.maxSubmissionsPerUser) || undefined,
+      deadlineGraceMinutes: parseInt(formData.deadlineGraceMinutes) || undefined,
+      audience: normalizeTaskAudience({
+        regions: formData.audienceRegions,
+        roles: formData.audienceRoles,
+        userIds: audienceUserIds,
+      }),
+    };
+  }, [formData, users]);
+
+  const handleSave = useCallback(async () => {
+    const fields = readTemplateFields();
+    if (!fields) return;
+
+    const publishAt = parsePublishAtInput(formData.publishAt);
+    if (publishAt === null) {
+      Alert.alert('Error', 'Publish time must look like 2025-06-30 09:00');
+      return;
+    }
+    const isScheduled = Boolean(publishAt && Date.parse(publishAt) > Date.now());
+
+    setIsSubmitting(true);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    const taskData = {
+      ...fields,
+      campaignId: fields.campaignId || '',
+      campaignTitle:
+        campaigns.find(campaign => campaign.id === formData.campaignId)?.title ||
+        formData.campaignTitle.trim() ||
+        'General Campaign',
+      deadline: formData.deadline || new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      status: isScheduled ? 'upcoming' as const : 'active' as const,
+      publishAt,
       submissions: editingTask?.submissions || 0,
     };
 
@@ -226,7 +368,14 @@ export default function TasksScreen() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       Alert.alert('Error', result.error || 'Failed to save task');
     }
-  }, [formData, editingTask, addTask, updateTask, resetForm]);
+  }, [formData, editingTask, addTask, updateTask, resetForm, campaigns, readTemplateFields]);
+
+  const handleSaveTemplate = useCallback(() => {
+    const fields = readTemplateFields();
+    if (!fields) return;
+    const existing = templates.find(template => template.name.toLowerCase() === fields.title.toLowerCase());
+    saveTemplateMutation.mutate({ ...fields, id: existing?.id, name: fields.title });
+  }, [readTemplateFields, templates, saveTemplateMutation]);
 
   const handleDelete = useCallback((task: Task) => {
     Alert.alert(
@@ -368,6 +517,13 @@ export default function TasksScreen() {
                           >
                             <Edit3 size={16} color={Colors.dark.primary} />
                           </PressableScale>
+                          <PressableScale
+                            style={styles.adminBtn}
+                            onPress={() => openDuplicateModal(task)}
+                            hapticType="light"
+                          >
+                            <Copy size={16} color={Colors.dark.primary} />
+                          </PressableScale>
                           <PressableScale
                             style={styles.adminBtn}
                             onPress={() => handleDelete(task)}
@@ -382,6 +538,14 @@ export default function TasksScreen() {
 
                   <Text style={styles.taskTitle}>{task.title}</Text>
                   <Text style={styles.taskCampaign}>{task.campaignTitle}</Text>
+                  {isAdmin && task.status === 'upcoming' && task.publishAt && (
+                    <Text style={styles.taskAudience}>
+                      Publishes {new Date(task.publishAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                    </Text>
+                  )}
+                  {isAdmin && describeTaskAudience(task) && (
+                    <Text style={styles.taskAudience}>For: {describeTaskAudience(task)}</Text>
+                  )}
                   <Text style={styles.taskBrief} numberOfLines={2}>{task.brief}</Text>
 
                 <View style={styles.taskMeta}>
@@ -458,6 +622,24 @@ export default function TasksScreen() {
           </View>
 
           <ScrollView style={styles.modalContent} showsVerticalScrollIndicator={false}>
+            {!editingTask && templates.length > 0 && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Start from template</Text>
+                <View style={styles.platformsRow}>
+                  {templates.map((template) => (
+                    <PressableScale
+                      key={template.id}
+                      style={styles.optionChip}
+                      onPress={() => applyTemplate(template)}
+                      hapticType="selection"
+                    >
+                      <Text style={styles.optionChipText}>{template.name}</Text>
+                    </PressableScale>
+                  ))}
+                </View>
+              </View>
+            )}
+
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Title *</Text>
               <TextInput
@@ -484,13 +666,31 @@ export default function TasksScreen() {
 
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Campaign</Text>
-              <TextInput
-                style={styles.input}
-                value={formData.campaignTitle}
-                onChangeText={(text) => setFormData(prev => ({ ...prev, campaignTitle: text }))}
-                placeholder="Campaign name"
-                placeholderTextColor={Colors.dark.textMuted}
-              />
+              {campaigns.length > 0 ? (
+                <View style={styles.platformsRow}>
+                  {[{ id: '', title: 'No campaign' }, ...campaigns].map((campaign) => {
+                    const active = formData.campaignId === campaign.id;
+                    return (
+                      <PressableScale
+                        key={campaign.id || 'none'}
+                        style={[styles.optionChip, active && styles.platformOptionActive]}
+                        onPress={() => setFormData(prev => ({ ...prev, campaignId: campaign.id, campaignTitle: '' }))}
+                        hapticType="selection"
+                      >
+                        <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{campaign.title}</Text>
+                      </PressableScale>
+                    );
+                  })}
+                </View>
+              ) : (
+                <TextInput
+                  style={styles.input}
+                  value={formData.campaignTitle}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, campaignTitle: text }))}
+                  placeholder="Campaign name"
+                  placeholderTextColor={Colors.dark.textMuted}
+                />
+              )}
             </View>
 
             <View style={styles.inputGroup}>
@@ -562,6 +762,55 @@ export default function TasksScreen() {
               </View>
             </View>
 
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Audience</Text>
+              <Text style={styles.fieldHint}>Leave everything empty to show the task to every ambassador.</Text>
+              <Text style={styles.audienceSubLabel}>Regions</Text>
+              <View style={styles.platformsRow}>
+                {regions.map((region) => {
+                  const active = formData.audienceRegions.includes(region);
+                  return (
+                    <PressableScale
+                      key={region}
+                      style={[styles.optionChip, active && styles.platformOptionActive]}
+                      onPress={() => toggleAudienceValue('audienceRegions', region)}
+                      hapticType="selection"
+                    >
+                      <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>{region}</Text>
+                    </PressableScale>
+                  );
+                })}
+              </View>
+              <Text style={styles.audienceSubLabel}>Roles</Text>
+              <View style={styles.platformsRow}>
+                {TASK_AUDIENCE_ROLES.map((role) => {
+                  const active = formData.audienceRoles.includes(role);
+                  return (
+                    <PressableScale
+                      key={role}
+                      style={[styles.optionChip, active && styles.platformOptionActive]}
+                      onPress={() => toggleAudienceValue('audienceRoles', role)}
+                      hapticType="selection"
+                    >
+                      <Text style={[styles.optionChipText, active && styles.optionChipTextActive]}>
+                        {AUDIENCE_ROLE_LABELS[role]}
+                      </Text>
+                    </PressableScale>
+                  );
+                })}
+              </View>
+              <Text style={styles.audienceSubLabel}>Also include (usernames or emails, comma separated)</Text>
+              <TextInput
+                style={styles.input}
+                value={formData.audienceUsers}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, audienceUsers: text }))}
+                placeholder="alice, bob@example.com"
+                placeholderTextColor={Colors.dark.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
             <View style={styles.row}>
               <View style={[styles.inputGroup, { flex: 1 }]}>
                 <Text style={styles.inputLabel}>Points</Text>
@@ -586,6 +835,56 @@ export default function TasksScreen() {
               </View>
             </View>
 
+            <View style={styles.row}>
+              <View style={[styles.inputGroup, { flex: 1 }]}>
+                <Text style={styles.inputLabel}>Max submissions</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.maxSubmissions}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, maxSubmissions: text }))}
+                  placeholder="No limit"
+                  placeholderTextColor={Colors.dark.textMuted}
+                  keyboardType="number-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, { flex: 1, marginLeft: 12 }]}>
+                <Text style={styles.inputLabel}>Per ambassador</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.maxSubmissionsPerUser}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, maxSubmissionsPerUser: text }))}
+                  placeholder="1"
+                  placeholderTextColor={Colors.dark.textMuted}
+                  keyboardType="number-pad"
+                />
+              </View>
+              <View style={[styles.inputGroup, { flex: 1, marginLeft: 12 }]}>
+                <Text style={styles.inputLabel}>Grace (min)</Text>
+                <TextInput
+                  style={styles.input}
+                  value={formData.deadlineGraceMinutes}
+                  onChangeText={(text) => setFormData(prev => ({ ...prev, deadlineGraceMinutes: text }))}
+                  placeholder="0"
+                  placeholderTextColor={Colors.dark.textMuted}
+                  keyboardType="number-pad"
+                />
+              </View>
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Publish at (optional)</Text>
+              <Text style={styles.fieldHint}>
+                Scheduled tasks stay hidden from ambassadors and go live at this local time. Tasks complete on their own once the deadline passes.
+              </Text>
+              <TextInput
+                style={styles.input}
+                value={formData.publishAt}
+                onChangeText={(text) => setFormData(prev => ({ ...prev, publishAt: text }))}
+                placeholder="YYYY-MM-DD HH:mm"
+                placeholderTextColor={Colors.dark.textMuted}
+              />
+            </View>
+
             <View style={styles.inputGroup}>
               <Text style={styles.inputLabel}>Hashtags (comma separated)</Text>
               <TextInput
@@ -634,6 +933,13 @@ export default function TasksScreen() {
               />
             </View>
 
+            <AppButton
+              label={saveTemplateMutation.isPending ? 'Saving template...' : 'Save as template'}
+              variant="secondary"
+              size="sm"
+              onPress={handleSaveTemplate}
+              disabled={saveTemplateMutation.isPending}
+            />
             <View style={styles.modalBottomPadding} />
           </ScrollView>
         </View>
@@ -844,6 +1150,12 @@ const styles = StyleSheet.create({
     color: Colors.dark.primary,
     marginBottom: 8,
   },
+  taskAudience: {
+    fontSize: 12,
+    color: Colors.dark.textSecondary,
+    marginTop: -4,
+    marginBottom: 8,
+  },
   taskBrief: {
     fontSize: 14,
     color: Colors.dark.textSecondary,
@@ -1033,6 +1345,34 @@ const styles = StyleSheet.create({
     borderColor: Colors.dark.primary,
     backgroundColor: Colors.dark.primary + '20',
   },
+  fieldHint: {
+    fontSize: 12,
+    color: Colors.dark.textMuted,
+    marginBottom: 10,
+  },
+  audienceSubLabel: {
+    fontSize: 12,
+    fontWeight: '600' as const,
+    color: Colors.dark.textSecondary,
+    marginTop: 6,
+    marginBottom: 8,
+  },
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+  },
+  optionChipText: {
+    fontSize: 13,
+    color: Colors.dark.textMuted,
+  },
+  optionChipTextActive: {
+    color: Colors.dark.primary,
+    fontWeight: '600' as const,
+  },
   modalBottomPadding: {
     height: 40,
   },
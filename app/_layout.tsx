@@ -9,6 +9,7 @@ import { AppProvider } from "@/contexts/AppContext";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { trpc, trpcReactClient } from "@/lib/trpc";
+import { subscribeToPushLinks } from "@/lib/push-notifications";
 
 function RootLayoutNav() {
   const { isAuthenticated, isLoading, currentUser, requiresSocialSetup } = useAuth();
@@ -34,6 +35,11 @@ function RootLayoutNav() {
     }
   }, [isAuthenticated, isLoading, segments, router, requiresSocialSetup, currentUser?.role]);
 
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return subscribeToPushLinks((link) => router.push(link as any));
+  }, [isAuthenticated, router]);
+
   if (isLoading) {
     return (
       <View style={styles.loadingContainer}>
@@ -21,6 +21,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { trpc, trpcClient } from '@/lib/trpc';
 import AppBackButton from '@/components/AppBackButton';
 import PressableScale from '@/components/PressableScale';
+import type { ReviewerThroughput } from '@/lib/submission-review';
 
 type AnalyticsCampaign = {
   campaignId: string;
@@ -82,6 +83,7 @@ type AnalyticsResponse = {
     taskCompletionRate: number;
   };
   campaigns: AnalyticsCampaign[];
+  reviewers?: ReviewerThroughput[];
 };
 
 export default function AdminAnalyticsScreen() {
@@ -98,7 +100,6 @@ export default function AdminAnalyticsScreen() {
     enabled: Boolean(isAdmin && currentUser?.id),
     queryFn: async () => {
       return trpcClient.admin.analytics.query({
-        adminUserId: currentUser!.id,
         seasonId: selectedSeasonId,
       }) as Promise<AnalyticsResponse>;
     },
@@ -137,6 +138,7 @@ export default function AdminAnalyticsScreen() {
   const extraContent = data.extraContent;
   const speed = data.speed;
   const campaigns = data.campaigns.slice(0, 10);
+  const reviewers = data.reviewers || [];
 
   const toggleCampaign = (campaignId: string) => {
     setExpandedCampaignIds((prev) =>
@@ -298,6 +300,23 @@ export default function AdminAnalyticsScreen() {
             <MetricTile label="Avg time to submission" value={formatHours(speed.averageTimeToSubmissionHours)} />
             <MetricTile label="Task completion rate" value={formatPercent(speed.taskCompletionRate)} />
           </View>
+          {reviewers.length > 0 && (
+            <View style={styles.listBlock}>
+              <Text style={styles.listTitle}>Reviewer throughput</Text>
+              <View style={styles.listGrid}>
+                {reviewers.map((reviewer) => (
+                  <View style={styles.listRow} key={reviewer.reviewerId}>
+                    <Text style={styles.listKey} numberOfLines={1}>
+                      {reviewer.name}{reviewer.role === 'regional_lead' ? ' (lead)' : ''}
+                    </Text>
+                    <Text style={styles.listValue}>
+                      {formatInteger(reviewer.reviews)} reviews • {formatHours(reviewer.averageTurnaroundHours)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            </View>
+          )}
         </View>
 
         <View style={styles.sectionCard}>
@@ -9,6 +9,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useApp } from '@/contexts/AppContext';
 import PressableScale from '@/components/PressableScale';
 import AppBackButton from '@/components/AppBackButton';
+import { buildReviewerThroughput } from '@/lib/submission-review';
 
 type WindowKey = '7d' | '30d' | '90d' | 'all';
 
@@ -134,6 +135,18 @@ export default function AdminRegionalAnalyticsScreen() {
   const hasCustomRange = Boolean(customStartDate && customEndDate && customStartDate <= customEndDate);
   const startDate = hasCustomRange ? customStartDate : presetStartDate;
   const endDate = hasCustomRange ? customEndDate : null;
+  const isInDateRange = (dateValue: string) => {
+    if (!startDate) return true;
+    const date = new Date(dateValue);
+    if (Number.isNaN(date.getTime())) return false;
+    if (date < startDate) return false;
+    if (endDate) {
+      const endOfDay = new Date(endDate);
+      endOfDay.setHours(23, 59, 59, 999);
+      if (date > endOfDay) return false;
+    }
+    return true;
+  };
 
   const approvedSubmissions = submissions.filter((submission) => {
     if (submission.status !== 'approved') return false;
@@ -141,32 +154,22 @@ export default function AdminRegionalAnalyticsScreen() {
     const region = regionByUserId.get(submission.userId) || 'Unknown';
     if (selectedRegion !== 'All Regions' && region !== selectedRegion) return false;
 
-    if (!startDate) return true;
-    const submittedAt = new Date(submission.submittedAt);
-    if (Number.isNaN(submittedAt.getTime())) return false;
-    if (submittedAt < startDate) return false;
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setHours(23, 59, 59, 999);
-      if (submittedAt > endOfDay) return false;
-    }
-    return true;
+    return isInDateRange(submission.submittedAt);
   });
   const filteredExtraContent = extraContent.filter((item) => {
     const region = regionByUserId.get(item.userId) || 'Unknown';
     if (selectedRegion !== 'All Regions' && region !== selectedRegion) return false;
 
-    if (!startDate) return true;
-    const submittedAt = new Date(item.submittedAt);
-    if (Number.isNaN(submittedAt.getTime())) return false;
-    if (submittedAt < startDate) return false;
-    if (endDate) {
-      const endOfDay = new Date(endDate);
-      endOfDay.setHours(23, 59, 59, 999);
-      if (submittedAt > endOfDay) return false;
-    }
-    return true;
+    return isInDateRange(item.submittedAt);
   });
+  const reviewerThroughput = buildReviewerThroughput(
+    submissions.filter((submission) => {
+      const region = regionByUserId.get(submission.userId) || 'Unknown';
+      if (selectedRegion !== 'All Regions' && region !== selectedRegion) return false;
+      return isInDateRange(submission.submittedAt);
+    }),
+    users
+  ).slice(0, 8);
 
   const totals = approvedSubmissions.reduce(
     (acc, submission) => {
@@ -241,6 +244,14 @@ export default function AdminRegionalAnalyticsScreen() {
       <ScrollView contentContainerStyle={styles.content}>
         <AppBackButton onPress={() => router.back()} />
         <Text style={styles.title}>Regional Performance Dashboard</Text>
+        {currentUser?.role === 'regional_lead' && (
+          <PressableScale
+            style={styles.queueButton}
+            onPress={() => router.push('/(tabs)/submissions?view=review' as any)}
+          >
+            <Text style={styles.queueButtonText}>Review {currentUser.region} submissions</Text>
+          </PressableScale>
+        )}
 
         <View style={styles.windowRow}>
           {WINDOWS.map((windowItem) => {
@@ -349,6 +360,37 @@ export default function AdminRegionalAnalyticsScreen() {
           )}
         </View>
 
+        <View style={styles.panel}>
+          <View style={styles.panelHeader}>
+            <Text style={styles.panelTitle}>Review Throughput</Text>
+            <Text style={styles.panelMeta}>Decisions on submissions in this view</Text>
+          </View>
+          {reviewerThroughput.length === 0 ? (
+            <Text style={styles.emptyText}>No reviews yet for this view.</Text>
+          ) : (
+            <View style={styles.tableWrap}>
+              <View style={styles.tableHeader}>
+                <Text style={[styles.tableHeadText, styles.nameCol]}>Reviewer</Text>
+                <Text style={styles.tableHeadText}>Reviews</Text>
+                <Text style={styles.tableHeadText}>Appr.</Text>
+                <Text style={styles.tableHeadText}>Edits</Text>
+                <Text style={styles.tableHeadText}>Avg</Text>
+              </View>
+              {reviewerThroughput.map((reviewer) => (
+                <View key={reviewer.reviewerId} style={styles.tableRow}>
+                  <Text style={[styles.tableCellText, styles.nameCol]} numberOfLines={1}>
+                    {reviewer.name}{reviewer.role === 'regional_lead' ? ' (lead)' : ''}
+                  </Text>
+                  <Text style={styles.tableCellText}>{reviewer.reviews}</Text>
+                  <Text style={styles.tableCellText}>{reviewer.approved}</Text>
+                  <Text style={styles.tableCellText}>{reviewer.needsEdits}</Text>
+                  <Text style={styles.tableCellText}>{reviewer.averageTurnaroundHours.toFixed(1)}h</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
       </ScrollView>
     </SafeAreaView>
   );
@@ -410,6 +452,18 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '500',
   },
+  queueButton: {
+    alignSelf: 'flex-start',
+    borderRadius: 10,
+    backgroundColor: Colors.dark.primary,
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+  },
+  queueButtonText: {
+    color: Colors.dark.background,
+    fontSize: 13,
+    fontWeight: '700',
+  },
   dateHint: {
     color: Colors.dark.textMuted,
     fontSize: 12,
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import PressableScale from '@/components/PressableScale';
+import AppBackButton from '@/components/AppBackButton';
+import type { AuditTargetType } from '@/types';
+
+const TARGET_FILTERS: { id: AuditTargetType | 'all'; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'user', label: 'Users' },
+  { id: 'submission', label: 'Reviews' },
+  { id: 'task', label: 'Tasks' },
+  { id: 'asset', label: 'Assets' },
+  { id: 'news', label: 'News' },
+  { id: 'poll', label: 'Polls' },
+  { id: 'season', label: 'Season' },
+  { id: 'telegram_route', label: 'Telegram' },
+  { id: 'campaign', label: 'Campaigns' },
+  { id: 'task_template', label: 'Templates' },
+  { id: 'feedback_snippet', label: 'Snippets' },
+  { id: 'review_rubric', label: 'Rubric' },
+];
+
+const MAX_VISIBLE_CHANGES = 6;
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+export default function AdminAuditScreen() {
+  const router = useRouter();
+  const { currentUser, isAdmin, users } = useAuth();
+  const [targetFilter, setTargetFilter] = useState<AuditTargetType | 'all'>('all');
+  const [actorFilter, setActorFilter] = useState<string | null>(null);
+
+  const auditQuery = trpc.admin.auditLog.useQuery(
+    {
+      targetType: targetFilter === 'all' ? undefined : targetFilter,
+      actorId: actorFilter || undefined,
+      limit: 200,
+    },
+    { enabled: Boolean(isAdmin && currentUser?.id) }
+  );
+
+  const admins = useMemo(() => users.filter((user) => user.role === 'admin'), [users]);
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const entries = auditQuery.data || [];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title}>Audit Log</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Filters</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {TARGET_FILTERS.map((filter) => {
+              const active = filter.id === targetFilter;
+              return (
+                <PressableScale
+                  key={filter.id}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setTargetFilter(filter.id)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{filter.label}</Text>
+                </PressableScale>
+              );
+            })}
+          </ScrollView>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={[styles.chipRow, styles.chipRowSpaced]}>
+            <PressableScale
+              style={[styles.chip, !actorFilter && styles.chipActive]}
+              onPress={() => setActorFilter(null)}
+            >
+              <Text style={[styles.chipText, !actorFilter && styles.chipTextActive]}>Any admin</Text>
+            </PressableScale>
+            {admins.map((admin) => {
+              const active = admin.id === actorFilter;
+              return (
+                <PressableScale
+                  key={admin.id}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setActorFilter(admin.id)}
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{admin.name}</Text>
+                </PressableScale>
+              );
+            })}
+          </ScrollView>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Entries</Text>
+          {auditQuery.isLoading ? (
+            <ActivityIndicator color={Colors.dark.primary} />
+          ) : auditQuery.error ? (
+            <Text style={styles.error}>Unable to load audit log.</Text>
+          ) : entries.length === 0 ? (
+            <Text style={styles.line}>No entries for this filter.</Text>
+          ) : (
+            entries.map((entry) => (
+              <View key={entry.id} style={styles.logRow}>
+                <Text style={styles.logAction}>{entry.action.toUpperCase()}</Text>
+                <Text style={styles.logMeta}>{entry.actorName} • {new Date(entry.createdAt).toLocaleString()}</Text>
+                <Text style={styles.logTarget}>{entry.targetLabel || entry.targetId}</Text>
+                {entry.changes.slice(0, MAX_VISIBLE_CHANGES).map((change) => (
+                  <Text key={change.field} style={styles.logChange} numberOfLines={2}>
+                    {change.field}: {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                  </Text>
+                ))}
+                {entry.changes.length > MAX_VISIBLE_CHANGES && (
+                  <Text style={styles.logMeta}>+{entry.changes.length - MAX_VISIBLE_CHANGES} more fields</Text>
+                )}
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chipRowSpaced: {
+    marginTop: 8,
+  },
+  chip: {
+    borderRadius: 999,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    backgroundColor: Colors.dark.surfaceLight,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  chipActive: {
+    borderColor: Colors.dark.primary,
+    backgroundColor: Colors.dark.primary + '20',
+  },
+  chipText: {
+    color: Colors.dark.textSecondary,
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  chipTextActive: {
+    color: Colors.dark.primary,
+  },
+  logRow: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  logAction: {
+    color: Colors.dark.primary,
+    fontSize: 11,
+    fontWeight: '800',
+    marginBottom: 3,
+  },
+  logMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  logTarget: {
+    color: Colors.dark.text,
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  logChange: {
+    color: Colors.dark.textSecondary,
+    fontSize: 12,
+    marginBottom: 2,
+  },
+});
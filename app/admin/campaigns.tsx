@@ -0,0 +1,481 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import AppBackButton from '@/components/AppBackButton';
+import PressableScale from '@/components/PressableScale';
+import type { Campaign, Platform } from '@/types';
+
+const PLATFORM_OPTIONS: Platform[] = ['twitter', 'instagram', 'tiktok', 'youtube', 'facebook', 'telegram'];
+
+const STATUS_LABELS: Record<Campaign['status'], string> = {
+  upcoming: 'Upcoming',
+  active: 'Active',
+  completed: 'Ended',
+};
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  startDate: '',
+  endDate: '',
+  platforms: [] as Platform[],
+  budget: '',
+  goalSubmissions: '',
+  goalImpressions: '',
+  goalContributors: '',
+};
+
+function parseOptionalNumber(value: string): number | undefined {
+  const parsed = Number(value.replace(/[,\s$]/g, ''));
+  return value.trim() && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+export default function AdminCampaignsScreen() {
+  const router = useRouter();
+  const { currentUser, isAdmin } = useAuth();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const enabled = Boolean(isAdmin && currentUser?.id);
+  const campaignsQuery = trpc.campaigns.list.useQuery({ includeArchived: showArchived }, { enabled });
+  const trpcUtils = trpc.useUtils();
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const onSaved = () => {
+    resetForm();
+    void trpcUtils.campaigns.list.invalidate();
+  };
+  const createCampaign = trpc.campaigns.create.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => Alert.alert('Save failed', error.message || 'Could not create campaign.'),
+  });
+  const updateCampaign = trpc.campaigns.update.useMutation({
+    onSuccess: onSaved,
+    onError: (error) => Alert.alert('Save failed', error.message || 'Could not update campaign.'),
+  });
+  const archiveCampaign = trpc.campaigns.archive.useMutation({
+    onSuccess: () => void trpcUtils.campaigns.list.invalidate(),
+    onError: (error) => Alert.alert('Update failed', error.message || 'Could not archive campaign.'),
+  });
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const campaigns = campaignsQuery.data || [];
+  const isSaving = createCampaign.isPending || updateCampaign.isPending;
+
+  const editCampaign = (campaign: Campaign) => {
+    setEditingId(campaign.id);
+    setForm({
+      title: campaign.title,
+      description: campaign.description,
+      startDate: campaign.startDate,
+      endDate: campaign.endDate,
+      platforms: campaign.platforms,
+      budget: campaign.budget?.toString() || '',
+      goalSubmissions: campaign.goals?.submissions?.toString() || '',
+      goalImpressions: campaign.goals?.impressions?.toString() || '',
+      goalContributors: campaign.goals?.contributors?.toString() || '',
+    });
+  };
+
+  const togglePlatform = (platform: Platform) => {
+    setForm((prev) => ({
+      ...prev,
+      platforms: prev.platforms.includes(platform)
+        ? prev.platforms.filter((item) => item !== platform)
+        : [...prev.platforms, platform],
+    }));
+  };
+
+  const submitCampaign = () => {
+    if (!form.title.trim() || !form.startDate.trim() || !form.endDate.trim()) {
+      Alert.alert('Missing details', 'Add a title, start date and end date.');
+      return;
+    }
+    const payload = {
+      title: form.title.trim(),
+      description: form.description.trim(),
+      startDate: form.startDate.trim(),
+      endDate: form.endDate.trim(),
+      platforms: form.platforms,
+      goals: {
+        submissions: parseOptionalNumber(form.goalSubmissions),
+        impressions: parseOptionalNumber(form.goalImpressions),
+        contributors: parseOptionalNumber(form.goalContributors),
+      },
+    };
+    const budget = parseOptionalNumber(form.budget);
+    if (editingId) {
+      updateCampaign.mutate({ id: editingId, ...payload, budget: budget ?? null });
+    } else {
+      createCampaign.mutate({ ...payload, budget });
+    }
+  };
+
+  const confirmArchive = (campaign: Campaign) => {
+    if (campaign.archivedAt) {
+      archiveCampaign.mutate({ id: campaign.id, archived: false });
+      return;
+    }
+    Alert.alert('Archive campaign', `Hide "${campaign.title}" from campaign lists? Its tasks are kept.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Archive', style: 'destructive', onPress: () => archiveCampaign.mutate({ id: campaign.id, archived: true }) },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={campaignsQuery.isRefetching}
+            onRefresh={() => void campaignsQuery.refetch()}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title}>Campaigns</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{editingId ? 'Edit Campaign' : 'New Campaign'}</Text>
+          <Text style={styles.label}>Title</Text>
+          <TextInput
+            style={styles.input}
+            value={form.title}
+            onChangeText={(title) => setForm((prev) => ({ ...prev, title }))}
+            placeholder="STEPN GO Launch"
+            placeholderTextColor={Colors.dark.textMuted}
+          />
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={form.description}
+            onChangeText={(description) => setForm((prev) => ({ ...prev, description }))}
+            placeholder="What the campaign is about"
+            placeholderTextColor={Colors.dark.textMuted}
+            multiline
+          />
+          <View style={styles.inputRow}>
+            <View style={styles.inputCell}>
+              <Text style={styles.label}>Start</Text>
+              <TextInput
+                style={styles.input}
+                value={form.startDate}
+                onChangeText={(startDate) => setForm((prev) => ({ ...prev, startDate }))}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={Colors.dark.textMuted}
+              />
+            </View>
+            <View style={styles.inputCell}>
+              <Text style={styles.label}>End</Text>
+              <TextInput
+                style={styles.input}
+                value={form.endDate}
+                onChangeText={(endDate) => setForm((prev) => ({ ...prev, endDate }))}
+                placeholder="YYYY-MM-DD"
+                placeholderTextColor={Colors.dark.textMuted}
+              />
+            </View>
+          </View>
+          <Text style={styles.label}>Platforms</Text>
+          <View style={styles.chipWrap}>
+            {PLATFORM_OPTIONS.map((platform) => {
+              const active = form.platforms.includes(platform);
+              return (
+                <PressableScale
+                  key={platform}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => togglePlatform(platform)}
+                  hapticType="selection"
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{platform}</Text>
+                </PressableScale>
+              );
+            })}
+          </View>
+          <Text style={styles.label}>Budget (USD)</Text>
+          <TextInput
+            style={styles.input}
+            value={form.budget}
+            onChangeText={(budget) => setForm((prev) => ({ ...prev, budget }))}
+            placeholder="Optional"
+            placeholderTextColor={Colors.dark.textMuted}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.label}>Goals</Text>
+          <View style={styles.inputRow}>
+            <View style={styles.inputCell}>
+              <TextInput
+                style={styles.input}
+                value={form.goalSubmissions}
+                onChangeText={(goalSubmissions) => setForm((prev) => ({ ...prev, goalSubmissions }))}
+                placeholder="Approved posts"
+                placeholderTextColor={Colors.dark.textMuted}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.inputCell}>
+              <TextInput
+                style={styles.input}
+                value={form.goalImpressions}
+                onChangeText={(goalImpressions) => setForm((prev) => ({ ...prev, goalImpressions }))}
+                placeholder="Impressions"
+                placeholderTextColor={Colors.dark.textMuted}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.inputCell}>
+              <TextInput
+                style={styles.input}
+                value={form.goalContributors}
+                onChangeText={(goalContributors) => setForm((prev) => ({ ...prev, goalContributors }))}
+                placeholder="Contributors"
+                placeholderTextColor={Colors.dark.textMuted}
+                keyboardType="number-pad"
+              />
+            </View>
+          </View>
+          <View style={styles.formActions}>
+            {editingId ? (
+              <PressableScale style={styles.secondaryButton} onPress={resetForm}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </PressableScale>
+            ) : null}
+            <PressableScale style={styles.primaryButton} onPress={submitCampaign} disabled={isSaving}>
+              <Text style={styles.primaryButtonText}>{isSaving ? 'Saving...' : 'Save Campaign'}</Text>
+            </PressableScale>
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>All Campaigns</Text>
+            <PressableScale onPress={() => setShowArchived((prev) => !prev)} hapticType="selection">
+              <Text style={styles.action}>{showArchived ? 'Hide archived' : 'Show archived'}</Text>
+            </PressableScale>
+          </View>
+          {campaignsQuery.isLoading ? (
+            <ActivityIndicator color={Colors.dark.primary} />
+          ) : campaignsQuery.error ? (
+            <Text style={styles.error}>Unable to load campaigns.</Text>
+          ) : campaigns.length === 0 ? (
+            <Text style={styles.line}>No campaigns yet. Tasks can be linked to a campaign once it exists.</Text>
+          ) : (
+            campaigns.map((campaign) => (
+              <View key={campaign.id} style={[styles.row, campaign.archivedAt && styles.rowArchived]}>
+                <Text style={styles.rowTitle}>{campaign.title}</Text>
+                <Text style={styles.rowMeta}>
+                  {campaign.archivedAt ? 'Archived' : STATUS_LABELS[campaign.status]} • {campaign.startDate} – {campaign.endDate}
+                </Text>
+                <Text style={styles.rowMeta}>
+                  {campaign.totalTasks} tasks • {campaign.completedTasks} completed
+                  {campaign.budget ? ` • $${campaign.budget.toLocaleString()}` : ''}
+                </Text>
+                <View style={styles.rowActions}>
+                  <PressableScale onPress={() => router.push(`/admin/campaigns/${campaign.id}` as any)}>
+                    <Text style={styles.action}>Dashboard</Text>
+                  </PressableScale>
+                  <PressableScale onPress={() => editCampaign(campaign)}>
+                    <Text style={styles.action}>Edit</Text>
+                  </PressableScale>
+                  <PressableScale onPress={() => confirmArchive(campaign)}>
+                    <Text style={[styles.action, !campaign.archivedAt && { color: Colors.dark.error }]}>
+                      {campaign.archivedAt ? 'Restore' : 'Archive'}
+                    </Text>
+                  </PressableScale>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  label: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    color: Colors.dark.text,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  multiline: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  inputCell: {
+    flex: 1,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.dark.primary + '20',
+    borderColor: Colors.dark.primary,
+  },
+  chipText: {
+    color: Colors.dark.textMuted,
+    fontSize: 13,
+    textTransform: 'capitalize',
+  },
+  chipTextActive: {
+    color: Colors.dark.primary,
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    color: Colors.dark.background,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: Colors.dark.textSecondary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  row: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  rowArchived: {
+    opacity: 0.5,
+  },
+  rowTitle: {
+    color: Colors.dark.text,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  rowMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 2,
+  },
+  action: {
+    color: Colors.dark.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
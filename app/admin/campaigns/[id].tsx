@@ -0,0 +1,310 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import AppBackButton from '@/components/AppBackButton';
+import PressableScale from '@/components/PressableScale';
+
+const TASK_STATUS_COLORS = {
+  active: Colors.dark.success,
+  upcoming: Colors.dark.warning,
+  completed: Colors.dark.textMuted,
+};
+
+function formatInteger(value: number): string {
+  return Math.round(value || 0).toLocaleString();
+}
+
+function formatPercent(value: number): string {
+  return `${((value || 0) * 100).toFixed(1)}%`;
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statLabel}>{label}</Text>
+      <Text style={styles.statValue}>{value}</Text>
+    </View>
+  );
+}
+
+function GoalProgress({ label, current, goal }: { label: string; current: number; goal?: number }) {
+  if (!goal) return null;
+  const ratio = Math.min(1, current / goal);
+  return (
+    <View style={styles.goal}>
+      <View style={styles.goalHeader}>
+        <Text style={styles.goalLabel}>{label}</Text>
+        <Text style={styles.goalValue}>{formatInteger(current)} / {formatInteger(goal)}</Text>
+      </View>
+      <View style={styles.goalTrack}>
+        <View style={[styles.goalFill, { width: `${ratio * 100}%` }]} />
+      </View>
+    </View>
+  );
+}
+
+export default function AdminCampaignDashboardScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { currentUser, isAdmin } = useAuth();
+  const dashboardQuery = trpc.campaigns.dashboard.useQuery(
+    { id: id || '' },
+    { enabled: Boolean(isAdmin && currentUser?.id && id) }
+  );
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const data = dashboardQuery.data;
+  const goals = data?.campaign.goals;
+  const platformEntries = Object.entries(data?.results.submissionsPerPlatform || {}).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={dashboardQuery.isRefetching}
+            onRefresh={() => void dashboardQuery.refetch()}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title} numberOfLines={1}>{data?.campaign.title || 'Campaign'}</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        {dashboardQuery.isLoading ? (
+          <ActivityIndicator color={Colors.dark.primary} />
+        ) : dashboardQuery.error || !data ? (
+          <Text style={styles.error}>{dashboardQuery.error?.message || 'Unable to load campaign.'}</Text>
+        ) : (
+          <>
+            <View style={styles.card}>
+              <Text style={styles.line}>{data.campaign.startDate} – {data.campaign.endDate}</Text>
+              {data.campaign.description ? <Text style={styles.line}>{data.campaign.description}</Text> : null}
+              {data.campaign.budget ? (
+                <Text style={styles.line}>Budget ${data.campaign.budget.toLocaleString()}</Text>
+              ) : null}
+              <View style={styles.statGrid}>
+                <Stat label="Tasks" value={formatInteger(data.results.tasks)} />
+                <Stat label="Submissions" value={formatInteger(data.results.submissions)} />
+                <Stat label="Approved" value={formatInteger(data.results.approvedSubmissions)} />
+                <Stat label="Approval" value={formatPercent(data.results.approvalRate)} />
+                <Stat label="Reach" value={formatInteger(data.results.totalImpressions)} />
+                <Stat label="Avg score" value={data.results.averageScore.toFixed(1)} />
+                <Stat label="Contributors" value={formatInteger(data.contributorCount)} />
+                <Stat
+                  label="Completion"
+                  value={data.results.completionRate === null ? '—' : formatPercent(data.results.completionRate)}
+                />
+              </View>
+            </View>
+
+            {goals ? (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Goals</Text>
+                <GoalProgress label="Approved posts" current={data.results.approvedSubmissions} goal={goals.submissions} />
+                <GoalProgress label="Impressions" current={data.results.totalImpressions} goal={goals.impressions} />
+                <GoalProgress label="Contributors" current={data.contributorCount} goal={goals.contributors} />
+              </View>
+            ) : null}
+
+            {platformEntries.length > 0 ? (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Submissions by Platform</Text>
+                {platformEntries.map(([platform, count]) => (
+                  <View key={platform} style={styles.listRow}>
+                    <Text style={styles.listLabel}>{platform}</Text>
+                    <Text style={styles.listValue}>{formatInteger(count)}</Text>
+                  </View>
+                ))}
+              </View>
+            ) : null}
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Top Contributors</Text>
+              {data.topContributors.length === 0 ? (
+                <Text style={styles.line}>No approved submissions yet.</Text>
+              ) : (
+                data.topContributors.map((contributor, index) => (
+                  <View key={contributor.userId} style={styles.listRow}>
+                    <Text style={styles.listLabel} numberOfLines={1}>
+                      {index + 1}. {contributor.name} • {contributor.region}
+                    </Text>
+                    <Text style={styles.listValue}>
+                      {formatInteger(contributor.impressions)} views • {contributor.approvedSubmissions} approved
+                    </Text>
+                  </View>
+                ))
+              )}
+            </View>
+
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Tasks</Text>
+              {data.tasks.length === 0 ? (
+                <Text style={styles.line}>No tasks are linked to this campaign yet.</Text>
+              ) : (
+                data.tasks.map((task) => (
+                  <PressableScale key={task.id} style={styles.taskRow} onPress={() => router.push(`/task/${task.id}` as any)}>
+                    <Text style={styles.taskTitle}>{task.title}</Text>
+                    <Text style={styles.taskMeta}>
+                      <Text style={{ color: TASK_STATUS_COLORS[task.status] }}>{task.status}</Text>
+                      {' '}• Due {task.deadline} • {task.submissions} submitted • {task.approvedSubmissions} approved
+                    </Text>
+                  </PressableScale>
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    flex: 1,
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginHorizontal: 8,
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  statGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 6,
+  },
+  stat: {
+    width: '47%',
+    backgroundColor: Colors.dark.surfaceLight,
+    borderRadius: 10,
+    padding: 10,
+  },
+  statLabel: {
+    color: Colors.dark.textMuted,
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  statValue: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  goal: {
+    marginBottom: 12,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  goalLabel: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+  },
+  goalValue: {
+    color: Colors.dark.text,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  goalTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.dark.surfaceLight,
+    overflow: 'hidden',
+  },
+  goalFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: Colors.dark.primary,
+  },
+  listRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.dark.border,
+  },
+  listLabel: {
+    flex: 1,
+    color: Colors.dark.text,
+    fontSize: 13,
+  },
+  listValue: {
+    color: Colors.dark.textSecondary,
+    fontSize: 12,
+  },
+  taskRow: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  taskTitle: {
+    color: Colors.dark.text,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  taskMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 12,
+  },
+});
@@ -2,7 +2,7 @@ import React, { useState, useCallback, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TextInput, Alert, Modal, RefreshControl, KeyboardAvoidingView, Platform, Share } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
-import { UserPlus, Users, Shield, Clock, CheckCircle, XCircle, Copy, Mail, MapPin, X, Send, Trash2, Key, Eye, EyeOff } from 'lucide-react-native';
+import { UserPlus, Users, Shield, Clock, CheckCircle, XCircle, Copy, Mail, MapPin, X, Send, Trash2, Key, Eye, EyeOff, Lock } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 import * as Clipboard from 'expo-clipboard';
 import Colors from '@/constants/colors';
@@ -20,6 +20,8 @@ import AppButton from '@/components/AppButton';
 
 type FilterTab = 'all' | 'pending' | 'active' | 'suspended';
 type AdminSectionTab = 'ambassadors' | 'season';
+type PendingPasswordReset = { id: string; userId: string; code: string; expiresAt: string };
+type LoginBlock = { id: string; scope: 'identifier' | 'ip'; key: string; failures: number; blockedUntil: string; lockedUntil?: string };
 
 export default function AdminScreen() {
   const params = useLocalSearchParams<{ section?: string }>();
@@ -61,6 +63,8 @@ export default function AdminScreen() {
   const [editUserTelegram, setEditUserTelegram] = useState('');
   const [editUserDiscord, setEditUserDiscord] = useState('');
   const [isSavingUserEdit, setIsSavingUserEdit] = useState(false);
+  const [pendingPasswordResets, setPendingPasswordResets] = useState<PendingPasswordReset[]>([]);
+  const [loginBlocks, setLoginBlocks] = useState<LoginBlock[]>([]);
 
   const filteredUsers = users.filter(u => {
     if (u.id === currentUser?.id) return false;
@@ -80,10 +84,34 @@ export default function AdminScreen() {
     }
   }, []);
 
+  const loadPasswordResets = useCallback(async () => {
+    try {
+      const resets = await trpcClient.users.listPasswordResets.query();
+      setPendingPasswordResets(resets);
+    } catch (error) {
+      console.log('[Admin] Failed to load password reset requests:', error);
+    }
+  }, []);
+
+  const loadLoginBlocks = useCallback(async () => {
+    try {
+      const blocks = await trpcClient.users.listLoginBlocks.query();
+      setLoginBlocks(blocks);
+    } catch (error) {
+      console.log('[Admin] Failed to load locked sign-ins:', error);
+    }
+  }, []);
+
   useEffect(() => {
     void loadCurrentSeason();
   }, [loadCurrentSeason]);
 
+  useEffect(() => {
+    if (!isAdmin) return;
+    void loadPasswordResets();
+    void loadLoginBlocks();
+  }, [isAdmin, loadPasswordResets, loadLoginBlocks]);
+
   useEffect(() => {
     if (params.section === 'season') {
       setActiveAdminSectionTab('season');
@@ -97,13 +125,24 @@ export default function AdminScreen() {
   const handleRefresh = useCallback(async () => {
     setIsRefreshing(true);
     try {
-      await Promise.all([refreshUsers(), loadCurrentSeason(), refreshAppData()]);
+      await Promise.all([refreshUsers(), loadCurrentSeason(), loadPasswordResets(), loadLoginBlocks(), refreshAppData()]);
     } catch (error) {
       console.log('[Admin] Refresh error:', error);
     } finally {
       setIsRefreshing(false);
     }
-  }, [refreshUsers, loadCurrentSeason, refreshAppData]);
+  }, [refreshUsers, loadCurrentSeason, loadPasswordResets, loadLoginBlocks, refreshAppData]);
+
+  const handleClearLoginBlock = useCallback(async (blockId: string) => {
+    try {
+      await trpcClient.users.clearLoginBlock.mutate({ id: blockId });
+      setLoginBlocks((prev) => prev.filter((block) => block.id !== blockId));
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to unlock sign-in';
+      Alert.alert('Error', message);
+    }
+  }, []);
 
   const handleCreateUser = useCallback(async () => {
     if (!newUserName.trim() || !newUserEmail.trim()) {
@@ -333,7 +372,6 @@ export default function AdminScreen() {
             try {
               setIsClosingSeason(true);
               const result = await trpcClient.seasons.closeAndStartNew.mutate({
-                adminUserId: currentUser.id,
                 ...(currentSeason?.number === 2
                   ? { nextSeasonName: 'Season 1', nextSeasonNumber: 1 }
                   : {}),
@@ -449,6 +487,33 @@ export default function AdminScreen() {
           />
         }
       >
+        {loginBlocks.length > 0 && (
+          <View style={styles.userCard}>
+            <View style={styles.loginBlocksHeader}>
+              <Lock size={16} color={Colors.dark.error} />
+              <Text style={styles.userName}>Locked Sign-ins</Text>
+            </View>
+            {loginBlocks.map((block) => (
+              <View key={block.id} style={styles.loginBlockRow}>
+                <View style={styles.userDetails}>
+                  <Text style={styles.userEmail}>
+                    {block.scope === 'ip' ? `IP ${block.key}` : block.key}
+                  </Text>
+                  <Text style={styles.metaText}>
+                    {block.failures} failed · {block.lockedUntil ? 'locked' : 'backing off'} until {new Date(block.blockedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </Text>
+                </View>
+                <PressableScale
+                  style={[styles.actionBtn, styles.actionBtnSuccess, styles.loginBlockAction]}
+                  onPress={() => handleClearLoginBlock(block.id)}
+                >
+                  <Text style={[styles.actionBtnText, { color: Colors.dark.success }]}>Unlock</Text>
+                </PressableScale>
+              </View>
+            ))}
+          </View>
+        )}
+
         {filteredUsers.length === 0 ? (
           <EmptyState
             icon={Users}
@@ -458,6 +523,7 @@ export default function AdminScreen() {
         ) : (
           filteredUsers.map((user) => {
             const StatusIcon = getStatusIcon(user.status);
+            const pendingReset = pendingPasswordResets.find((reset) => reset.userId === user.id);
             return (
               <View key={user.id} style={styles.userCard}>
                 <View style={styles.userHeader}>
@@ -507,6 +573,25 @@ export default function AdminScreen() {
                   </View>
                 )}
 
+                {pendingReset && (
+                  <View style={styles.inviteCodeBox}>
+                    <Text style={styles.inviteCodeLabel}>Reset Code:</Text>
+                    <Text style={styles.inviteCode}>{pendingReset.code}</Text>
+                    <Text style={styles.resetExpiryText}>
+                      until {new Date(pendingReset.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                    <PressableScale 
+                      onPress={async () => {
+                        await Clipboard.setStringAsync(pendingReset.code);
+                        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                        Alert.alert('Copied', 'Reset code copied to clipboard');
+                      }}
+                    >
+                      <Copy size={16} color={Colors.dark.primary} />
+                    </PressableScale>
+                  </View>
+                )}
+
                 <View style={styles.userActions}>
                   <PressableScale
                     style={[styles.actionBtn, styles.actionBtnInfo]}
@@ -1297,6 +1382,27 @@ const styles = StyleSheet.create({
     flex: 1,
     fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
   },
+  resetExpiryText: {
+    fontSize: 12,
+    color: Colors.dark.textMuted,
+  },
+  loginBlocksHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  loginBlockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.border,
+  },
+  loginBlockAction: {
+    flex: 0,
+  },
   userActions: {
     flexDirection: 'row',
     gap: 8,
@@ -0,0 +1,177 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import AppBackButton from '@/components/AppBackButton';
+import type { EventReminderJob, EventReminderStatus } from '@/types';
+
+const STATUS_COLORS: Record<EventReminderStatus, string> = {
+  scheduled: Colors.dark.primary,
+  sent: Colors.dark.success,
+  failed: Colors.dark.error,
+  missed: Colors.dark.warning,
+  cancelled: Colors.dark.textMuted,
+};
+
+function formatOffset(minutes: number): string {
+  if (minutes % 1440 === 0) return `${minutes / 1440}d before`;
+  if (minutes % 60 === 0) return `${minutes / 60}h before`;
+  return `${minutes}m before`;
+}
+
+function ReminderRow({ job }: { job: EventReminderJob }) {
+  const when = job.sentAt || job.nextAttemptAt || job.sendAt;
+  return (
+    <View style={styles.logRow}>
+      <Text style={[styles.logStatus, { color: STATUS_COLORS[job.status] }]}>{job.status.toUpperCase()}</Text>
+      <Text style={styles.logTarget}>{job.eventTitle || job.eventId}</Text>
+      <Text style={styles.logMeta}>
+        {job.eventDate} {job.eventTime} • {formatOffset(job.offsetMinutes)}
+      </Text>
+      <Text style={styles.logMeta}>
+        {job.status === 'sent' ? 'Sent' : job.status === 'scheduled' ? 'Sends' : 'Due'} {new Date(when).toLocaleString()}
+        {job.attempts > 1 ? ` • ${job.attempts} attempts` : ''}
+      </Text>
+      {job.lastError ? (
+        <Text style={styles.logError} numberOfLines={2}>{job.lastError}</Text>
+      ) : null}
+    </View>
+  );
+}
+
+export default function AdminRemindersScreen() {
+  const router = useRouter();
+  const { currentUser, isAdmin } = useAuth();
+
+  const remindersQuery = trpc.admin.eventReminders.useQuery(
+    { limit: 200 },
+    { enabled: Boolean(isAdmin && currentUser?.id) }
+  );
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const upcoming = remindersQuery.data?.upcoming || [];
+  const history = remindersQuery.data?.history || [];
+
+  const renderSection = (title: string, jobs: EventReminderJob[], emptyText: string) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle}>{title}</Text>
+      {remindersQuery.isLoading ? (
+        <ActivityIndicator color={Colors.dark.primary} />
+      ) : remindersQuery.error ? (
+        <Text style={styles.error}>Unable to load reminders.</Text>
+      ) : jobs.length === 0 ? (
+        <Text style={styles.line}>{emptyText}</Text>
+      ) : (
+        jobs.map((job) => <ReminderRow key={job.id} job={job} />)
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={remindersQuery.isRefetching}
+            onRefresh={() => void remindersQuery.refetch()}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title}>Event Reminders</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        {renderSection('Upcoming', upcoming, 'No reminders scheduled in the next week.')}
+        {renderSection('History', history, 'No reminders have been sent yet.')}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  logRow: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  logStatus: {
+    fontSize: 11,
+    fontWeight: '800',
+    marginBottom: 3,
+  },
+  logTarget: {
+    color: Colors.dark.text,
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  logMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  logError: {
+    color: Colors.dark.error,
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,428 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import AppBackButton from '@/components/AppBackButton';
+import PressableScale from '@/components/PressableScale';
+import type { FeedbackSnippet, RubricBand, RubricDimension, RubricGuide } from '@/types';
+
+type SnippetStatus = FeedbackSnippet['status'];
+
+const DIMENSION_LABELS: Record<RubricDimension, string> = {
+  relevanceToTask: 'Relevance to Task',
+  creativity: 'Creativity',
+  originality: 'Originality',
+  effortFormat: 'Effort & Format',
+  enthusiasmTone: 'Enthusiasm & Tone',
+  engagementScore: 'Engagement & Reach',
+};
+
+const STATUS_OPTIONS: { value: SnippetStatus; label: string }[] = [
+  { value: undefined, label: 'Any decision' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'needs_edits', label: 'Needs Edits' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+type SnippetForm = { id?: string; title: string; text: string; status: SnippetStatus };
+
+const EMPTY_SNIPPET: SnippetForm = { title: '', text: '', status: undefined };
+
+export default function AdminReviewGuidanceScreen() {
+  const router = useRouter();
+  const { currentUser, isAdmin } = useAuth();
+  const [snippetForm, setSnippetForm] = useState<SnippetForm>(EMPTY_SNIPPET);
+  const [rubricDraft, setRubricDraft] = useState<RubricGuide | null>(null);
+
+  const enabled = Boolean(isAdmin && currentUser?.id);
+  const guidanceQuery = trpc.reviewGuidance.get.useQuery(undefined, { enabled });
+  const trpcUtils = trpc.useUtils();
+
+  const saveSnippet = trpc.reviewGuidance.saveSnippet.useMutation({
+    onSuccess: () => {
+      setSnippetForm(EMPTY_SNIPPET);
+      void trpcUtils.reviewGuidance.get.invalidate();
+    },
+    onError: (error) => Alert.alert('Save failed', error.message || 'Could not save snippet.'),
+  });
+  const deleteSnippet = trpc.reviewGuidance.deleteSnippet.useMutation({
+    onSuccess: () => void trpcUtils.reviewGuidance.get.invalidate(),
+    onError: (error) => Alert.alert('Delete failed', error.message || 'Could not delete snippet.'),
+  });
+  const saveRubric = trpc.reviewGuidance.saveRubric.useMutation({
+    onSuccess: () => {
+      setRubricDraft(null);
+      void trpcUtils.reviewGuidance.get.invalidate();
+    },
+    onError: (error) => Alert.alert('Save failed', error.message || 'Could not save rubric.'),
+  });
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const snippets = guidanceQuery.data?.snippets || [];
+  const rubric = guidanceQuery.data?.rubric || [];
+
+  const submitSnippet = () => {
+    if (!snippetForm.title.trim() || !snippetForm.text.trim()) {
+      Alert.alert('Missing fields', 'A snippet needs a title and text.');
+      return;
+    }
+    saveSnippet.mutate(snippetForm);
+  };
+
+  const confirmDelete = (snippet: FeedbackSnippet) => {
+    Alert.alert('Delete snippet', `Delete "${snippet.title}"? Feedback already sent is kept.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteSnippet.mutate({ id: snippet.id }) },
+    ]);
+  };
+
+  const updateBand = (index: number, changes: Partial<RubricBand>) => {
+    setRubricDraft(prev => prev && {
+      ...prev,
+      bands: prev.bands.map((band, bandIndex) => (bandIndex === index ? { ...band, ...changes } : band)),
+    });
+  };
+
+  const submitRubric = () => {
+    if (!rubricDraft) return;
+    saveRubric.mutate({
+      dimension: rubricDraft.dimension,
+      description: rubricDraft.description,
+      bands: rubricDraft.bands,
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={guidanceQuery.isRefetching}
+            onRefresh={() => void guidanceQuery.refetch()}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title}>Review Guidance</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{snippetForm.id ? 'Edit Snippet' : 'New Snippet'}</Text>
+          <TextInput
+            style={styles.input}
+            value={snippetForm.title}
+            onChangeText={(title) => setSnippetForm(prev => ({ ...prev, title }))}
+            placeholder="Title, e.g. Missing hashtag"
+            placeholderTextColor={Colors.dark.textMuted}
+          />
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={snippetForm.text}
+            onChangeText={(text) => setSnippetForm(prev => ({ ...prev, text }))}
+            placeholder="Feedback text added to the review"
+            placeholderTextColor={Colors.dark.textMuted}
+            multiline
+          />
+          <View style={styles.chipWrap}>
+            {STATUS_OPTIONS.map((option) => {
+              const active = snippetForm.status === option.value;
+              return (
+                <PressableScale
+                  key={option.label}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setSnippetForm(prev => ({ ...prev, status: option.value }))}
+                  hapticType="selection"
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+                </PressableScale>
+              );
+            })}
+          </View>
+          <View style={styles.formActions}>
+            {snippetForm.id ? (
+              <PressableScale style={styles.secondaryButton} onPress={() => setSnippetForm(EMPTY_SNIPPET)}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </PressableScale>
+            ) : null}
+            <PressableScale style={styles.primaryButton} onPress={submitSnippet} disabled={saveSnippet.isPending}>
+              <Text style={styles.primaryButtonText}>{saveSnippet.isPending ? 'Saving...' : 'Save Snippet'}</Text>
+            </PressableScale>
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Feedback Snippets</Text>
+          {guidanceQuery.isLoading ? (
+            <ActivityIndicator color={Colors.dark.primary} />
+          ) : guidanceQuery.error ? (
+            <Text style={styles.error}>Unable to load review guidance.</Text>
+          ) : snippets.length === 0 ? (
+            <Text style={styles.line}>No snippets yet. Reviewers can add saved snippets to their feedback in one tap.</Text>
+          ) : (
+            snippets.map((snippet) => (
+              <View key={snippet.id} style={styles.row}>
+                <Text style={styles.rowTitle}>{snippet.title}</Text>
+                <Text style={styles.rowMeta}>
+                  {STATUS_OPTIONS.find(option => option.value === snippet.status)?.label || 'Any decision'} • Updated{' '}
+                  {snippet.updatedAt.slice(0, 10)}
+                </Text>
+                <Text style={styles.line}>{snippet.text}</Text>
+                <View style={styles.rowActions}>
+                  <PressableScale
+                    onPress={() => setSnippetForm({ id: snippet.id, title: snippet.title, text: snippet.text, status: snippet.status })}
+                  >
+                    <Text style={styles.action}>Edit</Text>
+                  </PressableScale>
+                  <PressableScale onPress={() => confirmDelete(snippet)}>
+                    <Text style={[styles.action, { color: Colors.dark.error }]}>Delete</Text>
+                  </PressableScale>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Scoring Rubric</Text>
+          <Text style={styles.line}>
+            Reviewers see the band matching the score they pick, with its description and example.
+          </Text>
+          {rubric.map((guide) => {
+            const isEditing = rubricDraft?.dimension === guide.dimension;
+            if (!isEditing || !rubricDraft) {
+              return (
+                <View key={guide.dimension} style={styles.row}>
+                  <Text style={styles.rowTitle}>{DIMENSION_LABELS[guide.dimension]}</Text>
+                  <Text style={styles.rowMeta}>{guide.description}</Text>
+                  {guide.bands.map((band) => (
+                    <Text key={`${band.min}-${band.max}`} style={styles.rowMeta}>
+                      {band.min === band.max ? band.min : `${band.min}–${band.max}`} pts • {band.label}
+                    </Text>
+                  ))}
+                  <View style={styles.rowActions}>
+                    <PressableScale onPress={() => setRubricDraft(guide)}>
+                      <Text style={styles.action}>Edit</Text>
+                    </PressableScale>
+                  </View>
+                </View>
+              );
+            }
+            return (
+              <View key={guide.dimension} style={styles.row}>
+                <Text style={styles.rowTitle}>{DIMENSION_LABELS[guide.dimension]}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={rubricDraft.description}
+                  onChangeText={(description) => setRubricDraft(prev => prev && { ...prev, description })}
+                  placeholder="What this dimension measures"
+                  placeholderTextColor={Colors.dark.textMuted}
+                />
+                {rubricDraft.bands.map((band, index) => (
+                  <View key={`${band.min}-${band.max}`}>
+                    <Text style={styles.bandTitle}>
+                      {band.min === band.max ? band.min : `${band.min}–${band.max}`} pts
+                    </Text>
+                    <TextInput
+                      style={styles.input}
+                      value={band.label}
+                      onChangeText={(label) => updateBand(index, { label })}
+                      placeholder="Band label"
+                      placeholderTextColor={Colors.dark.textMuted}
+                    />
+                    <TextInput
+                      style={styles.input}
+                      value={band.description}
+                      onChangeText={(description) => updateBand(index, { description })}
+                      placeholder="What earns this score"
+                      placeholderTextColor={Colors.dark.textMuted}
+                    />
+                    <TextInput
+                      style={styles.input}
+                      value={band.example || ''}
+                      onChangeText={(example) => updateBand(index, { example })}
+                      placeholder="Anchor example (optional)"
+                      placeholderTextColor={Colors.dark.textMuted}
+                    />
+                  </View>
+                ))}
+                <View style={styles.formActions}>
+                  <PressableScale style={styles.secondaryButton} onPress={() => setRubricDraft(null)}>
+                    <Text style={styles.secondaryButtonText}>Cancel</Text>
+                  </PressableScale>
+                  <PressableScale style={styles.primaryButton} onPress={submitRubric} disabled={saveRubric.isPending}>
+                    <Text style={styles.primaryButtonText}>{saveRubric.isPending ? 'Saving...' : 'Save Rubric'}</Text>
+                  </PressableScale>
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  input: {
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    color: Colors.dark.text,
+    fontSize: 13,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 10,
+  },
+  multiline: {
+    minHeight: 90,
+    textAlignVertical: 'top',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.dark.primary + '20',
+    borderColor: Colors.dark.primary,
+  },
+  chipText: {
+    color: Colors.dark.textMuted,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: Colors.dark.primary,
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    color: Colors.dark.background,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: Colors.dark.textSecondary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 10,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  row: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  rowTitle: {
+    color: Colors.dark.text,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  rowMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 2,
+  },
+  action: {
+    color: Colors.dark.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  bandTitle: {
+    color: Colors.dark.textSecondary,
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+});
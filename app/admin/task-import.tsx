@@ -0,0 +1,307 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import AppBackButton from '@/components/AppBackButton';
+import PressableScale from '@/components/PressableScale';
+import type { TaskTemplate } from '@/types';
+
+type ImportFormat = 'csv' | 'json';
+
+const PLACEHOLDERS: Record<ImportFormat, string> = {
+  csv: 'title,brief,platforms,deadline,points,template\nLaunch thread,Share the launch,twitter|instagram,2025-07-01,150,',
+  json: '[{ "title": "Launch thread", "brief": "Share the launch", "platforms": ["twitter"], "deadline": "2025-07-01" }]',
+};
+
+export default function AdminTaskImportScreen() {
+  const router = useRouter();
+  const { currentUser, isAdmin } = useAuth();
+  const [format, setFormat] = useState<ImportFormat>('csv');
+  const [content, setContent] = useState('');
+
+  const enabled = Boolean(isAdmin && currentUser?.id);
+  const templatesQuery = trpc.tasks.templates.useQuery(undefined, { enabled });
+  const trpcUtils = trpc.useUtils();
+
+  const bulkImport = trpc.tasks.bulkImport.useMutation({
+    onSuccess: (result) => {
+      if (result.created > 0) {
+        void trpcUtils.tasks.list.invalidate();
+      }
+      if (result.failed === 0) {
+        setContent('');
+      }
+    },
+    onError: (error) => Alert.alert('Import failed', error.message || 'Could not read the import file.'),
+  });
+  const deleteTemplate = trpc.tasks.deleteTemplate.useMutation({
+    onSuccess: () => void trpcUtils.tasks.templates.invalidate(),
+    onError: (error) => Alert.alert('Delete failed', error.message || 'Could not delete template.'),
+  });
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const templates = templatesQuery.data || [];
+  const report = bulkImport.data;
+
+  const submitImport = () => {
+    if (!content.trim()) {
+      Alert.alert('Nothing to import', 'Paste CSV or JSON tasks first.');
+      return;
+    }
+    bulkImport.reset();
+    bulkImport.mutate({ format, content });
+  };
+
+  const confirmDelete = (template: TaskTemplate) => {
+    Alert.alert('Delete template', `Delete "${template.name}"? Tasks created from it are kept.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteTemplate.mutate({ id: template.id }) },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={templatesQuery.isRefetching}
+            onRefresh={() => void templatesQuery.refetch()}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title}>Task Import</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Bulk Import</Text>
+          <Text style={styles.line}>
+            Each row is checked like a task created by hand. Separate list values in CSV cells with
+            &quot;|&quot;, and name a template in the template column to fill in missing fields.
+          </Text>
+          <View style={styles.chipWrap}>
+            {(['csv', 'json'] as const).map((option) => {
+              const active = format === option;
+              return (
+                <PressableScale
+                  key={option}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setFormat(option)}
+                  hapticType="selection"
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.toUpperCase()}</Text>
+                </PressableScale>
+              );
+            })}
+          </View>
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={content}
+            onChangeText={setContent}
+            placeholder={PLACEHOLDERS[format]}
+            placeholderTextColor={Colors.dark.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            multiline
+          />
+          <View style={styles.formActions}>
+            <PressableScale style={styles.primaryButton} onPress={submitImport} disabled={bulkImport.isPending}>
+              <Text style={styles.primaryButtonText}>{bulkImport.isPending ? 'Importing...' : 'Import Tasks'}</Text>
+            </PressableScale>
+          </View>
+        </View>
+
+        {report ? (
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {report.created} created • {report.failed} failed
+            </Text>
+            {report.results.map((result) => (
+              <View key={result.row} style={styles.row}>
+                <Text style={styles.rowTitle}>
+                  Row {result.row}
+                  {result.title ? ` • ${result.title}` : ''}
+                </Text>
+                <Text style={[styles.rowMeta, { color: result.success ? Colors.dark.success : Colors.dark.error }]}>
+                  {result.success ? `Created ${result.taskId}` : result.error}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : null}
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Templates</Text>
+          {templatesQuery.isLoading ? (
+            <ActivityIndicator color={Colors.dark.primary} />
+          ) : templatesQuery.error ? (
+            <Text style={styles.error}>Unable to load templates.</Text>
+          ) : templates.length === 0 ? (
+            <Text style={styles.line}>No templates yet. Save one from the task form on the Tasks tab.</Text>
+          ) : (
+            templates.map((template) => (
+              <View key={template.id} style={styles.row}>
+                <Text style={styles.rowTitle}>{template.name}</Text>
+                <Text style={styles.rowMeta}>
+                  {template.platforms.join(', ')} • {template.points} pts • Updated {template.updatedAt.slice(0, 10)}
+                </Text>
+                <View style={styles.rowActions}>
+                  <PressableScale onPress={() => confirmDelete(template)}>
+                    <Text style={[styles.action, { color: Colors.dark.error }]}>Delete</Text>
+                  </PressableScale>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  input: {
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    color: Colors.dark.text,
+    fontSize: 13,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  multiline: {
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+  },
+  chipActive: {
+    backgroundColor: Colors.dark.primary + '20',
+    borderColor: Colors.dark.primary,
+  },
+  chipText: {
+    color: Colors.dark.textMuted,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: Colors.dark.primary,
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    color: Colors.dark.background,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 10,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  row: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  rowTitle: {
+    color: Colors.dark.text,
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  rowMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 2,
+  },
+  action: {
+    color: Colors.dark.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
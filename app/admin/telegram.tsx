@@ -0,0 +1,439 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator, RefreshControl, TextInput, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import Colors from '@/constants/colors';
+import { useAuth } from '@/contexts/AuthContext';
+import { trpc } from '@/lib/trpc';
+import { regions } from '@/mocks/data';
+import AppBackButton from '@/components/AppBackButton';
+import PressableScale from '@/components/PressableScale';
+import type { TelegramDelivery, TelegramDeliveryStatus, TelegramMessageType, TelegramRoute } from '@/types';
+
+const MESSAGE_TYPE_OPTIONS: { id: TelegramMessageType; label: string }[] = [
+  { id: 'task', label: 'Tasks' },
+  { id: 'event_reminder', label: 'Event reminders' },
+  { id: 'poll', label: 'Polls' },
+  { id: 'season', label: 'Seasons' },
+  { id: 'news', label: 'News' },
+];
+
+const MESSAGE_TYPE_LABELS = Object.fromEntries(
+  MESSAGE_TYPE_OPTIONS.map((option) => [option.id, option.label])
+) as Record<TelegramMessageType, string>;
+
+const DELIVERY_FILTERS: { id: TelegramDeliveryStatus | 'all'; label: string }[] = [
+  { id: 'failed', label: 'Failures' },
+  { id: 'all', label: 'All' },
+];
+
+function parseChatIds(value: string): string[] {
+  return value.split(/[\s,]+/).map((chatId) => chatId.trim()).filter(Boolean);
+}
+
+function DeliveryRow({ delivery }: { delivery: TelegramDelivery }) {
+  const failed = delivery.status === 'failed';
+  return (
+    <View style={styles.logRow}>
+      <Text style={[styles.logStatus, { color: failed ? Colors.dark.error : Colors.dark.success }]}>
+        {delivery.status.toUpperCase()}
+      </Text>
+      <Text style={styles.logTarget}>{delivery.subject}</Text>
+      <Text style={styles.logMeta}>
+        {MESSAGE_TYPE_LABELS[delivery.messageType]} • {delivery.region || 'All regions'} • {delivery.chatId}
+      </Text>
+      <Text style={styles.logMeta}>{new Date(delivery.createdAt).toLocaleString()}</Text>
+      {delivery.error ? (
+        <Text style={styles.logError} numberOfLines={2}>{delivery.error}</Text>
+      ) : null}
+    </View>
+  );
+}
+
+export default function AdminTelegramRoutingScreen() {
+  const router = useRouter();
+  const { currentUser, isAdmin } = useAuth();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [region, setRegion] = useState<string | null>(null);
+  const [messageType, setMessageType] = useState<TelegramMessageType>('task');
+  const [chatIdsText, setChatIdsText] = useState('');
+  const [deliveryFilter, setDeliveryFilter] = useState<TelegramDeliveryStatus | 'all'>('failed');
+
+  const enabled = Boolean(isAdmin && currentUser?.id);
+  const routesQuery = trpc.admin.telegramRoutes.useQuery(undefined, { enabled });
+  const deliveriesQuery = trpc.admin.telegramDeliveries.useQuery(
+    { status: deliveryFilter === 'all' ? undefined : deliveryFilter, limit: 100 },
+    { enabled }
+  );
+
+  const resetForm = () => {
+    setEditingId(null);
+    setRegion(null);
+    setMessageType('task');
+    setChatIdsText('');
+  };
+
+  const saveRoute = trpc.admin.saveTelegramRoute.useMutation({
+    onSuccess: () => {
+      resetForm();
+      void routesQuery.refetch();
+    },
+    onError: (error) => Alert.alert('Save failed', error.message || 'Could not save route.'),
+  });
+  const toggleRoute = trpc.admin.saveTelegramRoute.useMutation({
+    onSuccess: () => void routesQuery.refetch(),
+    onError: (error) => Alert.alert('Update failed', error.message || 'Could not update route.'),
+  });
+  const deleteRoute = trpc.admin.deleteTelegramRoute.useMutation({
+    onSuccess: () => {
+      resetForm();
+      void routesQuery.refetch();
+    },
+    onError: (error) => Alert.alert('Delete failed', error.message || 'Could not delete route.'),
+  });
+
+  if (!isAdmin) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <Text style={styles.error}>Admin access required.</Text>
+      </SafeAreaView>
+    );
+  }
+
+  const routes = routesQuery.data || [];
+  const deliveries = deliveriesQuery.data || [];
+
+  const editRoute = (route: TelegramRoute) => {
+    setEditingId(route.id);
+    setRegion(route.region);
+    setMessageType(route.messageType);
+    setChatIdsText(route.chatIds.join(', '));
+  };
+
+  const submitRoute = () => {
+    const chatIds = parseChatIds(chatIdsText);
+    if (chatIds.length === 0) {
+      Alert.alert('Chat IDs required', 'Add at least one chat ID or @channel username.');
+      return;
+    }
+    saveRoute.mutate({ id: editingId || undefined, region, messageType, chatIds });
+  };
+
+  const confirmDelete = (route: TelegramRoute) => {
+    Alert.alert('Delete route', `Stop sending ${MESSAGE_TYPE_LABELS[route.messageType].toLowerCase()} to these chats?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteRoute.mutate({ id: route.id }) },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={
+          <RefreshControl
+            refreshing={routesQuery.isRefetching || deliveriesQuery.isRefetching}
+            onRefresh={() => {
+              void routesQuery.refetch();
+              void deliveriesQuery.refetch();
+            }}
+            tintColor={Colors.dark.primary}
+          />
+        }
+      >
+        <View style={styles.headerRow}>
+          <AppBackButton onPress={() => router.back()} />
+          <Text style={styles.title}>Telegram Routing</Text>
+          <View style={{ width: 52 }} />
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{editingId ? 'Edit Route' : 'New Route'}</Text>
+          <Text style={styles.label}>Region</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+            {[null, ...regions].map((option) => {
+              const active = region === option;
+              return (
+                <PressableScale
+                  key={option || 'all'}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setRegion(option)}
+                  hapticType="selection"
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{option || 'All regions'}</Text>
+                </PressableScale>
+              );
+            })}
+          </ScrollView>
+          <Text style={styles.label}>Message type</Text>
+          <View style={styles.chipWrap}>
+            {MESSAGE_TYPE_OPTIONS.map((option) => {
+              const active = messageType === option.id;
+              return (
+                <PressableScale
+                  key={option.id}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setMessageType(option.id)}
+                  hapticType="selection"
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+                </PressableScale>
+              );
+            })}
+          </View>
+          <Text style={styles.label}>Chat IDs</Text>
+          <TextInput
+            style={styles.input}
+            value={chatIdsText}
+            onChangeText={setChatIdsText}
+            placeholder="-1001234567890, @region_channel"
+            placeholderTextColor={Colors.dark.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <View style={styles.formActions}>
+            {editingId ? (
+              <PressableScale style={styles.secondaryButton} onPress={resetForm}>
+                <Text style={styles.secondaryButtonText}>Cancel</Text>
+              </PressableScale>
+            ) : null}
+            <PressableScale style={styles.primaryButton} onPress={submitRoute} disabled={saveRoute.isPending}>
+              <Text style={styles.primaryButtonText}>{saveRoute.isPending ? 'Saving...' : 'Save Route'}</Text>
+            </PressableScale>
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Routes</Text>
+          {routesQuery.isLoading ? (
+            <ActivityIndicator color={Colors.dark.primary} />
+          ) : routesQuery.error ? (
+            <Text style={styles.error}>Unable to load routes.</Text>
+          ) : routes.length === 0 ? (
+            <Text style={styles.line}>
+              No routes yet. Tasks and event reminders go to TELEGRAM_TASK_CHANNEL_ID until they are routed.
+            </Text>
+          ) : (
+            routes.map((route) => (
+              <View key={route.id} style={[styles.logRow, !route.enabled && styles.routeDisabled]}>
+                <Text style={styles.logTarget}>
+                  {route.region || 'All regions'} • {MESSAGE_TYPE_LABELS[route.messageType]}
+                </Text>
+                <Text style={styles.logMeta}>{route.chatIds.join(', ')}</Text>
+                <View style={styles.routeActions}>
+                  <PressableScale onPress={() => editRoute(route)}>
+                    <Text style={styles.routeAction}>Edit</Text>
+                  </PressableScale>
+                  <PressableScale
+                    onPress={() => toggleRoute.mutate({
+                      id: route.id,
+                      region: route.region,
+                      messageType: route.messageType,
+                      chatIds: route.chatIds,
+                      enabled: !route.enabled,
+                    })}
+                  >
+                    <Text style={styles.routeAction}>{route.enabled ? 'Pause' : 'Resume'}</Text>
+                  </PressableScale>
+                  <PressableScale onPress={() => confirmDelete(route)}>
+                    <Text style={[styles.routeAction, { color: Colors.dark.error }]}>Delete</Text>
+                  </PressableScale>
+                </View>
+              </View>
+            ))
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Delivery Log</Text>
+          <View style={styles.chipWrap}>
+            {DELIVERY_FILTERS.map((filter) => {
+              const active = deliveryFilter === filter.id;
+              return (
+                <PressableScale
+                  key={filter.id}
+                  style={[styles.chip, active && styles.chipActive]}
+                  onPress={() => setDeliveryFilter(filter.id)}
+                  hapticType="selection"
+                >
+                  <Text style={[styles.chipText, active && styles.chipTextActive]}>{filter.label}</Text>
+                </PressableScale>
+              );
+            })}
+          </View>
+          {deliveriesQuery.isLoading ? (
+            <ActivityIndicator color={Colors.dark.primary} />
+          ) : deliveriesQuery.error ? (
+            <Text style={styles.error}>Unable to load deliveries.</Text>
+          ) : deliveries.length === 0 ? (
+            <Text style={styles.line}>{deliveryFilter === 'failed' ? 'No failed deliveries.' : 'Nothing sent yet.'}</Text>
+          ) : (
+            deliveries.map((delivery) => <DeliveryRow key={delivery.id} delivery={delivery} />)
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 2,
+  },
+  title: {
+    color: Colors.dark.text,
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  card: {
+    backgroundColor: Colors.dark.surface,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 14,
+    padding: 14,
+  },
+  cardTitle: {
+    color: Colors.dark.text,
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 10,
+  },
+  label: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  chipRow: {
+    marginBottom: 12,
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    marginRight: 6,
+  },
+  chipActive: {
+    backgroundColor: Colors.dark.primary + '20',
+    borderColor: Colors.dark.primary,
+  },
+  chipText: {
+    color: Colors.dark.textMuted,
+    fontSize: 13,
+  },
+  chipTextActive: {
+    color: Colors.dark.primary,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: Colors.dark.surfaceLight,
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    color: Colors.dark.text,
+    fontSize: 14,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 12,
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  primaryButtonText: {
+    color: Colors.dark.background,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  secondaryButtonText: {
+    color: Colors.dark.textSecondary,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  line: {
+    color: Colors.dark.textSecondary,
+    fontSize: 13,
+    marginBottom: 6,
+  },
+  error: {
+    color: Colors.dark.error,
+    fontSize: 13,
+  },
+  logRow: {
+    borderWidth: 1,
+    borderColor: Colors.dark.border,
+    borderRadius: 10,
+    backgroundColor: Colors.dark.surfaceLight,
+    padding: 10,
+    marginBottom: 8,
+  },
+  routeDisabled: {
+    opacity: 0.5,
+  },
+  routeActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  routeAction: {
+    color: Colors.dark.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  logStatus: {
+    fontSize: 11,
+    fontWeight: '800',
+    marginBottom: 3,
+  },
+  logTarget: {
+    color: Colors.dark.text,
+    fontSize: 13,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  logMeta: {
+    color: Colors.dark.textMuted,
+    fontSize: 11,
+    marginBottom: 4,
+  },
+  logError: {
+    color: Colors.dark.error,
+    fontSize: 12,
+  },
+});
@@ -16,7 +16,7 @@ export default function AdminXMetricsScreen() {
   const [showErrors, setShowErrors] = useState(true);
 
   const statusQuery = trpc.admin.xMetricsStatus.useQuery(
-    { adminUserId: currentUser?.id || '' },
+    undefined,
     { enabled: Boolean(isAdmin && currentUser?.id), refetchInterval: 30000 }
   );
 
@@ -66,7 +66,7 @@ export default function AdminXMetricsScreen() {
               style={[styles.runBtn, runNowMutation.isPending && styles.runBtnDisabled]}
               onPress={() => {
                 if (!currentUser?.id) return;
-                runNowMutation.mutate({ adminUserId: currentUser.id, region: effectiveRegion || undefined });
+                runNowMutation.mutate({ region: effectiveRegion || undefined });
               }}
               disabled={runNowMutation.isPending}
             >
@@ -10,17 +10,19 @@ import PressableScale from '@/components/PressableScale';
 import { getApiBaseUrl } from '@/lib/trpc';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
-type AuthMode = 'login' | 'activate';
+type AuthMode = 'login' | 'activate' | 'reset';
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { login, activateAccount, isLoading, isAuthenticated, requiresSocialSetup } = useAuth();
+  const { login, activateAccount, requestPasswordReset, completePasswordReset, isLoading, isAuthenticated, requiresSocialSetup } = useAuth();
   
   const [mode, setMode] = useState<AuthMode>('login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [inviteCode, setInviteCode] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  const [resetCode, setResetCode] = useState('');
+  const [resetCodeRequested, setResetCodeRequested] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const debugEnabled = useMemo(() => {
@@ -84,6 +86,83 @@ export default function LoginScreen() {
     }
   }, [email, inviteCode, password, confirmPassword, activateAccount, router]);
 
+  const openResetMode = useCallback(() => {
+    setMode('reset');
+    setResetCode('');
+    setResetCodeRequested(false);
+    setPassword('');
+    setConfirmPassword('');
+  }, []);
+
+  const handleRequestReset = useCallback(async () => {
+    if (!email.trim()) {
+      Alert.alert('Error', 'Please enter your email or username');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await requestPasswordReset(email.trim());
+    setIsSubmitting(false);
+
+    if (result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setResetCodeRequested(true);
+      Alert.alert(
+        'Check for your code',
+        'If the account exists, a reset code was sent to your linked Telegram chat. Otherwise ask your admin for the code. It expires in 30 minutes.'
+      );
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Reset Failed', result.error);
+    }
+  }, [email, requestPasswordReset]);
+
+  const handleCompleteReset = useCallback(async () => {
+    if (!email.trim() || !resetCode.trim() || !password.trim()) {
+      Alert.alert('Error', 'Please fill in all fields');
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      Alert.alert('Error', 'Passwords do not match');
+      return;
+    }
+
+    if (password.length < 6) {
+      Alert.alert('Error', 'Password must be at least 6 characters');
+      return;
+    }
+
+    setIsSubmitting(true);
+    const result = await completePasswordReset(email.trim(), resetCode.trim(), password);
+    setIsSubmitting(false);
+
+    if (result.success) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      setMode('login');
+      setResetCode('');
+      setResetCodeRequested(false);
+      setPassword('');
+      setConfirmPassword('');
+      Alert.alert('Password Reset', 'Your password has been updated. Please sign in.');
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Reset Failed', result.error);
+    }
+  }, [email, resetCode, password, confirmPassword, completePasswordReset]);
+
+  const submitLabel = mode === 'login'
+    ? 'Sign In'
+    : mode === 'activate'
+      ? 'Activate Account'
+      : resetCodeRequested ? 'Reset Password' : 'Send Reset Code';
+  const handleSubmit = mode === 'login'
+    ? handleLogin
+    : mode === 'activate'
+      ? handleActivate
+      : resetCodeRequested ? handleCompleteReset : handleRequestReset;
+  const showPasswordFields = mode !== 'reset' || resetCodeRequested;
+
   if (!isLoading && isAuthenticated) {
     return <Redirect href={requiresSocialSetup ? "/(tabs)/profile" : "/(tabs)"} />;
   }
@@ -108,7 +187,7 @@ export default function LoginScreen() {
             </View>
             <Text style={styles.title}>Ambassador OS</Text>
             <Text style={styles.subtitle}>
-              {mode === 'login' ? 'Sign in to your account' : 'Activate your account'}
+              {mode === 'login' ? 'Sign in to your account' : mode === 'activate' ? 'Activate your account' : 'Reset your password'}
             </Text>
           </View>
 
@@ -204,7 +283,7 @@ export default function LoginScreen() {
 
           <View style={styles.form}>
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Email</Text>
+              <Text style={styles.inputLabel}>{mode === 'reset' ? 'Email or Username' : 'Email'}</Text>
               <View style={styles.inputContainer}>
                 <Mail size={20} color={Colors.dark.textMuted} />
                 <TextInput
@@ -240,31 +319,57 @@ export default function LoginScreen() {
               </View>
             )}
 
-            <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Password</Text>
-              <View style={styles.inputContainer}>
-                <Lock size={20} color={Colors.dark.textMuted} />
-                <TextInput
-                  style={styles.input}
-                  value={password}
-                  onChangeText={setPassword}
-                  placeholder={mode === 'activate' ? 'Create a password' : 'Enter password'}
-                  placeholderTextColor={Colors.dark.textMuted}
-                  secureTextEntry={!showPassword}
-                  autoCapitalize="none"
-                  testID="password-input"
-                />
-                <PressableScale onPress={() => setShowPassword(!showPassword)}>
-                  {showPassword ? (
-                    <EyeOff size={20} color={Colors.dark.textMuted} />
-                  ) : (
-                    <Eye size={20} color={Colors.dark.textMuted} />
-                  )}
-                </PressableScale>
+            {mode === 'reset' && resetCodeRequested && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Reset Code</Text>
+                <View style={styles.inputContainer}>
+                  <Key size={20} color={Colors.dark.textMuted} />
+                  <TextInput
+                    style={styles.input}
+                    value={resetCode}
+                    onChangeText={setResetCode}
+                    placeholder="8-character code"
+                    placeholderTextColor={Colors.dark.textMuted}
+                    autoCapitalize="characters"
+                    autoCorrect={false}
+                    testID="reset-code-input"
+                  />
+                </View>
               </View>
-            </View>
+            )}
 
-            {mode === 'activate' && (
+            {showPasswordFields && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>{mode === 'reset' ? 'New Password' : 'Password'}</Text>
+                <View style={styles.inputContainer}>
+                  <Lock size={20} color={Colors.dark.textMuted} />
+                  <TextInput
+                    style={styles.input}
+                    value={password}
+                    onChangeText={setPassword}
+                    placeholder={mode === 'login' ? 'Enter password' : 'Create a password'}
+                    placeholderTextColor={Colors.dark.textMuted}
+                    secureTextEntry={!showPassword}
+                    autoCapitalize="none"
+                    testID="password-input"
+                  />
+                  <PressableScale onPress={() => setShowPassword(!showPassword)}>
+                    {showPassword ? (
+                      <EyeOff size={20} color={Colors.dark.textMuted} />
+                    ) : (
+                      <Eye size={20} color={Colors.dark.textMuted} />
+                    )}
+                  </PressableScale>
+                </View>
+                {mode === 'login' && (
+                  <PressableScale onPress={openResetMode} hapticType="selection" testID="forgot-password-button">
+                    <Text style={styles.forgotPasswordText}>Forgot password?</Text>
+                  </PressableScale>
+                )}
+              </View>
+            )}
+
+            {(mode === 'activate' || (mode === 'reset' && resetCodeRequested)) && (
               <View style={styles.inputGroup}>
                 <Text style={styles.inputLabel}>Confirm Password</Text>
                 <View style={styles.inputContainer}>
@@ -285,13 +390,13 @@ export default function LoginScreen() {
 
             <PressableScale 
               style={[styles.submitButton, isSubmitting && styles.submitButtonDisabled]}
-              onPress={mode === 'login' ? handleLogin : handleActivate}
+              onPress={handleSubmit}
               disabled={isSubmitting}
               hapticType="medium"
               testID="submit-button"
             >
               <Text style={styles.submitButtonText}>
-                {isSubmitting ? 'Please wait...' : mode === 'login' ? 'Sign In' : 'Activate Account'}
+                {isSubmitting ? 'Please wait...' : submitLabel}
               </Text>
             </PressableScale>
           </View>
@@ -304,12 +409,16 @@ export default function LoginScreen() {
                   No account? Contact your admin to receive an invite.
                 </Text>
               </View>
-            ) : (
+            ) : mode === 'activate' ? (
               <View style={styles.footerContent}>
                 <Text style={styles.footerText}>
                   Enter the invite code sent by your admin to activate your account.
                 </Text>
               </View>
+            ) : (
+              <PressableScale onPress={() => setMode('login')} hapticType="selection">
+                <Text style={styles.forgotPasswordText}>Back to Sign In</Text>
+              </PressableScale>
             )}
           </View>
 
@@ -441,6 +550,12 @@ const styles = StyleSheet.create({
     fontWeight: '700' as const,
     color: '#FFF',
   },
+  forgotPasswordText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: Colors.dark.primary,
+    alignSelf: 'flex-end' as const,
+  },
   footer: {
     marginTop: 24,
     alignItems: 'center',
@@ -5,9 +5,15 @@ import { cors } from "hono/cors";
 import { appRouter } from "./trpc/app-router";
 import { createContext } from "./trpc/create-context";
 import { getStorageDiagnostics } from "./db";
-import { db } from "./db";
-import type { User } from "@/types";
 import { getProgramAnalytics, getRegionalAnalytics } from "./services/admin-analytics";
+import { getBearerToken, resolveSessionUser } from "./services/auth-session";
+import {
+  buildCalendar,
+  getCalendarEvent,
+  listCalendarEvents,
+  resolveCalendarFeedUser,
+} from "./services/calendar-feed";
+import { handleTelegramUpdate, type TelegramUpdate } from "./services/telegram-bot";
 
 const app = new Hono();
 
@@ -34,14 +40,12 @@ app.get("/debug/storage", async (c) => {
 });
 
 app.get("/admin/analytics", async (c) => {
-  const adminUserId = c.req.query("adminUserId");
   const seasonId = c.req.query("seasonId") || undefined;
-  if (!adminUserId) {
-    return c.json({ error: "adminUserId is required" }, 400);
+  const user = await resolveSessionUser(getBearerToken(c.req.header("authorization")));
+  if (!user) {
+    return c.json({ error: "Authentication required" }, 401);
   }
-
-  const user = await db.getById<User>("users", adminUserId);
-  if (!user || user.role !== "admin" || user.status !== "active") {
+  if (user.role !== "admin") {
     return c.json({ error: "Admin access required" }, 403);
   }
 
@@ -50,13 +54,11 @@ app.get("/admin/analytics", async (c) => {
 });
 
 app.get("/admin/analytics/regions", async (c) => {
-  const adminUserId = c.req.query("adminUserId");
-  if (!adminUserId) {
-    return c.json({ error: "adminUserId is required" }, 400);
+  const user = await resolveSessionUser(getBearerToken(c.req.header("authorization")));
+  if (!user) {
+    return c.json({ error: "Authentication required" }, 401);
   }
-
-  const user = await db.getById<User>("users", adminUserId);
-  if (!user || user.role !== "admin" || user.status !== "active") {
+  if (user.role !== "admin") {
     return c.json({ error: "Admin access required" }, 403);
   }
 
@@ -64,4 +66,67 @@ app.get("/admin/analytics/regions", async (c) => {
   return c.json(data);
 });
 
+function calendarResponse(body: string, filename: string): Response {
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": `inline; filename="${filename}"`,
+      "Cache-Control": "private, max-age=300",
+    },
+  });
+}
+
+// Calendar apps can't send headers, so these routes authenticate with the feed token in the path.
+app.get("/calendar/:file", async (c) => {
+  const file = c.req.param("file");
+  if (!file.endsWith(".ics")) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const user = await resolveCalendarFeedUser(file.slice(0, -".ics".length));
+  if (!user) {
+    return c.json({ error: "Calendar feed not found" }, 404);
+  }
+
+  const events = await listCalendarEvents(user);
+  return calendarResponse(buildCalendar(events, "Ambassador Events"), "ambassador-events.ics");
+});
+
+app.get("/calendar/:token/events/:file", async (c) => {
+  const file = c.req.param("file");
+  if (!file.endsWith(".ics")) {
+    return c.json({ error: "Not found" }, 404);
+  }
+
+  const user = await resolveCalendarFeedUser(c.req.param("token"));
+  if (!user) {
+    return c.json({ error: "Calendar feed not found" }, 404);
+  }
+
+  const event = await getCalendarEvent(user, file.slice(0, -".ics".length));
+  if (!event) {
+    return c.json({ error: "Event not found" }, 404);
+  }
+  return calendarResponse(buildCalendar([event], event.title), `${event.id}.ics`);
+});
+
+// Telegram signs webhook calls with the secret_token given to setWebhook.
+app.post("/telegram/webhook", async (c) => {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || !process.env.TELEGRAM_BOT_TOKEN) {
+    return c.json({ error: "Telegram bot is not configured" }, 404);
+  }
+  if (c.req.header("x-telegram-bot-api-secret-token") !== secret) {
+    return c.json({ error: "Invalid webhook secret" }, 401);
+  }
+
+  try {
+    await handleTelegramUpdate(await c.req.json<TelegramUpdate>());
+  } catch (error) {
+    // Telegram retries non-2xx responses, so a bad update is logged and acknowledged.
+    console.log("[TelegramBot] Update failed:", error instanceof Error ? error.message : String(error));
+  }
+  return c.json({ ok: true });
+});
+
 export default app;
@@ -1,6 +1,8 @@
 import app from "./hono";
 import { startXMetricsScheduler } from "./services/x-metrics-tracker";
 import { startEventReminderScheduler } from "./services/event-reminder-scheduler";
+import { startPushReceiptChecker } from "./services/push-notifications";
+import { startTaskStatusScheduler } from "./services/task-status-scheduler";
 declare const Bun: { serve: (options: { port: number; fetch: typeof app.fetch }) => void };
 
 const port = Number(process.env.PORT || 3000);
@@ -8,6 +10,8 @@ const port = Number(process.env.PORT || 3000);
 console.log(`[Backend] Starting server on 0.0.0.0:${port}`);
 startXMetricsScheduler();
 startEventReminderScheduler();
+startPushReceiptChecker();
+startTaskStatusScheduler();
 
 Bun.serve({
   port,
@@ -1,6 +1,7 @@
 import { db } from "@/backend/db";
 import { computeEngagementScore, scoreBuckets } from "@/backend/services/performance";
 import { ensureActiveSeason, isSubmissionInSeason, isTaskInSeason, listSeasons } from "@/backend/services/season";
+import { buildReviewerThroughput } from "@/lib/submission-review";
 import type { AmbassadorPost, ExtraContentSubmission, Season, Submission, Task, User } from "@/types";
 
 const SUBMISSIONS_COLLECTION = "submissions";
@@ -69,7 +70,9 @@ function parseDateValue(value?: string): number {
   return Number.isNaN(ts) ? 0 : ts;
 }
 
-function buildCampaignResults(args: {
+export type CampaignResult = ReturnType<typeof buildCampaignResults>[number];
+
+export function buildCampaignResults(args: {
   seasonTasks: Task[];
   seasonSubmissions: Submission[];
 }): Array<{
@@ -465,6 +468,7 @@ export async function getProgramAnalytics(seasonId?: string) {
       taskCompletionRate,
     },
     campaigns,
+    reviewers: buildReviewerThroughput(seasonSubmissions, users),
   };
 }
 
@@ -0,0 +1,97 @@
+import { db } from "@/backend/db";
+import type { AuditAction, AuditChange, AuditEntry, AuditTargetType, User } from "@/types";
+
+const COLLECTION = "audit_logs";
+const MAX_VALUE_LENGTH = 500;
+// Secrets and bookkeeping fields are never copied into the log.
+const REDACTED_FIELDS = new Set(["password", "inviteCode", "sessionVersion"]);
+
+type AuditRecord = Record<string, unknown> | null | undefined;
+
+function toAuditValue(value: unknown): unknown {
+  if (typeof value === "string" && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, MAX_VALUE_LENGTH)}… (${value.length} chars)`;
+  }
+  return value === undefined ? null : value;
+}
+
+export function diffAuditRecords(before: AuditRecord, after: AuditRecord): AuditChange[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: AuditChange[] = [];
+
+  for (const field of [...keys].sort()) {
+    if (REDACTED_FIELDS.has(field)) continue;
+    const previous = before?.[field];
+    const next = after?.[field];
+    if (JSON.stringify(previous) === JSON.stringify(next)) continue;
+    changes.push({ field, before: toAuditValue(previous), after: toAuditValue(next) });
+  }
+
+  return changes;
+}
+
+/**
+ * Appends an audit entry for a privileged mutation. Entries are write-once: this module
+ * exposes no update or delete. A failed write is logged rather than thrown so the
+ * mutation that already happened is still reported to the caller.
+ */
+export async function recordAuditEntry(params: {
+  actor: Pick<User, "id" | "name" | "role">;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel?: string;
+  before?: AuditRecord;
+  after?: AuditRecord;
+}): Promise<AuditEntry | null> {
+  const createdAt = new Date().toISOString();
+  const entry: AuditEntry = {
+    id: `audit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    action: params.action,
+    actorId: params.actor.id,
+    actorName: params.actor.name,
+    actorRole: params.actor.role,
+    targetType: params.targetType,
+    targetId: params.targetId,
+    targetLabel: params.targetLabel,
+    changes: diffAuditRecords(params.before, params.after),
+    createdAt,
+  };
+
+  try {
+    await db.create<AuditEntry>(COLLECTION, entry);
+    console.log("[Audit]", entry.action, entry.targetType, entry.targetId, "by", entry.actorId);
+    return entry;
+  } catch (error) {
+    console.log("[Audit] Failed to record entry:", entry.action, entry.targetId, error);
+    return null;
+  }
+}
+
+export async function listAuditEntries(filters: {
+  action?: AuditAction;
+  actorId?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+} = {}): Promise<AuditEntry[]> {
+  const entries = await db.getCollection<AuditEntry>(COLLECTION);
+  const fromMs = filters.from ? new Date(filters.from).getTime() : null;
+  const toMs = filters.to ? new Date(filters.to).getTime() : null;
+
+  return entries
+    .filter((entry) => {
+      if (filters.action && entry.action !== filters.action) return false;
+      if (filters.actorId && entry.actorId !== filters.actorId) return false;
+      if (filters.targetType && entry.targetType !== filters.targetType) return false;
+      if (filters.targetId && entry.targetId !== filters.targetId) return false;
+      const createdMs = new Date(entry.createdAt).getTime();
+      if (fromMs !== null && createdMs < fromMs) return false;
+      if (toMs !== null && createdMs > toMs) return false;
+      return true;
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, filters.limit || 200);
+}
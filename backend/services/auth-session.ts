@@ -0,0 +1,104 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "@/backend/db";
+import type { User } from "@/types";
+
+const USERS_COLLECTION = "users";
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+type SessionPayload = {
+  sub: string;
+  sv: number;
+  iat: number;
+  exp: number;
+};
+
+let fallbackSecret: string | null = null;
+
+function getSessionSecret(): string {
+  const configured = process.env.SESSION_SECRET;
+  if (configured && configured.trim()) return configured.trim();
+
+  if (!fallbackSecret) {
+    // Without a configured secret, tokens only survive until the process restarts.
+    fallbackSecret = randomBytes(32).toString("hex");
+    console.log("[Session] SESSION_SECRET not set; using an ephemeral secret for this process");
+  }
+  return fallbackSecret;
+}
+
+function toBase64Url(value: Buffer | string): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", getSessionSecret()).update(encodedPayload).digest("base64url");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  if (left.length !== right.length) return false;
+  return timingSafeEqual(left, right);
+}
+
+export function issueSessionToken(user: Pick<User, "id" | "sessionVersion">): string {
+  const now = Date.now();
+  const payload: SessionPayload = {
+    sub: user.id,
+    sv: user.sessionVersion || 0,
+    iat: now,
+    exp: now + SESSION_TTL_MS,
+  };
+  const encodedPayload = toBase64Url(JSON.stringify(payload));
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+function verifySessionToken(token: string): SessionPayload | null {
+  const [encodedPayload, signature, ...rest] = token.split(".");
+  if (!encodedPayload || !signature || rest.length > 0) return null;
+  if (!safeEqual(sign(encodedPayload), signature)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString("utf8")) as SessionPayload;
+    if (typeof payload.sub !== "string" || typeof payload.sv !== "number" || typeof payload.exp !== "number") {
+      return null;
+    }
+    if (payload.exp <= Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function getBearerToken(authorizationHeader?: string | null): string | null {
+  if (!authorizationHeader) return null;
+  const match = authorizationHeader.trim().match(/^Bearer\s+(.+)$/i);
+  return match?.[1]?.trim() || null;
+}
+
+/**
+ * A remote getById throws for a deleted user and for an unreachable store alike. Only the
+ * failure path reads the whole collection, so a store outage still surfaces as an error
+ * instead of signing everyone out.
+ */
+async function findUser(userId: string): Promise<User | null> {
+  try {
+    return await db.getById<User>(USERS_COLLECTION, userId);
+  } catch {
+    const users = await db.getCollection<User>(USERS_COLLECTION);
+    return users.find((entry) => entry.id === userId) || null;
+  }
+}
+
+export async function resolveSessionUser(token: string | null): Promise<User | null> {
+  if (!token) return null;
+  const payload = verifySessionToken(token);
+  if (!payload) return null;
+
+  const user = await findUser(payload.sub);
+  if (!user || user.status !== "active") return null;
+
+  // Bumping sessionVersion (e.g. on password change) revokes every token issued before it.
+  if ((user.sessionVersion || 0) !== payload.sv) return null;
+  return user;
+}
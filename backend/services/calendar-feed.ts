@@ -0,0 +1,263 @@
+import { randomBytes } from "crypto";
+import { db } from "@/backend/db";
+import { getEventReminderOffsets } from "@/backend/services/event-reminder-scheduler";
+import {
+  getIanaTimeZone,
+  getNextEventOccurrence,
+  getTimeZoneTransitions,
+  getZoneOffsetMinutes,
+  zonedTimeToUtcMs,
+} from "@/lib/event-schedule";
+import type { CalendarFeed, Event, User } from "@/types";
+
+const FEEDS_COLLECTION = "calendar_feeds";
+const EVENTS_COLLECTION = "events";
+const USERS_COLLECTION = "users";
+const PRODUCT_ID = "-//FSL Ambassador OS//Events//EN";
+const UID_DOMAIN = "ambassador-os";
+const DEFAULT_DURATION = "PT1H";
+// Finished one-off events stay in the feed for a while so recent history is still visible.
+const PAST_EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_LINE_OCTETS = 75;
+// Zone definitions run this far past the later of now and an event's start, so open-ended
+// series keep the right offsets. Feeds are rebuilt on every fetch, so the window moves on.
+const TIMEZONE_YEARS_AHEAD = 5;
+
+async function findFeedByUser(userId: string): Promise<CalendarFeed | null> {
+  const feeds = await db.getCollection<CalendarFeed>(FEEDS_COLLECTION);
+  return feeds.find((feed) => feed.userId === userId) || null;
+}
+
+/**
+ * Returns the user's private feed token, creating one on first use. Rotating replaces the
+ * token, which stops every calendar app subscribed with the old URL.
+ */
+export async function getCalendarFeedToken(userId: string, rotate = false): Promise<string> {
+  const existing = await findFeedByUser(userId);
+  if (existing && !rotate) return existing.token;
+
+  const feed: CalendarFeed = {
+    id: userId,
+    userId,
+    token: randomBytes(24).toString("base64url"),
+    createdAt: new Date().toISOString(),
+  };
+  if (existing) {
+    await db.update<CalendarFeed>(FEEDS_COLLECTION, feed.id, feed);
+  } else {
+    await db.create<CalendarFeed>(FEEDS_COLLECTION, feed);
+  }
+  console.log("[CalendarFeed]", existing ? "Rotated" : "Created", "feed token for", userId);
+  return feed.token;
+}
+
+export async function resolveCalendarFeedUser(token: string): Promise<User | null> {
+  if (!token) return null;
+  const feeds = await db.getCollection<CalendarFeed>(FEEDS_COLLECTION);
+  const feed = feeds.find((item) => item.token === token);
+  if (!feed) return null;
+
+  const users = await db.getCollection<User>(USERS_COLLECTION);
+  const user = users.find((item) => item.id === feed.userId);
+  return user && user.status === "active" ? user : null;
+}
+
+function isVisibleToUser(event: Event, user: User): boolean {
+  if (user.role === "admin") return true;
+  return !event.region || event.region === user.region;
+}
+
+/** Events for a user's feed: their region plus global events, skipping long-finished ones. */
+export async function listCalendarEvents(user: User): Promise<Event[]> {
+  const events = await db.getCollection<Event>(EVENTS_COLLECTION);
+  const cutoffMs = Date.now() - PAST_EVENT_RETENTION_MS;
+  return events.filter((event) => isVisibleToUser(event, user) && getNextEventOccurrence(event, cutoffMs) !== null);
+}
+
+export async function getCalendarEvent(user: User, eventId: string): Promise<Event | null> {
+  const events = await db.getCollection<Event>(EVENTS_COLLECTION);
+  const event = events.find((item) => item.id === eventId);
+  return event && isVisibleToUser(event, user) ? event : null;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 caps content lines at 75 octets; longer lines continue after CRLF + space.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+// URI values are not text-escaped, so only well-formed http(s) links are written out.
+function toSafeUrl(link: string | undefined): string | null {
+  if (!link?.trim()) return null;
+  try {
+    const url = new URL(link.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function formatUtc(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function formatLocal(date: string, time: string): string {
+  const [hour = "00", minute = "00", second = "00"] = time.trim().split(":");
+  return `${date.replace(/-/g, "")}T${hour.padStart(2, "0")}${minute}${second}`;
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * A VTIMEZONE for a zone used with TZID, which RFC 5545 requires. Each offset change in
+ * the window becomes its own observance, starting from the offset in force on 1 January.
+ */
+function buildTimeZoneComponent(zone: string, fromYear: number, toYear: number): string[] {
+  const fromMs = Date.UTC(fromYear, 0, 1);
+  const initialOffset = getZoneOffsetMinutes(zone, fromMs);
+  const observances = [
+    { atMs: fromMs, offsetFrom: initialOffset, offsetTo: initialOffset },
+    ...getTimeZoneTransitions(zone, fromMs, Date.UTC(toYear + 1, 0, 1)),
+  ];
+
+  return [
+    "BEGIN:VTIMEZONE",
+    `TZID:${zone}`,
+    ...observances.flatMap(({ atMs, offsetFrom, offsetTo }) => {
+      const kind = offsetTo > offsetFrom ? "DAYLIGHT" : "STANDARD";
+      return [
+        `BEGIN:${kind}`,
+        // Onset in local time as it was just before the change.
+        `DTSTART:${formatUtc(atMs + offsetFrom * 60 * 1000).replace(/Z$/, "")}`,
+        `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(offsetTo)}`,
+        `END:${kind}`,
+      ];
+    }),
+    "END:VTIMEZONE",
+  ];
+}
+
+function buildTimeZoneComponents(events: Event[], stampMs: number): string[] {
+  const currentYear = new Date(stampMs).getUTCFullYear();
+  const years = new Map<string, { from: number; to: number }>();
+  for (const event of events) {
+    const zone = getIanaTimeZone(event.timezone);
+    const year = Number(event.date.slice(0, 4));
+    if (!zone || !Number.isInteger(year)) continue;
+    const to = Math.max(year, currentYear) + TIMEZONE_YEARS_AHEAD;
+    const existing = years.get(zone);
+    years.set(zone, existing ? { from: Math.min(existing.from, year), to: Math.max(existing.to, to) } : { from: year, to });
+  }
+  return [...years].flatMap(([zone, { from, to }]) => buildTimeZoneComponent(zone, from, to));
+}
+
+/**
+ * Start and exception dates. Events in a named zone keep local wall times with TZID, so
+ * recurring series follow DST in the subscriber's calendar; fixed offsets are sent as UTC.
+ */
+function buildDateLines(event: Event): string[] {
+  const zone = getIanaTimeZone(event.timezone);
+  const lines: string[] = [];
+  const toUtc = (date: string) => zonedTimeToUtcMs(date, event.time, event.timezone);
+
+  if (zone) {
+    lines.push(`DTSTART;TZID=${zone}:${formatLocal(event.date, event.time)}`);
+  } else {
+    const startMs = toUtc(event.date);
+    if (startMs === null) return [];
+    lines.push(`DTSTART:${formatUtc(startMs)}`);
+  }
+  lines.push(`DURATION:${DEFAULT_DURATION}`);
+
+  const recurrence = event.recurrence;
+  if (!recurrence) return lines;
+
+  const rule = [
+    recurrence.frequency === "monthly" ? "FREQ=MONTHLY" : "FREQ=WEEKLY",
+    recurrence.frequency === "biweekly" ? "INTERVAL=2" : null,
+    recurrence.count ? `COUNT=${recurrence.count}` : null,
+    recurrence.until && !recurrence.count ? `UNTIL=${formatUtc(toUtc(recurrence.until) ?? 0)}` : null,
+  ].filter(Boolean);
+  lines.push(`RRULE:${rule.join(";")}`);
+
+  for (const exception of recurrence.exceptions || []) {
+    if (zone) {
+      lines.push(`EXDATE;TZID=${zone}:${formatLocal(exception, event.time)}`);
+    } else {
+      const exceptionMs = toUtc(exception);
+      if (exceptionMs !== null) lines.push(`EXDATE:${formatUtc(exceptionMs)}`);
+    }
+  }
+  return lines;
+}
+
+function buildEventComponent(event: Event, stampMs: number): string[] {
+  const dateLines = buildDateLines(event);
+  if (dateLines.length === 0) return [];
+
+  const url = toSafeUrl(event.link);
+  const description = [event.description, event.link ? `Join: ${event.link}` : ""].filter(Boolean).join("\n\n");
+  const alarms = getEventReminderOffsets(event).flatMap((offsetMinutes) => [
+    "BEGIN:VALARM",
+    "ACTION:DISPLAY",
+    `DESCRIPTION:${escapeText(event.title)}`,
+    `TRIGGER:-PT${offsetMinutes}M`,
+    "END:VALARM",
+  ]);
+
+  return [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(stampMs)}`,
+    ...dateLines,
+    `SUMMARY:${escapeText(event.title)}`,
+    description ? `DESCRIPTION:${escapeText(description)}` : null,
+    event.location ? `LOCATION:${escapeText(event.location)}` : null,
+    url ? `URL:${url}` : null,
+    ...alarms,
+    "END:VEVENT",
+  ].filter((line): line is string => line !== null);
+}
+
+export function buildCalendar(events: Event[], calendarName: string): string {
+  const stampMs = Date.now();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...buildTimeZoneComponents(events, stampMs),
+    ...events.flatMap((event) => buildEventComponent(event, stampMs)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,302 @@
+import { db } from "@/backend/db";
+import { buildCampaignResults, type CampaignResult } from "@/backend/services/admin-analytics";
+import { campaigns as initialCampaigns } from "@/mocks/data";
+import type { Campaign, CampaignGoals, Platform, Submission, Task, TaskStatus, User } from "@/types";
+
+const CAMPAIGNS_COLLECTION = "campaigns";
+const TASKS_COLLECTION = "tasks";
+const SUBMISSIONS_COLLECTION = "submissions";
+const USERS_COLLECTION = "users";
+const ENABLE_DEFAULT_SEEDING = (process.env.ENABLE_DEFAULT_SEEDING || "false") === "true";
+const TOP_CONTRIBUTOR_LIMIT = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CampaignInput = {
+  title: string;
+  description?: string;
+  thumbnail?: string;
+  startDate: string;
+  endDate: string;
+  platforms: Platform[];
+  budget?: number | null;
+  goals?: CampaignGoals | null;
+};
+
+export type CampaignContributor = {
+  userId: string;
+  name: string;
+  avatar: string;
+  region: string;
+  submissions: number;
+  approvedSubmissions: number;
+  impressions: number;
+};
+
+export type CampaignDashboard = {
+  campaign: Campaign;
+  results: CampaignResult;
+  tasks: (Pick<Task, "id" | "title" | "status" | "deadline" | "points"> & { submissions: number; approvedSubmissions: number })[];
+  topContributors: CampaignContributor[];
+  contributorCount: number;
+};
+
+let initPromise: Promise<void> | null = null;
+
+// Seeded alongside the mock tasks, which point at the mock campaign ids.
+async function ensureInitialized(): Promise<void> {
+  const stored = await db.getCollection<Campaign>(CAMPAIGNS_COLLECTION);
+  if (stored.length === 0 && ENABLE_DEFAULT_SEEDING) {
+    console.log("[Campaigns] No campaigns in DB, initializing with defaults");
+    for (const campaign of initialCampaigns) {
+      await db.create(CAMPAIGNS_COLLECTION, campaign);
+    }
+  }
+}
+
+async function getStoredCampaigns(): Promise<Campaign[]> {
+  if (!initPromise) {
+    initPromise = ensureInitialized();
+  }
+  await initPromise;
+  return db.getCollection<Campaign>(CAMPAIGNS_COLLECTION);
+}
+
+function parseDay(value: string, endOfDay: boolean): number {
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) return NaN;
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && endOfDay ? parsed + DAY_MS - 1 : parsed;
+}
+
+function getCampaignStatus(campaign: Pick<Campaign, "startDate" | "endDate">, nowMs = Date.now()): TaskStatus {
+  if (parseDay(campaign.startDate, false) > nowMs) return "upcoming";
+  if (parseDay(campaign.endDate, true) < nowMs) return "completed";
+  return "active";
+}
+
+function withDerivedFields(campaign: Campaign, tasks: Task[]): Campaign {
+  const campaignTasks = tasks.filter((task) => task.campaignId === campaign.id);
+  return {
+    ...campaign,
+    status: getCampaignStatus(campaign),
+    totalTasks: campaignTasks.length,
+    completedTasks: campaignTasks.filter((task) => task.status === "completed").length,
+  };
+}
+
+function validateCampaignInput(input: CampaignInput): void {
+  if (!input.title.trim()) {
+    throw new Error("Campaign title is required");
+  }
+  const startMs = parseDay(input.startDate, false);
+  const endMs = parseDay(input.endDate, true);
+  if (Number.isNaN(startMs) || Number.isNaN(endMs)) {
+    throw new Error("Start and end dates must be valid dates");
+  }
+  if (endMs < startMs) {
+    throw new Error("The end date must be after the start date");
+  }
+}
+
+function normalizeGoals(goals?: CampaignGoals | null): CampaignGoals | undefined {
+  if (!goals) return undefined;
+  const normalized: CampaignGoals = {};
+  if (goals.submissions) normalized.submissions = goals.submissions;
+  if (goals.impressions) normalized.impressions = goals.impressions;
+  if (goals.contributors) normalized.contributors = goals.contributors;
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/** Newest start date first. Archived campaigns are left out unless asked for. */
+export async function listCampaigns(options: { includeArchived?: boolean } = {}): Promise<Campaign[]> {
+  const [campaigns, tasks] = await Promise.all([getStoredCampaigns(), db.getCollection<Task>(TASKS_COLLECTION)]);
+  return campaigns
+    .filter((campaign) => options.includeArchived || !campaign.archivedAt)
+    .map((campaign) => withDerivedFields(campaign, tasks))
+    .sort((a, b) => b.startDate.localeCompare(a.startDate) || a.title.localeCompare(b.title));
+}
+
+export async function getCampaign(id: string): Promise<Campaign | null> {
+  const campaigns = await getStoredCampaigns();
+  return campaigns.find((campaign) => campaign.id === id) || null;
+}
+
+export async function createCampaign(input: CampaignInput): Promise<Campaign> {
+  validateCampaignInput(input);
+  const now = new Date().toISOString();
+  const campaign: Campaign = {
+    id: `camp-${Date.now()}`,
+    title: input.title.trim(),
+    description: input.description?.trim() || "",
+    thumbnail: input.thumbnail?.trim() || "",
+    startDate: input.startDate,
+    endDate: input.endDate,
+    status: getCampaignStatus(input),
+    platforms: input.platforms,
+    totalTasks: 0,
+    completedTasks: 0,
+    budget: input.budget ?? undefined,
+    goals: normalizeGoals(input.goals),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await getStoredCampaigns();
+  await db.create<Campaign>(CAMPAIGNS_COLLECTION, campaign);
+  return campaign;
+}
+
+/**
+ * Updates a campaign. A new title is copied onto its tasks, which keep the title for
+ * display and for grouping in program analytics.
+ */
+export async function updateCampaign(
+  id: string,
+  input: Partial<CampaignInput>
+): Promise<{ before: Campaign; campaign: Campaign }> {
+  const existing = await getCampaign(id);
+  if (!existing) {
+    throw new Error("Campaign not found");
+  }
+
+  const merged: CampaignInput = {
+    title: input.title ?? existing.title,
+    description: input.description ?? existing.description,
+    thumbnail: input.thumbnail ?? existing.thumbnail,
+    startDate: input.startDate ?? existing.startDate,
+    endDate: input.endDate ?? existing.endDate,
+    platforms: input.platforms ?? existing.platforms,
+    budget: input.budget === undefined ? existing.budget : input.budget,
+    goals: input.goals === undefined ? existing.goals : input.goals,
+  };
+  validateCampaignInput(merged);
+
+  const campaign: Campaign = {
+    ...existing,
+    ...merged,
+    title: merged.title.trim(),
+    description: merged.description?.trim() || "",
+    thumbnail: merged.thumbnail?.trim() || "",
+    status: getCampaignStatus(merged),
+    budget: merged.budget ?? undefined,
+    goals: normalizeGoals(merged.goals),
+    updatedAt: new Date().toISOString(),
+  };
+  await db.update<Campaign>(CAMPAIGNS_COLLECTION, id, campaign);
+
+  if (campaign.title !== existing.title) {
+    const tasks = await db.getCollection<Task>(TASKS_COLLECTION);
+    for (const task of tasks.filter((item) => item.campaignId === id)) {
+      await db.update<Task>(TASKS_COLLECTION, task.id, { campaignTitle: campaign.title });
+    }
+  }
+
+  return { before: existing, campaign };
+}
+
+/** Archived campaigns drop out of lists and cannot take new tasks; their tasks are kept. */
+export async function setCampaignArchived(
+  id: string,
+  archived: boolean
+): Promise<{ before: Campaign; campaign: Campaign }> {
+  const existing = await getCampaign(id);
+  if (!existing) {
+    throw new Error("Campaign not found");
+  }
+  const now = new Date().toISOString();
+  const campaign: Campaign = { ...existing, archivedAt: archived ? existing.archivedAt || now : undefined, updatedAt: now };
+  await db.update<Campaign>(CAMPAIGNS_COLLECTION, id, campaign);
+  return { before: existing, campaign };
+}
+
+/** The campaign a task should link to; archived campaigns cannot take new tasks. */
+export async function resolveTaskCampaign(campaignId: string): Promise<Campaign> {
+  const campaign = await getCampaign(campaignId);
+  if (!campaign) {
+    throw new Error("Campaign not found");
+  }
+  if (campaign.archivedAt) {
+    throw new Error("This campaign is archived");
+  }
+  return campaign;
+}
+
+/** Task, submission, reach and contributor results for one campaign across all seasons. */
+export async function getCampaignDashboard(id: string): Promise<CampaignDashboard> {
+  const [campaign, tasks, submissions, users] = await Promise.all([
+    getCampaign(id),
+    db.getCollection<Task>(TASKS_COLLECTION),
+    db.getCollection<Submission>(SUBMISSIONS_COLLECTION),
+    db.getCollection<User>(USERS_COLLECTION),
+  ]);
+  if (!campaign) {
+    throw new Error("Campaign not found");
+  }
+
+  // One title across the tasks keeps buildCampaignResults from splitting renamed campaigns.
+  const campaignTasks = tasks
+    .filter((task) => task.campaignId === id)
+    .map((task) => ({ ...task, campaignTitle: campaign.title }));
+  const taskIds = new Set(campaignTasks.map((task) => task.id));
+  const campaignSubmissions = submissions.filter((submission) => taskIds.has(submission.taskId));
+
+  const results: CampaignResult = buildCampaignResults({
+    seasonTasks: campaignTasks,
+    seasonSubmissions: campaignSubmissions,
+  })[0] || {
+    campaignId: id,
+    campaignTitle: campaign.title,
+    tasks: 0,
+    submissions: 0,
+    approvedSubmissions: 0,
+    approvalRate: 0,
+    completionRate: null,
+    averageScore: 0,
+    totalImpressions: 0,
+    averageImpressions: 0,
+    submissionsPerPlatform: {},
+  };
+
+  const usersById = new Map(users.map((user) => [user.id, user]));
+  const contributors = new Map<string, CampaignContributor>();
+  for (const submission of campaignSubmissions) {
+    const user = usersById.get(submission.userId);
+    const entry = contributors.get(submission.userId) || {
+      userId: submission.userId,
+      name: user?.name || "Unknown",
+      avatar: user?.avatar || "",
+      region: user?.region || "Unknown",
+      submissions: 0,
+      approvedSubmissions: 0,
+      impressions: 0,
+    };
+    entry.submissions += 1;
+    if (submission.status === "approved") {
+      entry.approvedSubmissions += 1;
+      entry.impressions += submission.metrics?.impressions || 0;
+    }
+    contributors.set(submission.userId, entry);
+  }
+  const approvedContributors = [...contributors.values()].filter((entry) => entry.approvedSubmissions > 0);
+
+  return {
+    campaign: withDerivedFields(campaign, tasks),
+    results,
+    tasks: campaignTasks
+      .map((task) => {
+        const taskSubmissions = campaignSubmissions.filter((submission) => submission.taskId === task.id);
+        return {
+          id: task.id,
+          title: task.title,
+          status: task.status,
+          deadline: task.deadline,
+          points: task.points,
+          submissions: taskSubmissions.length,
+          approvedSubmissions: taskSubmissions.filter((submission) => submission.status === "approved").length,
+        };
+      })
+      .sort((a, b) => b.deadline.localeCompare(a.deadline)),
+    topContributors: approvedContributors
+      .sort((a, b) => b.impressions - a.impressions || b.approvedSubmissions - a.approvedSubmissions)
+      .slice(0, TOP_CONTRIBUTOR_LIMIT),
+    contributorCount: approvedContributors.length,
+  };
+}
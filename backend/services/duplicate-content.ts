@@ -0,0 +1,119 @@
+import { db } from "@/backend/db";
+import { canonicalizePostUrl, normalizePlatform, parseMultiLinks } from "@/backend/services/performance";
+import type { ExtraContentSubmission, Platform, Submission, SubmissionDuplicateRef, Task } from "@/types";
+
+const SUBMISSIONS_COLLECTION = "submissions";
+const EXTRA_CONTENT_COLLECTION = "extra_content_submissions";
+const TASKS_COLLECTION = "tasks";
+
+export type PostReuse = {
+  earlier: SubmissionDuplicateRef;
+  sameUser: boolean;
+  authorVerified: boolean; // The earlier poster was shown to have written the post
+};
+
+function getSubmissionLinks(submission: Submission): { platform: Platform; url: string }[] {
+  return parseMultiLinks(
+    normalizePlatform(submission.platform),
+    submission.postUrl,
+    submission.platforms,
+    submission.links
+  );
+}
+
+function getReferenceKey(task: Pick<Task, "requiredReferenceTweetUrl"> | null | undefined): string | null {
+  return task?.requiredReferenceTweetUrl ? canonicalizePostUrl("twitter", task.requiredReferenceTweetUrl) : null;
+}
+
+/**
+ * The earliest submission or extra content that already uses one of `links`, comparing
+ * canonical URLs. Another ambassador's verified post wins over an unverified one, and both
+ * win over the user's own, since that is the order callers block or flag in. Rejected
+ * submissions and a task's reference tweet, which is shared by design, never count.
+ */
+export async function findPostReuse(params: {
+  userId: string;
+  links: { platform: Platform; url: string }[];
+  task?: Pick<Task, "requiredReferenceTweetUrl"> | null;
+  excludeSubmissionId?: string;
+}): Promise<PostReuse | null> {
+  const ownReferenceKey = getReferenceKey(params.task);
+  const keys = new Set(
+    params.links
+      .map((link) => canonicalizePostUrl(link.platform, link.url))
+      .filter((key) => key && key !== ownReferenceKey)
+  );
+  if (keys.size === 0) return null;
+
+  const [submissions, extraContent, tasks] = await Promise.all([
+    db.getCollection<Submission>(SUBMISSIONS_COLLECTION),
+    db.getCollection<ExtraContentSubmission>(EXTRA_CONTENT_COLLECTION),
+    db.getCollection<Task>(TASKS_COLLECTION),
+  ]);
+  const referenceKeyByTask = new Map(tasks.map((task) => [task.id, getReferenceKey(task)]));
+
+  const matches: PostReuse[] = [];
+  for (const submission of submissions) {
+    if (submission.id === params.excludeSubmissionId || submission.status === "rejected") continue;
+    const referenceKey = referenceKeyByTask.get(submission.taskId);
+    const link = getSubmissionLinks(submission).find((entry) => {
+      const key = canonicalizePostUrl(entry.platform, entry.url);
+      return key !== referenceKey && keys.has(key);
+    });
+    if (!link) continue;
+    matches.push({
+      earlier: {
+        source: "submission",
+        id: submission.id,
+        userId: submission.userId,
+        url: link.url,
+        taskTitle: submission.taskTitle,
+        submittedAt: submission.submittedAt,
+      },
+      sameUser: submission.userId === params.userId,
+      authorVerified: Boolean(submission.prechecks?.checks.some((check) => check.key === "author" && check.passed)),
+    });
+  }
+  for (const item of extraContent) {
+    if (!keys.has(canonicalizePostUrl("twitter", item.canonicalUrl))) continue;
+    matches.push({
+      earlier: {
+        source: "extra_content",
+        id: item.id,
+        userId: item.userId,
+        url: item.postUrl,
+        submittedAt: item.submittedAt,
+      },
+      sameUser: item.userId === params.userId,
+      // Extra content is only accepted from the ambassador's own X account.
+      authorVerified: true,
+    });
+  }
+
+  const rank = (match: PostReuse) => (match.sameUser ? 2 : match.authorVerified ? 0 : 1);
+  matches.sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      Date.parse(a.earlier.submittedAt || "") - Date.parse(b.earlier.submittedAt || "")
+  );
+  return matches[0] || null;
+}
+
+/**
+ * Checks a task submission's links for reuse. A post another ambassador was verified to
+ * have written is rejected. Any other earlier use is returned for reviewers to compare,
+ * since an unverified earlier copy may itself be the stolen one.
+ */
+export async function checkSubmissionReuse(params: {
+  userId: string;
+  links: { platform: Platform; url: string }[];
+  task: Pick<Task, "requiredReferenceTweetUrl"> | null;
+  excludeSubmissionId?: string;
+}): Promise<SubmissionDuplicateRef | undefined> {
+  const reuse = await findPostReuse(params);
+  if (!reuse) return undefined;
+  if (!reuse.sameUser && reuse.authorVerified) {
+    throw new Error("This post has already been submitted by another ambassador");
+  }
+  return reuse.earlier;
+}
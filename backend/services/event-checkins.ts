@@ -0,0 +1,147 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "@/backend/db";
+import { ensureActiveSeason } from "@/backend/services/season";
+import type { Event, EventCheckIn, EventCheckInSession } from "@/types";
+
+const SESSIONS_COLLECTION = "event_checkin_sessions";
+const CHECKINS_COLLECTION = "event_checkins";
+const CODE_ROTATION_MS = 60 * 1000;
+const CODE_LENGTH = 6;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function checkInId(eventId: string, userId: string): string {
+  return `${eventId}:${userId}`;
+}
+
+function codeForWindow(secret: string, window: number): string {
+  const digest = createHmac("sha256", secret).update(String(window)).digest();
+  let code = "";
+  for (let i = 0; i < CODE_LENGTH; i += 1) {
+    code += CODE_ALPHABET[digest[i] % CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+function codesMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The remote store errors on missing ids, so look sessions up through the collection.
+async function findSession(eventId: string): Promise<EventCheckInSession | null> {
+  const sessions = await db.getCollection<EventCheckInSession>(SESSIONS_COLLECTION);
+  return sessions.find((session) => session.id === eventId) || null;
+}
+
+function isOpen(session: EventCheckInSession | null): session is EventCheckInSession {
+  return Boolean(session && !session.closedAt);
+}
+
+/** Opens check-in for an event, or reopens it with a fresh secret so old codes stop working. */
+export async function openCheckInSession(eventId: string, openedBy: string): Promise<EventCheckInSession> {
+  const existing = await findSession(eventId);
+  const session: EventCheckInSession = {
+    id: eventId,
+    eventId,
+    secret: randomBytes(32).toString("hex"),
+    openedBy,
+    openedAt: new Date().toISOString(),
+    closedAt: undefined,
+  };
+  if (existing) {
+    await db.update<EventCheckInSession>(SESSIONS_COLLECTION, eventId, session);
+  } else {
+    await db.create<EventCheckInSession>(SESSIONS_COLLECTION, session);
+  }
+  console.log("[EventCheckIns] Opened check-in:", eventId, "by", openedBy);
+  return session;
+}
+
+export async function closeCheckInSession(eventId: string): Promise<void> {
+  const existing = await findSession(eventId);
+  if (!isOpen(existing)) return;
+  await db.update<EventCheckInSession>(SESSIONS_COLLECTION, eventId, { closedAt: new Date().toISOString() });
+  console.log("[EventCheckIns] Closed check-in:", eventId);
+}
+
+/**
+ * Returns the code to display at the venue. Codes rotate every minute so a code
+ * shared off-site is only useful briefly; returns null while check-in is closed.
+ */
+export async function getCurrentCheckInCode(eventId: string): Promise<{ code: string; expiresAt: string } | null> {
+  const session = await findSession(eventId);
+  if (!isOpen(session)) return null;
+  const window = Math.floor(Date.now() / CODE_ROTATION_MS);
+  return {
+    code: codeForWindow(session.secret, window),
+    expiresAt: new Date((window + 1) * CODE_ROTATION_MS).toISOString(),
+  };
+}
+
+export async function listEventCheckIns(filters: { eventId?: string; userId?: string } = {}): Promise<EventCheckIn[]> {
+  const checkIns = await db.getCollection<EventCheckIn>(CHECKINS_COLLECTION);
+  return checkIns.filter((checkIn) => {
+    if (filters.eventId && checkIn.eventId !== filters.eventId) return false;
+    if (filters.userId && checkIn.userId !== filters.userId) return false;
+    return true;
+  });
+}
+
+/**
+ * Records a user's attendance if the code matches the current or previous rotation
+ * window, which covers a code that turned over while it was being typed. Checking in
+ * twice returns the original record without awarding points again.
+ */
+export async function checkInToEvent(
+  event: Event,
+  userId: string,
+  code: string
+): Promise<{ checkIn: EventCheckIn; created: boolean }> {
+  const session = await findSession(event.id);
+  if (!isOpen(session)) {
+    throw new Error("Check-in is not open for this event");
+  }
+
+  const existing = (await listEventCheckIns({ eventId: event.id, userId }))[0];
+  if (existing) {
+    return { checkIn: existing, created: false };
+  }
+
+  const normalized = code.trim().toUpperCase();
+  const window = Math.floor(Date.now() / CODE_ROTATION_MS);
+  const valid = [window, window - 1].some((w) => codesMatch(codeForWindow(session.secret, w), normalized));
+  if (!valid) {
+    throw new Error("Invalid or expired check-in code");
+  }
+
+  const season = await ensureActiveSeason();
+  const checkIn: EventCheckIn = {
+    id: checkInId(event.id, userId),
+    eventId: event.id,
+    userId,
+    seasonId: season.id,
+    checkedInAt: new Date().toISOString(),
+    pointsAwarded: Math.max(0, event.checkInPoints || 0),
+  };
+  await db.create<EventCheckIn>(CHECKINS_COLLECTION, checkIn);
+  return { checkIn, created: true };
+}
+
+/** Attendance points per user for one season, added to submission points in the ranking. */
+export async function getCheckInPointsByUser(seasonId: string): Promise<Map<string, number>> {
+  const checkIns = await db.getCollection<EventCheckIn>(CHECKINS_COLLECTION);
+  const points = new Map<string, number>();
+  for (const checkIn of checkIns) {
+    if (checkIn.seasonId !== seasonId || !checkIn.pointsAwarded) continue;
+    points.set(checkIn.userId, (points.get(checkIn.userId) || 0) + checkIn.pointsAwarded);
+  }
+  return points;
+}
+
+export function withCheckInState(event: Event, checkIns: EventCheckIn[], viewerId: string): Event {
+  return {
+    ...event,
+    isCheckedIn: checkIns.some((checkIn) => checkIn.eventId === event.id && checkIn.userId === viewerId),
+  };
+}
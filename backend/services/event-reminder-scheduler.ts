@@ -1,15 +1,25 @@
 import { db } from "@/backend/db";
-import { sendOnlineEventReminder } from "@/backend/services/telegram-notifications";
-import type { Event } from "@/types";
+import { listEventRsvps } from "@/backend/services/event-rsvps";
+import { notifyUsers } from "@/backend/services/notifications";
+import { sendEventReminder } from "@/backend/services/telegram-notifications";
+import { getEventOccurrences } from "@/lib/event-schedule";
+import type { Event, EventReminderJob, EventReminderStatus } from "@/types";
 
 const EVENTS_COLLECTION = "events";
-const REMINDER_LOG_COLLECTION = "event_reminder_logs";
-const SCHEDULE_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
-const TARGET_LEAD_MS = 60 * 60 * 1000;
-const LATE_GRACE_MS = 5 * 60 * 1000;
-const SCHEDULE_LOOKAHEAD_MS = 25 * 60 * 60 * 1000;
-
-type ReminderLog = {
+const REMINDER_JOBS_COLLECTION = "event_reminder_logs";
+export const EVENT_REMINDER_LEAD_MS = 60 * 60 * 1000;
+export const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+const DEFAULT_REMINDER_OFFSETS = [EVENT_REMINDER_LEAD_MS / 60000];
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000;
+// Far enough ahead that a 7-day reminder is planned before it is due.
+const PLANNING_HORIZON_MS = MAX_REMINDER_OFFSET_MINUTES * 60 * 1000 + 2 * RECONCILE_INTERVAL_MS;
+// Reminders overdue by more than this (for example after downtime) are marked missed, not sent late.
+const LATE_GRACE_MS = 15 * 60 * 1000;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2 * 60 * 1000;
+
+// Rows written before reminders became jobs only recorded a sent 1-hour reminder.
+type LegacyReminderLog = {
   id: string;
   eventId: string;
   eventDate: string;
@@ -17,161 +27,304 @@ type ReminderLog = {
   sentAt: string;
 };
 
-let scheduleSyncTimer: ReturnType<typeof setInterval> | null = null;
-const scheduledReminderTimers = new Map<string, ReturnType<typeof setTimeout>>();
-
-function parseTimeParts(raw: string): { hour: number; minute: number; second: number } | null {
-  const match = raw.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
-  if (!match) return null;
+type PlannedReminder = {
+  event: Event;
+  eventDate: string;
+  offsetMinutes: number;
+  startsAtMs: number;
+  sendAtMs: number;
+};
 
-  const hour = Number(match[1]);
-  const minute = Number(match[2]);
-  const second = Number(match[3] || 0);
-  if (hour < 0 || hour > 23 || minute < 0 || minute > 59 || second < 0 || second > 59) return null;
-  return { hour, minute, second };
+let reconcileTimer: ReturnType<typeof setInterval> | null = null;
+let reconcileRunning: Promise<void> | null = null;
+let reconcileQueued = false;
+const dueTimers = new Map<string, { timer: ReturnType<typeof setTimeout>; fireAtMs: number }>();
+// Jobs being delivered right now. They stay "scheduled" until the send finishes, so
+// reconcile passes must leave them alone or they would be armed and sent twice.
+const sendingJobs = new Set<string>();
+
+/** Minutes before start at which an event is reminded, largest first. */
+export function getEventReminderOffsets(event: Pick<Event, "reminderOffsets">): number[] {
+  const offsets = event.reminderOffsets ?? DEFAULT_REMINDER_OFFSETS;
+  return [...new Set(offsets)]
+    .filter((offset) => Number.isInteger(offset) && offset > 0 && offset <= MAX_REMINDER_OFFSET_MINUTES)
+    .sort((a, b) => b - a);
 }
 
-function parseUtcOffsetMinutes(timezone: string): number | null {
-  const raw = timezone.trim().toUpperCase();
-  if (!raw) return null;
-  if (raw === "UTC" || raw === "GMT") return 0;
+// Online reminders exist to share the join link, so online events without one are skipped.
+function isRemindable(event: Event): boolean {
+  return event.type === "irl" || Boolean(event.link?.trim());
+}
 
-  const match = raw.match(/^(?:UTC|GMT)\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?$/);
-  if (!match) return null;
+function getJobKey(eventId: string, eventDate: string, eventTime: string, offsetMinutes: number): string {
+  return `${eventId}|${eventDate}|${eventTime}|${offsetMinutes}`;
+}
 
-  const sign = match[1] === "-" ? -1 : 1;
-  const hours = Number(match[2]);
-  const minutes = Number(match[3] || 0);
-  if (hours > 14 || minutes > 59) return null;
-  return sign * (hours * 60 + minutes);
+function getJobId(plan: PlannedReminder): string {
+  return `event-reminder-${plan.event.id}-${plan.eventDate}-${plan.event.time}-${plan.offsetMinutes}m`;
 }
 
-function getEventStartMs(event: Event): number | null {
-  const dateMatch = event.date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
-  const timeParts = parseTimeParts(event.time || "00:00");
-  if (!dateMatch || !timeParts) {
-    const fallback = Date.parse(`${event.date}T${event.time}`);
-    return Number.isNaN(fallback) ? null : fallback;
-  }
+function normalizeJob(row: EventReminderJob | LegacyReminderLog): EventReminderJob {
+  if ("status" in row) return row;
+  return {
+    ...row,
+    eventTitle: "",
+    offsetMinutes: EVENT_REMINDER_LEAD_MS / 60000,
+    startsAt: "",
+    sendAt: row.sentAt,
+    status: "sent",
+    attempts: 1,
+    createdAt: row.sentAt,
+    updatedAt: row.sentAt,
+  };
+}
 
-  const year = Number(dateMatch[1]);
-  const month = Number(dateMatch[2]);
-  const day = Number(dateMatch[3]);
-  const offsetMinutes = parseUtcOffsetMinutes(event.timezone || "UTC");
-  const utcBase = Date.UTC(year, month - 1, day, timeParts.hour, timeParts.minute, timeParts.second);
+async function listJobs(): Promise<EventReminderJob[]> {
+  const rows = await db.getCollection<EventReminderJob | LegacyReminderLog>(REMINDER_JOBS_COLLECTION);
+  return rows.map(normalizeJob);
+}
 
-  if (offsetMinutes === null) {
-    const fallback = Date.parse(`${event.date}T${event.time}`);
-    return Number.isNaN(fallback) ? utcBase : fallback;
+function planReminders(events: Event[], nowMs: number): Map<string, PlannedReminder> {
+  const planned = new Map<string, PlannedReminder>();
+  for (const event of events) {
+    if (!isRemindable(event)) continue;
+    const offsets = getEventReminderOffsets(event);
+    if (offsets.length === 0) continue;
+
+    for (const occurrence of getEventOccurrences(event, nowMs, nowMs + PLANNING_HORIZON_MS)) {
+      for (const offsetMinutes of offsets) {
+        const sendAtMs = occurrence.startMs - offsetMinutes * 60 * 1000;
+        if (sendAtMs < nowMs - LATE_GRACE_MS) continue;
+        planned.set(getJobKey(event.id, occurrence.date, event.time, offsetMinutes), {
+          event,
+          eventDate: occurrence.date,
+          offsetMinutes,
+          startsAtMs: occurrence.startMs,
+          sendAtMs,
+        });
+      }
+    }
   }
-
-  return utcBase - (offsetMinutes * 60 * 1000);
+  return planned;
 }
 
-function getReminderLogId(event: Event): string {
-  return `event-reminder-${event.id}-${event.date}-${event.time}`;
+async function setJobStatus(job: EventReminderJob, status: EventReminderStatus, extra: Partial<EventReminderJob> = {}) {
+  const updated: EventReminderJob = { ...job, ...extra, status, updatedAt: new Date().toISOString() };
+  await db.update<EventReminderJob>(REMINDER_JOBS_COLLECTION, job.id, updated);
+  return updated;
 }
 
-async function sendAndLogReminder(event: Event): Promise<void> {
-  const logId = getReminderLogId(event);
-  const existing = await db.getById<ReminderLog>(REMINDER_LOG_COLLECTION, logId);
-  if (existing) return;
+function clearDueTimer(jobId: string) {
+  const scheduled = dueTimers.get(jobId);
+  if (!scheduled) return;
+  clearTimeout(scheduled.timer);
+  dueTimers.delete(jobId);
+}
 
-  const result = await sendOnlineEventReminder(event);
-  if (!result.sent) {
-    console.log("[Events] Telegram reminder failed:", event.id, result.reason);
+function armDueTimer(job: EventReminderJob, nowMs: number) {
+  if (sendingJobs.has(job.id)) return;
+  const fireAtMs = new Date(job.nextAttemptAt || job.sendAt).getTime();
+  if (fireAtMs - nowMs > RECONCILE_INTERVAL_MS) {
+    clearDueTimer(job.id);
     return;
   }
+  if (dueTimers.get(job.id)?.fireAtMs === fireAtMs) return;
 
-  await db.create<ReminderLog>(REMINDER_LOG_COLLECTION, {
-    id: logId,
-    eventId: event.id,
-    eventDate: event.date,
-    eventTime: event.time,
-    sentAt: new Date().toISOString(),
-  });
-
-  console.log("[Events] Telegram reminder sent:", event.id);
+  clearDueTimer(job.id);
+  const timer = setTimeout(() => {
+    dueTimers.delete(job.id);
+    void deliverReminder(job.id);
+  }, Math.max(0, fireAtMs - nowMs));
+  dueTimers.set(job.id, { timer, fireAtMs });
 }
 
-function clearScheduledReminder(key: string) {
-  const timer = scheduledReminderTimers.get(key);
-  if (!timer) return;
-  clearTimeout(timer);
-  scheduledReminderTimers.delete(key);
+async function notifyEventAttendees(event: Event, job: EventReminderJob): Promise<void> {
+  const attendees = (await listEventRsvps(event.id)).filter((rsvp) => rsvp.status === "going");
+  if (attendees.length === 0) return;
+  await notifyUsers(attendees.map((rsvp) => rsvp.userId), {
+    type: "event",
+    title: `${event.title} starts soon`,
+    body: `${job.eventDate} ${event.time} ${event.timezone}`,
+    link: "/(tabs)/events",
+  }, { push: true });
 }
 
-async function scheduleEventReminder(event: Event, nowMs: number): Promise<void> {
-  if (event.type !== "online") return;
-  if (!event.link || !event.link.trim()) return;
+/** Sends one due reminder and returns the job when it should be retried. */
+async function attemptReminder(jobId: string): Promise<EventReminderJob | null> {
+  try {
+    const job = (await listJobs()).find((item) => item.id === jobId);
+    if (!job || job.status !== "scheduled") return null;
 
-  const startMs = getEventStartMs(event);
-  if (!startMs) return;
+    const events = await db.getCollection<Event>(EVENTS_COLLECTION);
+    const event = events.find((item) => item.id === job.eventId);
+    if (!event) {
+      await setJobStatus(job, "cancelled");
+      return null;
+    }
+    if (Date.now() - new Date(job.sendAt).getTime() > LATE_GRACE_MS) {
+      await setJobStatus(job, "missed");
+      console.log("[EventReminders] Missed reminder:", job.id);
+      return null;
+    }
 
-  const sendAtMs = startMs - TARGET_LEAD_MS;
-  const key = getReminderLogId(event);
-  const existing = await db.getById<ReminderLog>(REMINDER_LOG_COLLECTION, key);
-  if (existing) {
-    clearScheduledReminder(key);
-    return;
-  }
+    // Attendees get the in-app reminder once, even when the channel post has to be retried.
+    if (job.attempts === 0) {
+      await notifyEventAttendees(event, job);
+    }
 
-  const delayMs = sendAtMs - nowMs;
-  const tooLate = nowMs - sendAtMs > LATE_GRACE_MS;
-  const tooFar = delayMs > SCHEDULE_LOOKAHEAD_MS;
+    const result = await sendEventReminder({ ...event, date: job.eventDate }, job.offsetMinutes);
+    const attempts = job.attempts + 1;
+    if (result.sent) {
+      await setJobStatus(job, "sent", { attempts, sentAt: new Date().toISOString(), nextAttemptAt: undefined, lastError: undefined });
+      console.log("[EventReminders] Sent reminder:", job.id);
+      return null;
+    }
 
-  if (tooLate || tooFar) {
-    clearScheduledReminder(key);
-    return;
+    console.log("[EventReminders] Reminder failed:", job.id, result.reason);
+    if (attempts >= MAX_SEND_ATTEMPTS) {
+      await setJobStatus(job, "failed", { attempts, lastError: result.reason, nextAttemptAt: undefined });
+      return null;
+    }
+    return await setJobStatus(job, "scheduled", {
+      attempts,
+      lastError: result.reason,
+      nextAttemptAt: new Date(Date.now() + RETRY_DELAY_MS).toISOString(),
+    });
+  } catch (error) {
+    console.log("[EventReminders] Delivery error:", jobId, error instanceof Error ? error.message : String(error));
+    return null;
   }
+}
 
-  if (delayMs <= 0) {
-    clearScheduledReminder(key);
-    await sendAndLogReminder(event);
-    return;
+async function deliverReminder(jobId: string): Promise<void> {
+  if (sendingJobs.has(jobId)) return;
+  sendingJobs.add(jobId);
+  let retry: EventReminderJob | null;
+  try {
+    retry = await attemptReminder(jobId);
+  } finally {
+    sendingJobs.delete(jobId);
   }
+  if (retry) armDueTimer(retry, Date.now());
+}
+
+/**
+ * Brings the job table in line with the current events: plans jobs for upcoming
+ * occurrences, moves or cancels jobs whose event changed, marks jobs that went overdue
+ * while the server was down as missed, and arms timers for jobs due before the next pass.
+ */
+async function reconcileReminderJobs(): Promise<void> {
+  const nowMs = Date.now();
+  const nowIso = new Date(nowMs).toISOString();
+  const [events, jobs] = await Promise.all([db.getCollection<Event>(EVENTS_COLLECTION), listJobs()]);
+  const planned = planReminders(events, nowMs);
+  const jobsByKey = new Map(jobs.map((job) => [getJobKey(job.eventId, job.eventDate, job.eventTime, job.offsetMinutes), job]));
+  const scheduled: EventReminderJob[] = [];
+
+  for (const [key, plan] of planned) {
+    const existing = jobsByKey.get(key);
+    if (existing && sendingJobs.has(existing.id)) continue;
+    const startsAt = new Date(plan.startsAtMs).toISOString();
+    const sendAt = new Date(plan.sendAtMs).toISOString();
+
+    if (!existing) {
+      const job: EventReminderJob = {
+        id: getJobId(plan),
+        eventId: plan.event.id,
+        eventTitle: plan.event.title,
+        eventDate: plan.eventDate,
+        eventTime: plan.event.time,
+        offsetMinutes: plan.offsetMinutes,
+        startsAt,
+        sendAt,
+        status: "scheduled",
+        attempts: 0,
+        createdAt: nowIso,
+        updatedAt: nowIso,
+      };
+      await db.create<EventReminderJob>(REMINDER_JOBS_COLLECTION, job);
+      scheduled.push(job);
+      continue;
+    }
 
-  if (scheduledReminderTimers.has(key)) return;
+    // A timezone edit keeps the key but moves the start; re-adding an offset revives its job.
+    const moved = existing.sendAt !== sendAt || existing.eventTitle !== plan.event.title;
+    if ((existing.status === "scheduled" && moved) || existing.status === "cancelled") {
+      scheduled.push(await setJobStatus(existing, "scheduled", { startsAt, sendAt, eventTitle: plan.event.title }));
+    } else if (existing.status === "scheduled") {
+      scheduled.push(existing);
+    }
+  }
 
-  const timer = setTimeout(() => {
-    scheduledReminderTimers.delete(key);
-    void sendAndLogReminder(event);
-  }, delayMs);
+  for (const job of jobs) {
+    if (job.status !== "scheduled" || sendingJobs.has(job.id)) continue;
+    if (planned.has(getJobKey(job.eventId, job.eventDate, job.eventTime, job.offsetMinutes))) continue;
+    clearDueTimer(job.id);
+    const overdue = nowMs - new Date(job.sendAt).getTime() > LATE_GRACE_MS;
+    await setJobStatus(job, overdue ? "missed" : "cancelled");
+  }
 
-  scheduledReminderTimers.set(key, timer);
+  const scheduledIds = new Set(scheduled.map((job) => job.id));
+  for (const jobId of [...dueTimers.keys()]) {
+    if (!scheduledIds.has(jobId)) clearDueTimer(jobId);
+  }
+  for (const job of scheduled) {
+    armDueTimer(job, nowMs);
+  }
 }
 
+// Event edits can trigger several passes at once; run them one after another.
 async function syncEventReminderSchedule(): Promise<void> {
-  try {
-    const events = await db.getCollection<Event>(EVENTS_COLLECTION);
-    const nowMs = Date.now();
-
-    const validKeys = new Set<string>();
-    for (const event of events) {
-      const key = getReminderLogId(event);
-      validKeys.add(key);
-      await scheduleEventReminder(event, nowMs);
-    }
+  if (reconcileRunning) {
+    reconcileQueued = true;
+    return reconcileRunning;
+  }
 
-    for (const key of [...scheduledReminderTimers.keys()]) {
-      if (!validKeys.has(key)) {
-        clearScheduledReminder(key);
+  reconcileRunning = (async () => {
+    do {
+      reconcileQueued = false;
+      try {
+        await reconcileReminderJobs();
+      } catch (error) {
+        console.log("[EventReminders] Reconcile error:", error instanceof Error ? error.message : String(error));
       }
-    }
-  } catch (error) {
-    console.log("[Events] Reminder scheduler error:", error instanceof Error ? error.message : String(error));
+    } while (reconcileQueued);
+  })();
+
+  try {
+    await reconcileRunning;
+  } finally {
+    reconcileRunning = null;
   }
 }
 
 export function startEventReminderScheduler() {
-  if (scheduleSyncTimer) return;
+  if (reconcileTimer) return;
 
   void syncEventReminderSchedule();
-  scheduleSyncTimer = setInterval(() => {
+  reconcileTimer = setInterval(() => {
     void syncEventReminderSchedule();
-  }, SCHEDULE_SYNC_INTERVAL_MS);
+  }, RECONCILE_INTERVAL_MS);
 }
 
 export function refreshEventReminderSchedule() {
   void syncEventReminderSchedule();
 }
+
+/** Upcoming jobs soonest first, then recent history newest first, for the admin view. */
+export async function listEventReminderJobs(limit = 100): Promise<{
+  upcoming: EventReminderJob[];
+  history: EventReminderJob[];
+}> {
+  const jobs = await listJobs();
+  return {
+    upcoming: jobs
+      .filter((job) => job.status === "scheduled")
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt))
+      .slice(0, limit),
+    history: jobs
+      .filter((job) => job.status !== "scheduled")
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit),
+  };
+}
@@ -0,0 +1,119 @@
+import { db } from "@/backend/db";
+import type { Event, EventRsvp } from "@/types";
+
+const COLLECTION = "event_rsvps";
+
+const eventLocks = new Map<string, Promise<unknown>>();
+
+function rsvpId(eventId: string, userId: string): string {
+  return `${eventId}:${userId}`;
+}
+
+function byCreatedAt(a: EventRsvp, b: EventRsvp): number {
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+export async function listEventRsvps(eventId?: string): Promise<EventRsvp[]> {
+  const rsvps = await db.getCollection<EventRsvp>(COLLECTION);
+  return eventId ? rsvps.filter((rsvp) => rsvp.eventId === eventId) : rsvps;
+}
+
+/** Runs `fn` after any earlier RSVP change for the same event has finished. */
+async function withEventRsvpLock<T>(eventId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = eventLocks.get(eventId) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  const tail = run.catch(() => undefined);
+  eventLocks.set(eventId, tail);
+  try {
+    return await run;
+  } finally {
+    if (eventLocks.get(eventId) === tail) {
+      eventLocks.delete(eventId);
+    }
+  }
+}
+
+function hasOpenSpot(event: Event, rsvps: EventRsvp[]): boolean {
+  if (!event.maxAttendees || event.maxAttendees <= 0) return true;
+  return rsvps.filter((rsvp) => rsvp.status === "going").length < event.maxAttendees;
+}
+
+async function promoteWaitlistUnlocked(event: Event): Promise<EventRsvp[]> {
+  const rsvps = await listEventRsvps(event.id);
+  const waitlist = rsvps.filter((rsvp) => rsvp.status === "waitlisted").sort(byCreatedAt);
+  const promoted: EventRsvp[] = [];
+
+  for (const rsvp of waitlist) {
+    if (!hasOpenSpot(event, rsvps)) break;
+    const updated: EventRsvp = { ...rsvp, status: "going", updatedAt: new Date().toISOString() };
+    await db.update<EventRsvp>(COLLECTION, rsvp.id, updated);
+    rsvps[rsvps.findIndex((item) => item.id === rsvp.id)] = updated;
+    promoted.push(updated);
+  }
+
+  if (promoted.length > 0) {
+    console.log("[EventRsvps] Promoted from waitlist:", event.id, promoted.map((rsvp) => rsvp.userId));
+  }
+  return promoted;
+}
+
+/**
+ * Moves the longest-waiting people off the waitlist while the event has open spots.
+ * Runs after a cancellation or a capacity change.
+ */
+export async function promoteWaitlist(event: Event): Promise<EventRsvp[]> {
+  return withEventRsvpLock(event.id, () => promoteWaitlistUnlocked(event));
+}
+
+/**
+ * Records or withdraws one user's RSVP. Changes to one event run one at a time and
+ * repeating the same request is a no-op, so double taps and simultaneous RSVPs cannot
+ * inflate counts. New RSVPs beyond `maxAttendees` join the waitlist.
+ */
+export async function setEventRsvp(event: Event, userId: string, attending: boolean): Promise<EventRsvp | null> {
+  return withEventRsvpLock(event.id, async () => {
+    const rsvps = await listEventRsvps(event.id);
+    const existing = rsvps.find((rsvp) => rsvp.userId === userId) || null;
+
+    if (!attending) {
+      if (!existing) return null;
+      await db.remove(COLLECTION, existing.id);
+      if (existing.status === "going") {
+        await promoteWaitlistUnlocked(event);
+      }
+      return null;
+    }
+
+    if (existing) return existing;
+
+    const nowIso = new Date().toISOString();
+    const rsvp: EventRsvp = {
+      id: rsvpId(event.id, userId),
+      eventId: event.id,
+      userId,
+      status: hasOpenSpot(event, rsvps) ? "going" : "waitlisted",
+      createdAt: nowIso,
+      updatedAt: nowIso,
+    };
+    await db.create<EventRsvp>(COLLECTION, rsvp);
+    return rsvp;
+  });
+}
+
+export async function removeEventRsvps(eventId: string): Promise<void> {
+  const rsvps = await listEventRsvps(eventId);
+  await Promise.all(rsvps.map((rsvp) => db.remove(COLLECTION, rsvp.id)));
+}
+
+/** Replaces the stored counters with values derived from RSVP rows, from the viewer's perspective. */
+export function withRsvpState(event: Event, rsvps: EventRsvp[], viewerId: string): Event {
+  const eventRsvps = rsvps.filter((rsvp) => rsvp.eventId === event.id);
+  const own = eventRsvps.find((rsvp) => rsvp.userId === viewerId);
+  return {
+    ...event,
+    attendees: eventRsvps.filter((rsvp) => rsvp.status === "going").length,
+    waitlistCount: eventRsvps.filter((rsvp) => rsvp.status === "waitlisted").length,
+    isRsvped: Boolean(own),
+    rsvpStatus: own?.status ?? null,
+  };
+}
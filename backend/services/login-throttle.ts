@@ -0,0 +1,180 @@
+import { db } from "@/backend/db";
+import type { LoginAttemptRecord, LoginAttemptScope } from "@/types";
+
+const COLLECTION = "login_attempts";
+// Reset requests keep their own counters so they can never slow down or lock a sign-in.
+const RESET_COLLECTION = "password_reset_requests";
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 30 * 60 * 1000;
+// Failures older than this no longer count toward backoff or lockout.
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const LIMITS: Record<LoginAttemptScope, { freeAttempts: number; lockoutAfter: number }> = {
+  identifier: { freeAttempts: 3, lockoutAfter: 10 },
+  // Shared networks put many ambassadors behind one address, so IPs get more headroom.
+  ip: { freeAttempts: 20, lockoutAfter: 100 },
+};
+
+function recordId(scope: LoginAttemptScope, key: string): string {
+  return `${scope}:${key}`;
+}
+
+function normalizeKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS ?? 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+/**
+ * Clients can send their own X-Forwarded-For, so only the entries appended by our own
+ * proxies are trusted: with N hops, the client address is the Nth entry from the end.
+ */
+export function getClientIp(req: Request): string | null {
+  const hops = getTrustedProxyHops();
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded && hops > 0) {
+    const entries = forwarded.split(",").map((entry) => entry.trim()).filter(Boolean);
+    const client = entries[Math.max(entries.length - hops, 0)];
+    if (client) return client;
+  }
+  return req.headers.get("cf-connecting-ip") || req.headers.get("x-real-ip") || null;
+}
+
+// The remote store errors on missing ids, so look records up through the collection.
+async function findRecord(id: string, collection = COLLECTION): Promise<LoginAttemptRecord | null> {
+  const records = await db.getCollection<LoginAttemptRecord>(collection);
+  return records.find((record) => record.id === id) || null;
+}
+
+function getKeys(identifier: string, ip: string | null): { scope: LoginAttemptScope; key: string }[] {
+  const keys: { scope: LoginAttemptScope; key: string }[] = [];
+  const normalizedIdentifier = normalizeKey(identifier);
+  if (normalizedIdentifier) keys.push({ scope: "identifier", key: normalizedIdentifier });
+  if (ip) keys.push({ scope: "ip", key: ip });
+  return keys;
+}
+
+function getBlockedUntil(record: LoginAttemptRecord, now: number): number {
+  const lockedUntil = record.lockedUntil ? new Date(record.lockedUntil).getTime() : 0;
+  const backoffUntil = record.backoffUntil ? new Date(record.backoffUntil).getTime() : 0;
+  const until = Math.max(lockedUntil, backoffUntil);
+  return until > now ? until : 0;
+}
+
+function isStale(record: LoginAttemptRecord, now: number): boolean {
+  return now - new Date(record.lastFailureAt).getTime() > FAILURE_WINDOW_MS;
+}
+
+async function assertAllowed(
+  collection: string,
+  identifier: string,
+  ip: string | null,
+  messages: { prefix: string; locked: string }
+): Promise<void> {
+  const now = Date.now();
+  for (const { scope, key } of getKeys(identifier, ip)) {
+    const record = await findRecord(recordId(scope, key), collection);
+    if (!record) continue;
+    const blockedUntil = getBlockedUntil(record, now);
+    if (!blockedUntil) continue;
+
+    const waitSeconds = Math.ceil((blockedUntil - now) / 1000);
+    if (record.lockedUntil && new Date(record.lockedUntil).getTime() > now) {
+      const waitMinutes = Math.ceil(waitSeconds / 60);
+      throw new Error(`${messages.prefix} ${messages.locked} for ${waitMinutes} more minute${waitMinutes === 1 ? "" : "s"}.`);
+    }
+    throw new Error(`${messages.prefix} Try again in ${waitSeconds} second${waitSeconds === 1 ? "" : "s"}.`);
+  }
+}
+
+async function recordAttempt(collection: string, identifier: string, ip: string | null): Promise<void> {
+  const now = Date.now();
+  const nowIso = new Date(now).toISOString();
+
+  for (const { scope, key } of getKeys(identifier, ip)) {
+    const id = recordId(scope, key);
+    const existing = await findRecord(id, collection);
+    const failures = existing && !isStale(existing, now) ? existing.failures + 1 : 1;
+    const limits = LIMITS[scope];
+
+    const record: LoginAttemptRecord = {
+      id,
+      scope,
+      key,
+      failures,
+      firstFailureAt: existing && !isStale(existing, now) ? existing.firstFailureAt : nowIso,
+      lastFailureAt: nowIso,
+      // Explicit so an update overwrites windows left over from an earlier streak.
+      backoffUntil: undefined,
+      lockedUntil: undefined,
+    };
+
+    if (failures > limits.freeAttempts) {
+      const delay = Math.min(BASE_BACKOFF_MS * 2 ** (failures - limits.freeAttempts - 1), MAX_BACKOFF_MS);
+      record.backoffUntil = new Date(now + delay).toISOString();
+    }
+    if (failures >= limits.lockoutAfter) {
+      record.lockedUntil = new Date(now + LOCKOUT_MS).toISOString();
+      console.log("[LoginThrottle] Locked", collection, scope, key, "after", failures, "attempts");
+    }
+
+    if (existing) {
+      await db.update<LoginAttemptRecord>(collection, id, record);
+    } else {
+      await db.create<LoginAttemptRecord>(collection, record);
+    }
+  }
+}
+
+/**
+ * Throws when the identifier or the caller's IP is still inside a backoff window or
+ * lockout. Call before checking credentials so blocked callers learn nothing new.
+ */
+export async function assertLoginAllowed(identifier: string, ip: string | null): Promise<void> {
+  await assertAllowed(COLLECTION, identifier, ip, { prefix: "Too many failed attempts.", locked: "Sign-in is locked" });
+}
+
+export async function recordLoginFailure(identifier: string, ip: string | null): Promise<void> {
+  await recordAttempt(COLLECTION, identifier, ip);
+}
+
+/** Like `assertLoginAllowed`, but for password reset requests, which are counted separately. */
+export async function assertResetRequestAllowed(identifier: string, ip: string | null): Promise<void> {
+  await assertAllowed(RESET_COLLECTION, identifier, ip, {
+    prefix: "Too many reset requests.",
+    locked: "Password reset is locked",
+  });
+}
+
+/** Every reset request counts, since each one sends a code or queues work for an admin. */
+export async function recordResetRequest(identifier: string, ip: string | null): Promise<void> {
+  await recordAttempt(RESET_COLLECTION, identifier, ip);
+}
+
+/** A successful sign-in clears the identifier's counter; the IP counter keeps decaying on its own. */
+export async function clearLoginFailures(identifier: string): Promise<void> {
+  const key = normalizeKey(identifier);
+  if (!key) return;
+  const id = recordId("identifier", key);
+  if (await findRecord(id)) {
+    await db.remove(COLLECTION, id);
+  }
+}
+
+export async function listBlockedLogins(): Promise<(LoginAttemptRecord & { blockedUntil: string })[]> {
+  const now = Date.now();
+  const records = await db.getCollection<LoginAttemptRecord>(COLLECTION);
+  return records
+    .map((record) => ({ record, blockedUntil: getBlockedUntil(record, now) }))
+    .filter(({ blockedUntil }) => blockedUntil > 0)
+    .sort((a, b) => b.blockedUntil - a.blockedUntil)
+    .map(({ record, blockedUntil }) => ({ ...record, blockedUntil: new Date(blockedUntil).toISOString() }));
+}
+
+export async function clearLoginBlock(id: string): Promise<boolean> {
+  return db.remove(COLLECTION, id);
+}
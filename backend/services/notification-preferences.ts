@@ -0,0 +1,57 @@
+import { db } from "@/backend/db";
+import type { NotificationCategory, NotificationPreferences } from "@/types";
+
+const COLLECTION = "notification_preferences";
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  "submission_approved",
+  "submission_needs_edits",
+  "submission_rejected",
+];
+
+function defaultChannelPreferences(): Record<NotificationCategory, boolean> {
+  return Object.fromEntries(NOTIFICATION_CATEGORIES.map((category) => [category, true])) as Record<
+    NotificationCategory,
+    boolean
+  >;
+}
+
+async function findPreferences(userId: string): Promise<NotificationPreferences | null> {
+  const preferences = await db.getCollection<NotificationPreferences>(COLLECTION);
+  return preferences.find((item) => item.userId === userId) || null;
+}
+
+/** A user's preferences with every category on unless they turned it off. */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const stored = await findPreferences(userId);
+  return {
+    id: userId,
+    userId,
+    telegram: { ...defaultChannelPreferences(), ...stored?.telegram },
+    updatedAt: stored?.updatedAt || new Date(0).toISOString(),
+  };
+}
+
+export async function updateNotificationPreferences(
+  userId: string,
+  telegram: Partial<Record<NotificationCategory, boolean>>
+): Promise<NotificationPreferences> {
+  const existing = await findPreferences(userId);
+  const current = await getNotificationPreferences(userId);
+  const updated: NotificationPreferences = {
+    ...current,
+    telegram: { ...current.telegram, ...telegram },
+    updatedAt: new Date().toISOString(),
+  };
+  if (existing) {
+    await db.update<NotificationPreferences>(COLLECTION, userId, updated);
+  } else {
+    await db.create<NotificationPreferences>(COLLECTION, updated);
+  }
+  return updated;
+}
+
+export async function isTelegramNotificationEnabled(userId: string, category: NotificationCategory): Promise<boolean> {
+  const preferences = await getNotificationPreferences(userId);
+  return preferences.telegram[category];
+}
@@ -0,0 +1,99 @@
+import { db } from "@/backend/db";
+import { sendPushToUsers } from "@/backend/services/push-notifications";
+import type { AppNotification, User } from "@/types";
+
+const COLLECTION = "notifications";
+const USERS_COLLECTION = "users";
+const DEFAULT_LIST_LIMIT = 50;
+
+export type NotificationInput = Pick<AppNotification, "type" | "title" | "body" | "link">;
+
+export type NotifyOptions = {
+  // Also send a native push to the recipients' registered devices.
+  push?: boolean;
+};
+
+async function pushNotification(userIds: string[], input: NotificationInput): Promise<void> {
+  try {
+    const result = await sendPushToUsers(userIds, {
+      title: input.title,
+      body: input.body,
+      data: input.link ? { link: input.link } : undefined,
+    });
+    if (result.sent || result.failed) {
+      console.log("[Notifications] Push", input.type, "sent:", result.sent, "failed:", result.failed);
+    }
+  } catch (error) {
+    console.log("[Notifications] Push error:", error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** Stores one notification per recipient, so each user keeps their own read state. */
+export async function notifyUsers(
+  userIds: string[],
+  input: NotificationInput,
+  options: NotifyOptions = {}
+): Promise<number> {
+  const recipients = [...new Set(userIds)];
+  const nowMs = Date.now();
+  const createdAt = new Date(nowMs).toISOString();
+  await Promise.all(
+    recipients.map((userId, index) =>
+      db.create<AppNotification>(COLLECTION, {
+        id: `notif-${nowMs}-${index}-${userId}`,
+        userId,
+        ...input,
+        createdAt,
+      })
+    )
+  );
+  if (options.push && recipients.length > 0) {
+    await pushNotification(recipients, input);
+  }
+  return recipients.length;
+}
+
+/** Notifies every active user that passes `filter`, e.g. a poll's region. */
+export async function notifyActiveUsers(
+  input: NotificationInput,
+  filter: (user: User) => boolean = () => true,
+  options: NotifyOptions = {}
+): Promise<number> {
+  const users = await db.getCollection<User>(USERS_COLLECTION);
+  const recipients = users.filter((user) => user.status === "active" && filter(user)).map((user) => user.id);
+  const count = await notifyUsers(recipients, input, options);
+  console.log("[Notifications] Sent", input.type, "notification to", count, "users");
+  return count;
+}
+
+async function getUserNotifications(userId: string): Promise<AppNotification[]> {
+  const notifications = await db.getCollection<AppNotification>(COLLECTION);
+  return notifications.filter((notification) => notification.userId === userId);
+}
+
+export async function listNotifications(
+  userId: string,
+  options: { limit?: number; unreadOnly?: boolean } = {}
+): Promise<AppNotification[]> {
+  return (await getUserNotifications(userId))
+    .filter((notification) => !options.unreadOnly || !notification.readAt)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, options.limit || DEFAULT_LIST_LIMIT);
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  return (await getUserNotifications(userId)).filter((notification) => !notification.readAt).length;
+}
+
+/** Marks the given notifications read; ids that belong to other users are ignored. */
+export async function markNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+  const wanted = ids ? new Set(ids) : null;
+  const readAt = new Date().toISOString();
+  const unread = (await getUserNotifications(userId)).filter(
+    (notification) => !notification.readAt && (!wanted || wanted.has(notification.id))
+  );
+  await Promise.all(
+    unread.map((notification) => db.update<AppNotification>(COLLECTION, notification.id, { readAt }))
+  );
+  return unread.length;
+}
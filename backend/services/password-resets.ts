@@ -0,0 +1,97 @@
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { db } from "@/backend/db";
+import type { PasswordReset, PasswordResetDelivery } from "@/types";
+
+const COLLECTION = "password_resets";
+const RESET_CODE_TTL_MS = 30 * 60 * 1000;
+const RESET_CODE_LENGTH = 8;
+const RESET_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const MAX_CODE_ATTEMPTS = 5;
+
+function hashResetCode(code: string): string {
+  return createHash("sha256").update(code.trim().toUpperCase()).digest("hex");
+}
+
+function generateResetCode(): string {
+  let code = "";
+  for (let i = 0; i < RESET_CODE_LENGTH; i += 1) {
+    code += RESET_CODE_ALPHABET[randomInt(RESET_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function isOpen(reset: PasswordReset, now = Date.now()): boolean {
+  return !reset.usedAt && reset.attempts < MAX_CODE_ATTEMPTS && new Date(reset.expiresAt).getTime() > now;
+}
+
+async function getResetsForUser(userId: string): Promise<PasswordReset[]> {
+  const resets = await db.getCollection<PasswordReset>(COLLECTION);
+  return resets.filter((reset) => reset.userId === userId);
+}
+
+/**
+ * Issues a fresh reset code for a user and retires any earlier open codes, so only the
+ * most recent request can be redeemed. The plain code is returned once for delivery;
+ * only admin hand-offs keep a readable copy on the record.
+ */
+export async function createPasswordReset(
+  userId: string,
+  delivery: PasswordResetDelivery
+): Promise<{ reset: PasswordReset; code: string }> {
+  const now = new Date();
+  for (const existing of await getResetsForUser(userId)) {
+    if (isOpen(existing, now.getTime())) {
+      await db.update<PasswordReset>(COLLECTION, existing.id, { usedAt: now.toISOString(), handoffCode: undefined });
+    }
+  }
+
+  const code = generateResetCode();
+  const reset: PasswordReset = {
+    id: `pwreset-${now.getTime()}-${userId}`,
+    userId,
+    codeHash: hashResetCode(code),
+    delivery,
+    handoffCode: delivery === "admin" ? code : undefined,
+    attempts: 0,
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + RESET_CODE_TTL_MS).toISOString(),
+  };
+  await db.create<PasswordReset>(COLLECTION, reset);
+  return { reset, code };
+}
+
+export async function markPasswordResetForAdmin(reset: PasswordReset, code: string): Promise<PasswordReset> {
+  const updated: PasswordReset = { ...reset, delivery: "admin", handoffCode: code };
+  await db.update<PasswordReset>(COLLECTION, reset.id, updated);
+  return updated;
+}
+
+/**
+ * Redeems a reset code. Every wrong guess counts against the open code, which stops
+ * working after MAX_CODE_ATTEMPTS; a correct code is marked used and cannot be replayed.
+ */
+export async function consumePasswordReset(userId: string, code: string): Promise<boolean> {
+  const now = Date.now();
+  const open = (await getResetsForUser(userId))
+    .filter((reset) => isOpen(reset, now))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  if (!open) return false;
+
+  const expected = Buffer.from(open.codeHash, "hex");
+  const actual = Buffer.from(hashResetCode(code), "hex");
+  if (!timingSafeEqual(expected, actual)) {
+    await db.update<PasswordReset>(COLLECTION, open.id, { attempts: open.attempts + 1 });
+    return false;
+  }
+
+  await db.update<PasswordReset>(COLLECTION, open.id, { usedAt: new Date(now).toISOString(), handoffCode: undefined });
+  return true;
+}
+
+export async function listOpenAdminPasswordResets(): Promise<PasswordReset[]> {
+  const now = Date.now();
+  const resets = await db.getCollection<PasswordReset>(COLLECTION);
+  return resets
+    .filter((reset) => reset.delivery === "admin" && isOpen(reset, now))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,61 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const HASH_PREFIX = "scrypt";
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+type ScryptParams = { N: number; r: number; p: number };
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams, keyLength: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...params, maxmem: 64 * 1024 * 1024 }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export function isPasswordHash(value?: string): boolean {
+  return typeof value === "string" && value.startsWith(`${HASH_PREFIX}$`);
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const params = { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P };
+  const key = await deriveKey(password, salt, params, KEY_LENGTH);
+  return [HASH_PREFIX, SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+/**
+ * Checks a password against a stored value. Legacy records may still hold the raw
+ * password; those verify by direct comparison and report `needsRehash` so the caller
+ * can replace them with a hash after a successful login.
+ */
+export async function verifyPassword(
+  password: string,
+  stored?: string
+): Promise<{ ok: boolean; needsRehash: boolean }> {
+  if (!stored) return { ok: false, needsRehash: false };
+
+  if (!isPasswordHash(stored)) {
+    const expected = Buffer.from(stored);
+    const actual = Buffer.from(password);
+    const ok = expected.length === actual.length && timingSafeEqual(expected, actual);
+    return { ok, needsRehash: ok };
+  }
+
+  const [, rawN, rawR, rawP, saltB64, keyB64] = stored.split("$");
+  const params = { N: Number(rawN), r: Number(rawR), p: Number(rawP) };
+  if (!saltB64 || !keyB64 || !params.N || !params.r || !params.p) {
+    return { ok: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(keyB64, "base64");
+  const actual = await deriveKey(password, Buffer.from(saltB64, "base64"), params, expected.length);
+  const ok = actual.length === expected.length && timingSafeEqual(actual, expected);
+  const outdated = params.N !== SCRYPT_N || params.r !== SCRYPT_R || params.p !== SCRYPT_P;
+  return { ok, needsRehash: ok && outdated };
+}
@@ -1,5 +1,6 @@
 import { db } from "@/backend/db";
 import { ensureActiveSeason, isSubmissionInSeason } from "@/backend/services/season";
+import { getCheckInPointsByUser } from "@/backend/services/event-checkins";
 import type { Platform, Submission, User } from "@/types";
 
 const USERS_COLLECTION = "users";
@@ -74,6 +75,80 @@ export function normalizeTwitterUrl(value: string): string {
   }
 }
 
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|si|s|t|igsh|igshid|fbclid|ref|ref_src|ref_url|feature|is_from_webapp|sender_device|_r)$/i;
+
+/**
+ * A comparison key for a post URL: the same post gives the same key however it was
+ * shared (host aliases, mobile hosts, share links, tracking parameters, handle case).
+ * Unknown shapes fall back to the URL without its fragment and tracking parameters.
+ */
+export function canonicalizePostUrl(platform: Platform | string, value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+  const withProtocol = /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  let url: URL;
+  try {
+    url = new URL(withProtocol);
+  } catch {
+    return withProtocol.toLowerCase();
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^(www|m|mobile|vm)\./, "");
+  const segments = url.pathname.split("/").filter(Boolean);
+  const segmentAfter = (names: string[]) => {
+    const index = segments.findIndex((segment) => names.includes(segment.toLowerCase()));
+    return index >= 0 ? segments[index + 1] : undefined;
+  };
+
+  switch (normalizePlatform(platform)) {
+    case "twitter": {
+      const tweetId = segmentAfter(["status", "statuses"])?.match(/^\d+/)?.[0];
+      if (tweetId) return `https://twitter.com/i/status/${tweetId}`;
+      break;
+    }
+    case "instagram": {
+      const shortcode = segmentAfter(["p", "reel", "reels", "tv"]);
+      if (shortcode) return `https://www.instagram.com/p/${shortcode}`;
+      break;
+    }
+    case "tiktok": {
+      const videoId = segmentAfter(["video", "photo"])?.match(/^\d+/)?.[0];
+      if (videoId) return `https://www.tiktok.com/video/${videoId}`;
+      break;
+    }
+    case "youtube": {
+      const videoId = host === "youtu.be"
+        ? segments[0]
+        : url.searchParams.get("v") || segmentAfter(["shorts", "embed", "live", "v"]);
+      if (videoId) return `https://www.youtube.com/watch?v=${videoId}`;
+      break;
+    }
+    case "facebook": {
+      if (host === "facebook.com" || host === "fb.com") {
+        const kept = new URLSearchParams();
+        for (const key of ["story_fbid", "fbid", "id", "v"]) {
+          const param = url.searchParams.get(key);
+          if (param) kept.set(key, param);
+        }
+        const query = kept.toString();
+        return `https://www.facebook.com/${segments.join("/")}${query ? `?${query}` : ""}`;
+      }
+      break;
+    }
+    case "telegram": {
+      const [channel, messageId] = segments[0]?.toLowerCase() === "s" ? segments.slice(1) : segments;
+      if (channel && messageId && /^\d+$/.test(messageId)) return `https://t.me/${channel.toLowerCase()}/${messageId}`;
+      break;
+    }
+  }
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  return `https://${host}${url.pathname.replace(/\/+$/, "")}${query ? `?${query}` : ""}`;
+}
+
 export function normalizeTwitterHandle(handle?: string): string | null {
   if (!handle) return null;
   const trimmed = handle.trim();
@@ -217,6 +292,7 @@ export async function recomputeAllUserPerformance(): Promise<void> {
     db.getCollection<Submission>(SUBMISSIONS_COLLECTION),
     ensureActiveSeason(),
   ]);
+  const checkInPointsByUser = await getCheckInPointsByUser(currentSeason.id);
 
   const seasonSubmissions = submissions.filter((s) => isSubmissionInSeason(s, currentSeason));
   const approved = seasonSubmissions.filter((s) => s.status === "approved");
@@ -233,7 +309,8 @@ export async function recomputeAllUserPerformance(): Promise<void> {
 
   const refreshedUsers: User[] = users.map((user) => {
     const list = approvedByUser.get(user.id) || [];
-    const totalPoints = list.reduce((acc, item) => acc + (item.rating?.totalScore || 0), 0);
+    const submissionPoints = list.reduce((acc, item) => acc + (item.rating?.totalScore || 0), 0);
+    const totalPoints = submissionPoints + (checkInPointsByUser.get(user.id) || 0);
 
     return {
       ...user,
@@ -0,0 +1,234 @@
+import { createHash } from "crypto";
+import { db } from "@/backend/db";
+import type { Device, DevicePlatform, PushTicket } from "@/types";
+
+const DEVICES_COLLECTION = "devices";
+const TICKETS_COLLECTION = "push_tickets";
+const DEFAULT_EXPO_PUSH_API_URL = "https://exp.host/--/api/v2/push";
+// Expo's limits per request.
+const SEND_BATCH_SIZE = 100;
+const RECEIPT_BATCH_SIZE = 1000;
+// Expo suggests waiting before asking for receipts, and drops them after a day.
+const RECEIPT_DELAY_MS = 15 * 60 * 1000;
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000;
+const RECEIPT_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const EXPO_PUSH_TOKEN_PATTERN = /^(Exponent|Expo)PushToken\[[^\]]+\]$/;
+
+export type PushMessage = {
+  title: string;
+  body: string;
+  data?: Record<string, string>;
+};
+
+type ExpoPushTicket =
+  | { status: "ok"; id: string }
+  | { status: "error"; message?: string; details?: { error?: string } };
+
+type ExpoPushReceipt = { status: "ok" } | { status: "error"; message?: string; details?: { error?: string } };
+
+let receiptTimer: ReturnType<typeof setInterval> | null = null;
+
+// Read per call so a local stub can stand in for Expo.
+function getExpoPushApiUrl(): string {
+  return (process.env.EXPO_PUSH_API_URL || DEFAULT_EXPO_PUSH_API_URL).replace(/\/+$/, "");
+}
+
+function getDeviceId(token: string): string {
+  return `device-${createHash("sha256").update(token).digest("hex").slice(0, 24)}`;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function postToExpo<T>(path: string, body: unknown): Promise<T> {
+  const headers: Record<string, string> = {
+    Accept: "application/json",
+    "Content-Type": "application/json",
+  };
+  const accessToken = process.env.EXPO_ACCESS_TOKEN?.trim();
+  if (accessToken) {
+    headers.Authorization = `Bearer ${accessToken}`;
+  }
+
+  const response = await fetch(`${getExpoPushApiUrl()}${path}`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new Error(`Expo HTTP ${response.status}: ${errorBody.slice(0, 200)}`);
+  }
+
+  const payload = (await response.json()) as { data?: T; errors?: { message?: string }[] };
+  if (!payload.data) {
+    throw new Error(payload.errors?.[0]?.message || "Expo returned no data");
+  }
+  return payload.data;
+}
+
+export function isExpoPushToken(token: string): boolean {
+  return EXPO_PUSH_TOKEN_PATTERN.test(token);
+}
+
+/**
+ * Saves a device's push token for the signed-in user. A token belongs to one account
+ * at a time, so signing in as someone else on the same phone moves it.
+ */
+export async function registerDevice(
+  userId: string,
+  input: { token: string; platform: DevicePlatform }
+): Promise<Device> {
+  const token = input.token.trim();
+  if (!isExpoPushToken(token)) {
+    throw new Error("Invalid Expo push token");
+  }
+
+  const now = new Date().toISOString();
+  const id = getDeviceId(token);
+  const devices = await db.getCollection<Device>(DEVICES_COLLECTION);
+  const existing = devices.find((device) => device.id === id);
+  if (existing) {
+    const updated: Device = { ...existing, userId, platform: input.platform, lastSeenAt: now };
+    await db.update<Device>(DEVICES_COLLECTION, id, updated);
+    return updated;
+  }
+
+  const device: Device = { id, userId, token, platform: input.platform, createdAt: now, lastSeenAt: now };
+  await db.create<Device>(DEVICES_COLLECTION, device);
+  console.log("[Push] Registered", input.platform, "device for", userId);
+  return device;
+}
+
+export async function unregisterDevice(userId: string, token: string): Promise<boolean> {
+  const devices = await db.getCollection<Device>(DEVICES_COLLECTION);
+  const existing = devices.find((device) => device.token === token.trim() && device.userId === userId);
+  if (!existing) return false;
+  await db.remove(DEVICES_COLLECTION, existing.id);
+  return true;
+}
+
+async function pruneTokens(tokens: string[]): Promise<number> {
+  if (tokens.length === 0) return 0;
+  const dead = new Set(tokens);
+  const devices = await db.getCollection<Device>(DEVICES_COLLECTION);
+  const stale = devices.filter((device) => dead.has(device.token));
+  for (const device of stale) {
+    await db.remove(DEVICES_COLLECTION, device.id);
+  }
+  if (stale.length > 0) {
+    console.log("[Push] Pruned", stale.length, "unregistered devices");
+  }
+  return stale.length;
+}
+
+/**
+ * Sends one push per registered device of the given users, in batches of 100. Tickets
+ * are kept so `checkPushReceipts` can confirm delivery later; tokens Expo reports as
+ * unregistered are pruned right away.
+ */
+export async function sendPushToUsers(
+  userIds: string[],
+  message: PushMessage
+): Promise<{ sent: number; failed: number; pruned: number }> {
+  const recipients = new Set(userIds);
+  const devices = (await db.getCollection<Device>(DEVICES_COLLECTION)).filter((device) => recipients.has(device.userId));
+  let sent = 0;
+  let failed = 0;
+  const deadTokens: string[] = [];
+
+  for (const batch of chunk(devices, SEND_BATCH_SIZE)) {
+    let tickets: ExpoPushTicket[];
+    try {
+      tickets = await postToExpo<ExpoPushTicket[]>(
+        "/send",
+        batch.map((device) => ({ to: device.token, sound: "default", ...message }))
+      );
+    } catch (error) {
+      failed += batch.length;
+      console.log("[Push] Send batch failed:", error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    const createdAt = new Date().toISOString();
+    for (const [index, device] of batch.entries()) {
+      const ticket = tickets[index];
+      if (ticket?.status === "ok") {
+        sent += 1;
+        await db.create<PushTicket>(TICKETS_COLLECTION, { id: ticket.id, userId: device.userId, token: device.token, createdAt });
+        continue;
+      }
+      failed += 1;
+      if (ticket?.details?.error === "DeviceNotRegistered") {
+        deadTokens.push(device.token);
+      }
+    }
+  }
+
+  const pruned = await pruneTokens(deadTokens);
+  return { sent, failed, pruned };
+}
+
+/**
+ * Looks up receipts for tickets old enough to have one. Finished tickets are dropped,
+ * devices whose receipt says DeviceNotRegistered are pruned, and tickets past Expo's
+ * retention are given up on.
+ */
+export async function checkPushReceipts(): Promise<{ checked: number; failed: number; pruned: number }> {
+  const nowMs = Date.now();
+  const tickets = await db.getCollection<PushTicket>(TICKETS_COLLECTION);
+  const due = tickets.filter((ticket) => nowMs - new Date(ticket.createdAt).getTime() >= RECEIPT_DELAY_MS);
+  let checked = 0;
+  let failed = 0;
+  const deadTokens: string[] = [];
+
+  for (const batch of chunk(due, RECEIPT_BATCH_SIZE)) {
+    let receipts: Record<string, ExpoPushReceipt>;
+    try {
+      receipts = await postToExpo<Record<string, ExpoPushReceipt>>("/getReceipts", {
+        ids: batch.map((ticket) => ticket.id),
+      });
+    } catch (error) {
+      console.log("[Push] Receipt batch failed:", error instanceof Error ? error.message : String(error));
+      continue;
+    }
+
+    for (const ticket of batch) {
+      const receipt = receipts[ticket.id];
+      if (!receipt) {
+        if (nowMs - new Date(ticket.createdAt).getTime() > RECEIPT_TTL_MS) {
+          await db.remove(TICKETS_COLLECTION, ticket.id);
+        }
+        continue;
+      }
+
+      checked += 1;
+      if (receipt.status === "error") {
+        failed += 1;
+        console.log("[Push] Delivery failed:", ticket.id, receipt.details?.error || receipt.message);
+        if (receipt.details?.error === "DeviceNotRegistered") {
+          deadTokens.push(ticket.token);
+        }
+      }
+      await db.remove(TICKETS_COLLECTION, ticket.id);
+    }
+  }
+
+  const pruned = await pruneTokens(deadTokens);
+  return { checked, failed, pruned };
+}
+
+export function startPushReceiptChecker() {
+  if (receiptTimer) return;
+
+  receiptTimer = setInterval(() => {
+    checkPushReceipts().catch((error) => {
+      console.log("[Push] Receipt check error:", error instanceof Error ? error.message : String(error));
+    });
+  }, RECEIPT_CHECK_INTERVAL_MS);
+}
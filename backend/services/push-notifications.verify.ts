@@ -0,0 +1,94 @@
+import type { Device, PushTicket } from "@/types";
+
+declare const Bun: {
+  serve: (options: { port: number; fetch: (request: Request) => Response | Promise<Response> }) => {
+    port: number;
+    stop: () => void;
+  };
+};
+
+// Tokens marked "Dead" fail at send time, "Gone" only once the receipt comes back.
+const sendBatchSizes: number[] = [];
+const stub = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const path = new URL(request.url).pathname;
+    const body = await request.json();
+    if (path === "/send") {
+      const messages = body as { to: string }[];
+      sendBatchSizes.push(messages.length);
+      return Response.json({
+        data: messages.map((message) =>
+          message.to.includes("Dead")
+            ? { status: "error", message: "not registered", details: { error: "DeviceNotRegistered" } }
+            : { status: "ok", id: `receipt-${message.to}` }
+        ),
+      });
+    }
+    if (path === "/getReceipts") {
+      const { ids } = body as { ids: string[] };
+      return Response.json({
+        data: Object.fromEntries(
+          ids.map((id) => [
+            id,
+            id.includes("Gone")
+              ? { status: "error", message: "not registered", details: { error: "DeviceNotRegistered" } }
+              : { status: "ok" },
+          ])
+        ),
+      });
+    }
+    return new Response("Not found", { status: 404 });
+  },
+});
+
+process.env.EXPO_PUSH_API_URL = `http://localhost:${stub.port}`;
+process.env.DATA_DIR = process.env.DATA_DIR || `/tmp/push-notifications-verify-${Date.now()}`;
+
+const { db } = await import("@/backend/db");
+const { checkPushReceipts, registerDevice, sendPushToUsers } = await import("@/backend/services/push-notifications");
+
+function assertEqual(actual: unknown, expected: unknown, label: string) {
+  if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+    throw new Error(`${label} failed: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`);
+  }
+}
+
+for (let i = 0; i < 150; i += 1) {
+  await registerDevice("user-1", { token: `ExponentPushToken[ok-${i}]`, platform: "ios" });
+}
+await registerDevice("user-1", { token: "ExponentPushToken[Dead]", platform: "android" });
+await registerDevice("user-1", { token: "ExponentPushToken[Gone]", platform: "android" });
+await registerDevice("user-2", { token: "ExponentPushToken[ok-0]", platform: "ios" });
+
+let invalidRejected = false;
+try {
+  await registerDevice("user-1", { token: "not-a-token", platform: "ios" });
+} catch {
+  invalidRejected = true;
+}
+assertEqual(invalidRejected, true, "Invalid token rejected");
+
+const sendResult = await sendPushToUsers(["user-1"], { title: "New task", body: "Task", data: { link: "/task/1" } });
+assertEqual(sendBatchSizes, [100, 51], "Send batches");
+assertEqual(sendResult, { sent: 150, failed: 1, pruned: 1 }, "Send result");
+
+const earlyReceipts = await checkPushReceipts();
+assertEqual(earlyReceipts.checked, 0, "Receipts wait before checking");
+
+const backdated = new Date(Date.now() - 20 * 60 * 1000).toISOString();
+for (const ticket of await db.getCollection<PushTicket>("push_tickets")) {
+  await db.update<PushTicket>("push_tickets", ticket.id, { createdAt: backdated });
+}
+const receiptResult = await checkPushReceipts();
+assertEqual(receiptResult, { checked: 150, failed: 1, pruned: 1 }, "Receipt result");
+assertEqual((await db.getCollection<PushTicket>("push_tickets")).length, 0, "Tickets cleared");
+
+const devices = await db.getCollection<Device>("devices");
+assertEqual(devices.length, 150, "Devices left after pruning");
+assertEqual(devices.filter((device) => device.userId === "user-2").length, 1, "Re-registered token moved");
+
+stub.stop();
+console.log("push-notifications verification passed");
+console.log(`Send batches: ${sendBatchSizes.join(", ")}`);
+console.log(`Receipts checked: ${receiptResult.checked}, pruned: ${sendResult.pruned + receiptResult.pruned}`);
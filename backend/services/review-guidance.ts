@@ -0,0 +1,170 @@
+import { db } from "@/backend/db";
+import type { FeedbackSnippet, RubricBand, RubricDimension, RubricGuide } from "@/types";
+
+const SNIPPETS_COLLECTION = "feedback_snippets";
+const RUBRIC_COLLECTION = "review_rubric";
+
+export const RUBRIC_MAX_POINTS: Record<RubricDimension, number> = {
+  relevanceToTask: 25,
+  creativity: 15,
+  originality: 15,
+  effortFormat: 15,
+  enthusiasmTone: 10,
+  engagementScore: 20,
+};
+
+const DEFAULT_RUBRIC: RubricGuide[] = [
+  {
+    dimension: "relevanceToTask",
+    description: "Followed the brief: correct hashtags, mentions, platform and message.",
+    bands: [
+      { min: 0, max: 5, label: "Off brief", description: "Wrong platform or message, or most required tags are missing.", example: "A general project post with none of the task hashtags." },
+      { min: 10, max: 15, label: "Partly on brief", description: "Right topic, but a required hashtag, mention or key point is missing.", example: "Covers the launch but leaves out the required mention." },
+      { min: 20, max: 25, label: "On brief", description: "Message, hashtags, mentions and platform all match the brief.", example: "A launch thread with every required tag and the brief's key points." },
+    ],
+  },
+  {
+    dimension: "creativity",
+    description: "Angle, storytelling and presentation.",
+    bands: [
+      { min: 0, max: 0, label: "None", description: "Restates the brief word for word." },
+      { min: 5, max: 5, label: "Basic", description: "A plain announcement with little of the author's own angle.", example: "\"New feature is live, check it out!\"" },
+      { min: 10, max: 10, label: "Good", description: "A clear personal angle or a short story around the message.", example: "How the feature saved them time on their morning run." },
+      { min: 15, max: 15, label: "Standout", description: "A memorable hook, format or narrative people will share.", example: "A before/after meme series built around the launch." },
+    ],
+  },
+  {
+    dimension: "originality",
+    description: "Own content, not copy-paste, duplicated or lazy.",
+    bands: [
+      { min: 0, max: 0, label: "Copied", description: "Copy-pasted, reposted or duplicated from another submission." },
+      { min: 5, max: 5, label: "Lightly edited", description: "Official copy or assets with small changes." },
+      { min: 10, max: 10, label: "Own take", description: "Written in the author's own words with official assets." },
+      { min: 15, max: 15, label: "Fully original", description: "Own words and own visuals or footage." },
+    ],
+  },
+  {
+    dimension: "effortFormat",
+    description: "Effort level: text < image < edited video, IRL or voice.",
+    bands: [
+      { min: 0, max: 0, label: "Minimal", description: "A one-line post or a bare link." },
+      { min: 5, max: 5, label: "Text", description: "A considered text post or thread." },
+      { min: 10, max: 10, label: "Image", description: "Text with a custom image, screenshot or graphic." },
+      { min: 15, max: 15, label: "Video / IRL", description: "Edited video, IRL content or voice.", example: "A 30-second edited clip of the product in use." },
+    ],
+  },
+  {
+    dimension: "enthusiasmTone",
+    description: "Genuine support and positive energy, not forced.",
+    bands: [
+      { min: 0, max: 0, label: "Off tone", description: "Negative, sarcastic or clearly forced." },
+      { min: 3, max: 3, label: "Flat", description: "Neutral and going through the motions." },
+      { min: 6, max: 6, label: "Positive", description: "Upbeat and supportive." },
+      { min: 10, max: 10, label: "Genuine", description: "Authentic excitement that invites others in." },
+    ],
+  },
+  {
+    dimension: "engagementScore",
+    description: "Impressions relative to the author's X followers (absolute impressions when followers are unknown).",
+    bands: [
+      { min: 0, max: 0, label: "Low", description: "Under 0.2x followers, or under 500 impressions." },
+      { min: 5, max: 5, label: "Fair", description: "0.2–0.5x followers, or 500–1,500 impressions." },
+      { min: 10, max: 10, label: "Solid", description: "0.5–1.5x followers, or up to 5,000 impressions." },
+      { min: 15, max: 15, label: "Strong", description: "1.5–3x followers, or up to 10,000 impressions." },
+      { min: 20, max: 20, label: "Exceptional", description: "3x followers or more, or over 10,000 impressions." },
+    ],
+  },
+];
+
+/** The rubric for every dimension, with admin edits applied over the defaults. */
+export async function getReviewRubric(): Promise<RubricGuide[]> {
+  const stored = await db.getCollection<RubricGuide & { id: string }>(RUBRIC_COLLECTION);
+  return DEFAULT_RUBRIC.map((guide) => {
+    const saved = stored.find((entry) => entry.dimension === guide.dimension);
+    if (!saved) return guide;
+    const { id: _id, ...rest } = saved;
+    return rest;
+  });
+}
+
+function normalizeBands(dimension: RubricDimension, bands: RubricBand[]): RubricBand[] {
+  const maxPoints = RUBRIC_MAX_POINTS[dimension];
+  const normalized = bands
+    .map((band) => ({
+      min: band.min,
+      max: band.max,
+      label: band.label.trim(),
+      description: band.description.trim(),
+      ...(band.example?.trim() ? { example: band.example.trim() } : {}),
+    }))
+    .sort((a, b) => a.min - b.min);
+  for (const band of normalized) {
+    if (!band.label) {
+      throw new Error("Every score band needs a label");
+    }
+    if (band.min < 0 || band.max > maxPoints || band.min > band.max) {
+      throw new Error(`Score bands must lie between 0 and ${maxPoints}`);
+    }
+  }
+  return normalized;
+}
+
+export async function saveRubricGuide(
+  dimension: RubricDimension,
+  input: { description: string; bands: RubricBand[] },
+  userId: string
+): Promise<{ before: RubricGuide; guide: RubricGuide }> {
+  const before = (await getReviewRubric()).find((guide) => guide.dimension === dimension);
+  if (!before) {
+    throw new Error("Unknown rubric dimension");
+  }
+  const guide: RubricGuide = {
+    dimension,
+    description: input.description.trim(),
+    bands: normalizeBands(dimension, input.bands),
+    updatedAt: new Date().toISOString(),
+    updatedByUserId: userId,
+  };
+  await db.upsert(RUBRIC_COLLECTION, { id: dimension, ...guide });
+  return { before, guide };
+}
+
+export async function listFeedbackSnippets(): Promise<FeedbackSnippet[]> {
+  const snippets = await db.getCollection<FeedbackSnippet>(SNIPPETS_COLLECTION);
+  return [...snippets].sort((a, b) => a.title.localeCompare(b.title));
+}
+
+export async function saveFeedbackSnippet(
+  input: { id?: string; title: string; text: string; status?: FeedbackSnippet["status"] },
+  userId: string
+): Promise<{ before: FeedbackSnippet | null; snippet: FeedbackSnippet }> {
+  const existing = input.id ? await db.getById<FeedbackSnippet>(SNIPPETS_COLLECTION, input.id) : null;
+  if (input.id && !existing) {
+    throw new Error("Snippet not found");
+  }
+  const now = new Date().toISOString();
+  const snippet: FeedbackSnippet = {
+    id: existing?.id || `snippet-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    title: input.title.trim(),
+    text: input.text.trim(),
+    status: input.status,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    updatedByUserId: userId,
+  };
+  if (existing) {
+    await db.update<FeedbackSnippet>(SNIPPETS_COLLECTION, snippet.id, snippet);
+  } else {
+    await db.create<FeedbackSnippet>(SNIPPETS_COLLECTION, snippet);
+  }
+  return { before: existing, snippet };
+}
+
+export async function deleteFeedbackSnippet(id: string): Promise<FeedbackSnippet> {
+  const existing = await db.getById<FeedbackSnippet>(SNIPPETS_COLLECTION, id);
+  if (!existing) {
+    throw new Error("Snippet not found");
+  }
+  await db.remove(SNIPPETS_COLLECTION, id);
+  return existing;
+}
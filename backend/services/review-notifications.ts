@@ -0,0 +1,76 @@
+import { db } from "@/backend/db";
+import { isTelegramNotificationEnabled } from "@/backend/services/notification-preferences";
+import { notifyUsers } from "@/backend/services/notifications";
+import { getTelegramChatId } from "@/backend/services/telegram-links";
+import { sendSubmissionReviewNotification } from "@/backend/services/telegram-notifications";
+import type { NotificationCategory, Submission, SubmissionStatus, User } from "@/types";
+
+const USERS_COLLECTION = "users";
+// Telegram only makes http(s) links tappable, so production should point this at the web app.
+const APP_LINK_BASE_URL = process.env.APP_LINK_BASE_URL || "rork-app://";
+
+const CATEGORY_BY_STATUS: Partial<Record<SubmissionStatus, NotificationCategory>> = {
+  approved: "submission_approved",
+  needs_edits: "submission_needs_edits",
+  rejected: "submission_rejected",
+};
+
+const IN_APP_TITLES: Partial<Record<SubmissionStatus, string>> = {
+  approved: "Submission approved",
+  needs_edits: "Submission needs edits",
+  rejected: "Submission rejected",
+};
+
+function getSubmissionUrl(submissionId: string): string {
+  const base = /(\/|:\/\/)$/.test(APP_LINK_BASE_URL) ? APP_LINK_BASE_URL : `${APP_LINK_BASE_URL}/`;
+  return `${base}submissions?submissionId=${encodeURIComponent(submissionId)}`;
+}
+
+function formatChecklist(submission: Submission): string {
+  return (submission.editChecklist || []).map((item) => `• ${item.label}`).join("\n");
+}
+
+function buildInAppBody(submission: Submission): string {
+  const score = submission.rating ? ` · ${submission.rating.totalScore}/100` : "";
+  const feedback = (submission.feedback || "").trim();
+  return [`${submission.taskTitle}${score}`, feedback, formatChecklist(submission)].filter(Boolean).join("\n");
+}
+
+/**
+ * Tells the ambassador about a review outcome: always in the app and by push, and in
+ * their linked Telegram chat unless they turned that category off. Saving a review again
+ * with the same status, feedback and checklist does not notify a second time.
+ */
+export async function notifySubmissionReviewed(
+  before: Submission,
+  after: Submission
+): Promise<{ sent: boolean; reason?: string }> {
+  const category = CATEGORY_BY_STATUS[after.status];
+  if (!category) return { sent: false, reason: "No notification for this status" };
+  if (
+    before.status === after.status &&
+    (before.feedback || "") === (after.feedback || "") &&
+    formatChecklist(before) === formatChecklist(after)
+  ) {
+    return { sent: false, reason: "Review outcome unchanged" };
+  }
+
+  await notifyUsers([after.userId], {
+    type: "review",
+    title: IN_APP_TITLES[after.status] || "Submission reviewed",
+    body: buildInAppBody(after),
+    link: `/(tabs)/submissions?submissionId=${encodeURIComponent(after.id)}`,
+  }, { push: true });
+
+  const users = await db.getCollection<User>(USERS_COLLECTION);
+  const user = users.find((item) => item.id === after.userId);
+  if (!user) return { sent: false, reason: "Submission owner not found" };
+
+  const chatId = await getTelegramChatId(user);
+  if (!chatId) return { sent: false, reason: "Telegram not linked" };
+  if (!(await isTelegramNotificationEnabled(user.id, category))) {
+    return { sent: false, reason: `Disabled by user: ${category}` };
+  }
+
+  return sendSubmissionReviewNotification(chatId, after, getSubmissionUrl(after.id));
+}
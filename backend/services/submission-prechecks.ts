@@ -0,0 +1,176 @@
+import {
+  extractTweetId,
+  normalizePlatform,
+  normalizeTwitterHandle,
+  parseMultiLinks,
+} from "@/backend/services/performance";
+import { RUBRIC_MAX_POINTS } from "@/backend/services/review-guidance";
+import type { Submission, SubmissionPrecheck, SubmissionPrechecks, Task, User } from "@/types";
+
+type PrecheckTweet = {
+  text: string;
+  authorHandle: string | null;
+  hashtags: string[];
+  mentions: string[];
+  repostOf: string | null;
+};
+
+type TweetPayload = {
+  data?: {
+    text?: string;
+    author_id?: string;
+    entities?: { hashtags?: { tag: string }[]; mentions?: { username: string }[] };
+    referenced_tweets?: { type: string; id: string }[];
+  };
+  includes?: {
+    users?: { id: string; username: string }[];
+    tweets?: { id: string; author_id?: string }[];
+  };
+};
+
+function getTwitterToken(): string | null {
+  return process.env.TWITTER_BEARER_TOKEN || null;
+}
+
+function stripPrefix(value: string, prefix: "#" | "@"): string {
+  return value.trim().replace(prefix === "#" ? /^#+/ : /^@+/, "").toLowerCase();
+}
+
+async function fetchPrecheckTweet(tweetId: string): Promise<PrecheckTweet | null> {
+  const token = getTwitterToken();
+  if (!token) throw new Error("TWITTER_BEARER_TOKEN is not configured");
+
+  const response = await fetch(
+    `https://api.twitter.com/2/tweets/${tweetId}?tweet.fields=author_id,entities,referenced_tweets&expansions=author_id,referenced_tweets.id.author_id&user.fields=username`,
+    { headers: { Authorization: `Bearer ${token}` } }
+  );
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`X API error ${response.status}: ${body.slice(0, 200)}`);
+  }
+
+  const payload = (await response.json()) as TweetPayload;
+  const tweet = payload.data;
+  if (!tweet) return null;
+
+  const users = payload.includes?.users || [];
+  const usernameById = (id?: string) => users.find((user) => user.id === id)?.username || null;
+  const retweeted = tweet.referenced_tweets?.find((ref) => ref.type === "retweeted");
+  const retweetedAuthorId = retweeted
+    ? payload.includes?.tweets?.find((included) => included.id === retweeted.id)?.author_id
+    : undefined;
+  const text = tweet.text || "";
+
+  return {
+    text,
+    authorHandle: normalizeTwitterHandle(usernameById(tweet.author_id) || undefined),
+    hashtags: (tweet.entities?.hashtags || []).map((entry) => entry.tag.toLowerCase()),
+    mentions: (tweet.entities?.mentions || []).map((entry) => entry.username.toLowerCase()),
+    repostOf: retweeted
+      ? normalizeTwitterHandle(usernameById(retweetedAuthorId) || text.match(/^RT @(\w+):/)?.[1]) || "unknown"
+      : null,
+  };
+}
+
+/**
+ * Checks a fetched tweet against the task's required hashtags and mentions, whether it
+ * reposts another account, and whether the ambassador's X handle posted it. The relevance
+ * suggestion scales with the share of required tags found and is 0 for a repost.
+ */
+export function evaluatePrechecks(
+  task: Pick<Task, "hashtags" | "mentions"> | null,
+  tweet: PrecheckTweet,
+  author: Pick<User, "handles"> | null
+): Pick<SubmissionPrechecks, "checks" | "suggestedRelevance"> {
+  const text = tweet.text.toLowerCase();
+  const checks: SubmissionPrecheck[] = [];
+
+  const requiredHashtags = (task?.hashtags || []).map((tag) => stripPrefix(tag, "#")).filter(Boolean);
+  const missingHashtags = requiredHashtags.filter((tag) => !tweet.hashtags.includes(tag) && !text.includes(`#${tag}`));
+  if (requiredHashtags.length > 0) {
+    checks.push({
+      key: "hashtags",
+      label: "Hashtags",
+      passed: missingHashtags.length === 0,
+      detail: missingHashtags.length > 0 ? `Missing ${missingHashtags.map((tag) => `#${tag}`).join(", ")}` : undefined,
+    });
+  }
+
+  const requiredMentions = (task?.mentions || []).map((mention) => stripPrefix(mention, "@")).filter(Boolean);
+  const missingMentions = requiredMentions.filter(
+    (mention) => !tweet.mentions.includes(mention) && !text.includes(`@${mention}`)
+  );
+  if (requiredMentions.length > 0) {
+    checks.push({
+      key: "mentions",
+      label: "Mentions",
+      passed: missingMentions.length === 0,
+      detail: missingMentions.length > 0 ? `Missing ${missingMentions.map((mention) => `@${mention}`).join(", ")}` : undefined,
+    });
+  }
+
+  const isRepost = Boolean(tweet.repostOf) && tweet.repostOf !== tweet.authorHandle;
+  checks.push({
+    key: "original",
+    label: "Original post",
+    passed: !isRepost,
+    detail: isRepost ? `Repost of @${tweet.repostOf}` : undefined,
+  });
+
+  const expectedHandle = normalizeTwitterHandle(author?.handles?.twitter);
+  checks.push({
+    key: "author",
+    label: "Author",
+    passed: Boolean(expectedHandle) && expectedHandle === tweet.authorHandle,
+    detail: !expectedHandle
+      ? "No X handle on the ambassador's profile"
+      : expectedHandle !== tweet.authorHandle
+        ? `Posted by @${tweet.authorHandle || "unknown"}, profile has @${expectedHandle}`
+        : undefined,
+  });
+
+  const requiredCount = requiredHashtags.length + requiredMentions.length;
+  const foundCount = requiredCount - missingHashtags.length - missingMentions.length;
+  const maxPoints = RUBRIC_MAX_POINTS.relevanceToTask;
+  const suggestedRelevance = isRepost
+    ? 0
+    : requiredCount > 0
+      ? Math.round(((foundCount / requiredCount) * maxPoints) / 5) * 5
+      : undefined;
+
+  return { checks, suggestedRelevance };
+}
+
+/** Fetches the submission's X post and runs the pre-review checks on it. */
+export async function runSubmissionPrechecks(
+  submission: Submission,
+  task: Pick<Task, "hashtags" | "mentions"> | null,
+  author: Pick<User, "handles"> | null
+): Promise<SubmissionPrechecks> {
+  const links = parseMultiLinks(
+    normalizePlatform(submission.platform),
+    submission.postUrl,
+    submission.platforms,
+    submission.links
+  );
+  const tweetUrl = links.find((item) => normalizePlatform(item.platform) === "twitter")?.url;
+  if (!tweetUrl) {
+    throw new Error("This submission has no X post to check");
+  }
+  const tweetId = extractTweetId(tweetUrl);
+  if (!tweetId) {
+    throw new Error("Could not read the post id from the X link");
+  }
+
+  const tweet = await fetchPrecheckTweet(tweetId);
+  if (!tweet) {
+    throw new Error("The X post could not be found. It may have been deleted.");
+  }
+
+  return {
+    tweetUrl,
+    checkedAt: new Date().toISOString(),
+    ...evaluatePrechecks(task, tweet, author),
+  };
+}
@@ -0,0 +1,146 @@
+import { buildEditChecklist, canReviewSubmissionBy } from "@/lib/submission-review";
+import type {
+  EditChecklistItem,
+  Submission,
+  SubmissionRating,
+  SubmissionReviewClaim,
+  SubmissionReviewEntry,
+  SubmissionStatus,
+  Task,
+  User,
+} from "@/types";
+
+/** How long a reviewer holds a submission after opening it. */
+export const REVIEW_CLAIM_MINUTES = 30;
+/** Approvals scoring at least this much need a second reviewer. */
+export const SECOND_REVIEW_MIN_SCORE = 85;
+
+const reviewLocks = new Map<string, Promise<unknown>>();
+
+export function getActiveReviewClaim(submission: Submission, nowMs = Date.now()): SubmissionReviewClaim | null {
+  const claim = submission.reviewClaim;
+  if (!claim) return null;
+  const expiresMs = Date.parse(claim.expiresAt);
+  return Number.isNaN(expiresMs) || expiresMs <= nowMs ? null : claim;
+}
+
+/**
+ * Throws when the reviewer may not work on the submission: a regional lead outside the
+ * author's region or looking at a decided submission, another reviewer holding an
+ * unexpired claim, or an assignment to another reviewer.
+ */
+export function assertCanReview(
+  submission: Submission,
+  reviewer: User,
+  author: User | null,
+  nowMs = Date.now()
+): void {
+  if (!canReviewSubmissionBy(reviewer, author)) {
+    throw new Error("You can only review submissions from ambassadors in your region");
+  }
+  if (reviewer.role !== "admin" && submission.status !== "pending") {
+    throw new Error("Only admins can change a decision that has already been made");
+  }
+  const claim = getActiveReviewClaim(submission, nowMs);
+  if (claim && claim.reviewerId !== reviewer.id) {
+    throw new Error(`${claim.reviewerName} is reviewing this submission`);
+  }
+  if (submission.assignedReviewerId && submission.assignedReviewerId !== reviewer.id) {
+    throw new Error("This submission is assigned to another reviewer");
+  }
+}
+
+export function buildReviewClaim(reviewer: User, nowMs = Date.now()): SubmissionReviewClaim {
+  return {
+    reviewerId: reviewer.id,
+    reviewerName: reviewer.name,
+    claimedAt: new Date(nowMs).toISOString(),
+    expiresAt: new Date(nowMs + REVIEW_CLAIM_MINUTES * 60 * 1000).toISOString(),
+  };
+}
+
+/** Whether an admin's decision replaces one a regional lead made. */
+export function isLeadOverride(submission: Submission, reviewer: User): boolean {
+  const lastEntry = submission.reviewHistory?.[submission.reviewHistory.length - 1];
+  return reviewer.role === "admin" && submission.status !== "pending" && lastEntry?.reviewerRole === "regional_lead";
+}
+
+export function getReviewStage(submission: Submission): SubmissionReviewEntry["stage"] {
+  return submission.secondReviewReason ? "second" : "first";
+}
+
+/** The second reviewer must be someone other than whoever gave the first approval. */
+export function assertCanGiveSecondReview(submission: Submission, reviewer: User): void {
+  const firstReview = [...(submission.reviewHistory || [])].reverse().find((entry) => entry.stage === "first");
+  if (firstReview?.reviewerId === reviewer.id) {
+    throw new Error("A different reviewer must give the second review");
+  }
+}
+
+/**
+ * Why a first-stage decision needs a second reviewer, or null when it is final.
+ * Only approvals go to second review: a high score, a flagged or recycled submission,
+ * or the reviewer asking for one.
+ */
+export function getSecondReviewReason(
+  submission: Submission,
+  status: SubmissionStatus,
+  rating: SubmissionRating | undefined,
+  requested: boolean
+): string | null {
+  if (status !== "approved") return null;
+  if (requested) return "Requested by reviewer";
+  if (submission.flaggedForReview) return submission.flaggedReason || "Flagged for review";
+  if (submission.duplicateOf) return "Reuses an earlier post";
+  if (rating && rating.totalScore >= SECOND_REVIEW_MIN_SCORE) return `Score ${rating.totalScore} or higher`;
+  return null;
+}
+
+export function buildReviewEntry(
+  stage: SubmissionReviewEntry["stage"],
+  reviewer: User,
+  decision: Pick<SubmissionReviewEntry, "status" | "feedback" | "rating" | "editChecklist" | "overridesLead">,
+  reviewedAt: string
+): SubmissionReviewEntry {
+  return {
+    id: `review-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    stage,
+    reviewerId: reviewer.id,
+    reviewerName: reviewer.name,
+    reviewerRole: reviewer.role,
+    ...(decision.overridesLead ? { overridesLead: true } : {}),
+    status: decision.status,
+    feedback: decision.feedback,
+    rating: decision.rating,
+    ...(decision.editChecklist?.length ? { editChecklist: decision.editChecklist } : {}),
+    reviewedAt,
+  };
+}
+
+/** Resolves the checklist items a reviewer ticked against the task's current checklist. */
+export function resolveEditChecklist(task: Task | null, itemIds: string[]): EditChecklistItem[] {
+  if (itemIds.length === 0) return [];
+  const checklist = task ? buildEditChecklist(task) : [];
+  return itemIds.map((itemId) => {
+    const item = checklist.find((entry) => entry.id === itemId);
+    if (!item) {
+      throw new Error("The task's checklist has changed. Reopen the submission and try again.");
+    }
+    return item;
+  });
+}
+
+/** Runs `fn` after any earlier claim, release or review of the same submission has finished. */
+export async function withSubmissionReviewLock<T>(submissionId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = reviewLocks.get(submissionId) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  const tail = run.catch(() => undefined);
+  reviewLocks.set(submissionId, tail);
+  try {
+    return await run;
+  } finally {
+    if (reviewLocks.get(submissionId) === tail) {
+      reviewLocks.delete(submissionId);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+import type { TaskTemplate } from "@/types";
+
+export type TaskImportFormat = "csv" | "json";
+
+export type TaskImportRow = {
+  row: number; // 1-based, not counting the CSV header
+  values: Record<string, unknown>;
+};
+
+export const MAX_TASK_IMPORT_ROWS = 200;
+
+// CSV cells hold one value, so list columns separate their items with "|".
+const LIST_COLUMNS = new Set(["platforms", "hashtags", "mentions", "dos", "donts", "regions", "roles", "userIds"]);
+const NUMBER_COLUMNS = new Set(["points", "maxSubmissions", "maxSubmissionsPerUser", "deadlineGraceMinutes"]);
+const AUDIENCE_COLUMNS = ["regions", "roles", "userIds"] as const;
+// Lists a task may leave empty; `platforms` stays required.
+const OPTIONAL_LIST_FIELDS = ["hashtags", "mentions", "dos", "donts"] as const;
+
+/** Splits CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks. */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((value) => value.trim()));
+}
+
+function csvRowToValues(header: string[], cells: string[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  header.forEach((column, index) => {
+    const raw = (cells[index] || "").trim();
+    if (!column || !raw) return;
+    if (LIST_COLUMNS.has(column)) {
+      values[column] = raw.split("|").map((item) => item.trim()).filter(Boolean);
+    } else if (NUMBER_COLUMNS.has(column)) {
+      const parsed = Number(raw);
+      values[column] = Number.isNaN(parsed) ? raw : parsed;
+    } else {
+      values[column] = raw;
+    }
+  });
+
+  const audience: Record<string, unknown> = {};
+  for (const column of AUDIENCE_COLUMNS) {
+    if (values[column] !== undefined) {
+      audience[column] = values[column];
+      delete values[column];
+    }
+  }
+  if (Object.keys(audience).length > 0) {
+    values.audience = audience;
+  }
+  return values;
+}
+
+/**
+ * Reads an import file into raw rows. CSV needs a header row naming `tasks.create` fields,
+ * plus optional `template`, `regions`, `roles` and `userIds` columns; JSON is an array of
+ * objects with the same keys. Rows are validated later, one at a time.
+ */
+export function parseTaskImport(format: TaskImportFormat, content: string): TaskImportRow[] {
+  let rows: Record<string, unknown>[];
+  if (format === "json") {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      throw new Error("The file is not valid JSON");
+    }
+    if (!Array.isArray(parsed)) {
+      throw new Error("JSON imports must be an array of tasks");
+    }
+    rows = parsed.map((item) => (item && typeof item === "object" && !Array.isArray(item) ? item : {}));
+  } else {
+    const [header, ...cells] = parseCsv(content);
+    if (!header) {
+      throw new Error("The CSV file is empty");
+    }
+    const columns = header.map((column) => column.trim());
+    rows = cells.map((rowCells) => csvRowToValues(columns, rowCells));
+  }
+
+  if (rows.length === 0) {
+    throw new Error("There are no tasks to import");
+  }
+  if (rows.length > MAX_TASK_IMPORT_ROWS) {
+    throw new Error(`Import at most ${MAX_TASK_IMPORT_ROWS} tasks at a time`);
+  }
+  return rows.map((values, index) => ({ row: index + 1, values }));
+}
+
+/** Template fields fill in whatever the row leaves out. */
+export function applyTaskTemplate(values: Record<string, unknown>, template: TaskTemplate): Record<string, unknown> {
+  const { id: _id, name: _name, createdAt: _createdAt, updatedAt: _updatedAt, updatedByUserId: _userId, ...fields } = template;
+  const merged: Record<string, unknown> = { ...fields };
+  for (const [key, value] of Object.entries(values)) {
+    if (key !== "template" && value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+/** Fills in empty lists for the optional list fields a row (and its template) left out. */
+export function withTaskImportDefaults(values: Record<string, unknown>): Record<string, unknown> {
+  const filled = { ...values };
+  for (const field of OPTIONAL_LIST_FIELDS) {
+    if (filled[field] === undefined) filled[field] = [];
+  }
+  return filled;
+}
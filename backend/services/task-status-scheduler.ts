@@ -0,0 +1,121 @@
+import { db } from "@/backend/db";
+import { notifyActiveUsers } from "@/backend/services/notifications";
+import { getSubmissionCutoffMs } from "@/backend/services/task-submission-rules";
+import { sendTaskActiveNotification } from "@/backend/services/telegram-notifications";
+import { isTaskVisibleToUser } from "@/lib/task-audience";
+import type { Task, TaskStatus, TaskTransition, TaskTransitionLog } from "@/types";
+
+const TASKS_COLLECTION = "tasks";
+const TRANSITION_LOGS_COLLECTION = "task_transition_logs";
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+let checkTimer: ReturnType<typeof setInterval> | null = null;
+let runChain: Promise<unknown> = Promise.resolve();
+
+function getTransitionLogId(taskId: string, transition: TaskTransition, scheduledFor: string): string {
+  return `${taskId}|${transition}|${scheduledFor}`;
+}
+
+/** Posts a newly active task to Telegram and notifies its audience in-app and by push. */
+export async function announceTaskActivation(task: Task, actorId?: string): Promise<void> {
+  const result = await sendTaskActiveNotification(task);
+  if (!result.sent) {
+    console.log("[TaskScheduler] Telegram task notification skipped/failed:", result.reason);
+  }
+  await notifyActiveUsers(
+    { type: "task", title: "New task", body: task.title, link: `/task/${task.id}` },
+    (user) => user.id !== actorId && isTaskVisibleToUser(task, user),
+    { push: true }
+  );
+}
+
+/** Whether a task is still waiting for its publish time; such tasks are hidden from ambassadors. */
+export function isTaskScheduled(task: Pick<Task, "status" | "publishAt">, nowMs = Date.now()): boolean {
+  if (task.status !== "upcoming" || !task.publishAt) return false;
+  const publishAtMs = Date.parse(task.publishAt);
+  return !Number.isNaN(publishAtMs) && publishAtMs > nowMs;
+}
+
+/**
+ * Applies one transition unless the log shows it already happened. The log is keyed on the
+ * time the change was due, so an admin who reopens a completed task or pulls a published
+ * one back is not overridden, while a new deadline or publish time schedules a new change.
+ */
+async function applyTransition(
+  task: Task,
+  transition: TaskTransition,
+  status: TaskStatus,
+  scheduledFor: string
+): Promise<boolean> {
+  const id = getTransitionLogId(task.id, transition, scheduledFor);
+  const logs = await db.getCollection<TaskTransitionLog>(TRANSITION_LOGS_COLLECTION);
+  if (logs.some((log) => log.id === id)) {
+    return false;
+  }
+
+  await db.update<Task>(TASKS_COLLECTION, task.id, { status });
+  await db.create<TaskTransitionLog>(TRANSITION_LOGS_COLLECTION, {
+    id,
+    taskId: task.id,
+    transition,
+    scheduledFor,
+    appliedAt: new Date().toISOString(),
+  });
+  console.log("[TaskScheduler] Task", task.id, transition === "publish" ? "published" : "completed");
+  return true;
+}
+
+async function runTransitions(nowMs: number): Promise<{ published: number; completed: number }> {
+  const tasks = await db.getCollection<Task>(TASKS_COLLECTION);
+  let published = 0;
+  let completed = 0;
+
+  for (const task of tasks) {
+    if (task.status === "completed") continue;
+
+    const cutoffMs = getSubmissionCutoffMs(task);
+    if (cutoffMs !== null && cutoffMs < nowMs) {
+      // A task whose window closed before it was published is completed without an announcement.
+      if (await applyTransition(task, "complete", "completed", new Date(cutoffMs).toISOString())) {
+        completed += 1;
+      }
+      continue;
+    }
+
+    const publishAtMs = task.publishAt ? Date.parse(task.publishAt) : NaN;
+    if (task.status !== "upcoming" || Number.isNaN(publishAtMs) || publishAtMs > nowMs) continue;
+    if (await applyTransition(task, "publish", "active", new Date(publishAtMs).toISOString())) {
+      published += 1;
+      try {
+        await announceTaskActivation({ ...task, status: "active" });
+      } catch (error) {
+        console.log("[TaskScheduler] Announce error:", error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  return { published, completed };
+}
+
+/** Publishes due upcoming tasks and completes tasks past their deadline. Runs one pass at a time. */
+export async function runTaskStatusTransitions(nowMs = Date.now()): Promise<{ published: number; completed: number }> {
+  const run = runChain.catch(() => undefined).then(() => runTransitions(nowMs));
+  runChain = run;
+  return run;
+}
+
+export function startTaskStatusScheduler() {
+  if (checkTimer) return;
+
+  refreshTaskStatusSchedule();
+  checkTimer = setInterval(() => {
+    refreshTaskStatusSchedule();
+  }, CHECK_INTERVAL_MS);
+}
+
+/** Runs a pass now, for example after a task's publish time or deadline changed. */
+export function refreshTaskStatusSchedule() {
+  void runTaskStatusTransitions().catch((error) => {
+    console.log("[TaskScheduler] Run error:", error instanceof Error ? error.message : String(error));
+  });
+}
@@ -0,0 +1,88 @@
+import { db } from "@/backend/db";
+import type { Submission, Task } from "@/types";
+
+const SUBMISSIONS_COLLECTION = "submissions";
+export const DEFAULT_MAX_SUBMISSIONS_PER_USER = 1;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const taskLocks = new Map<string, Promise<unknown>>();
+
+// Rejected submissions give their slot back, so the ambassador can try again.
+function countsTowardLimits(submission: Pick<Submission, "status">): boolean {
+  return submission.status !== "rejected";
+}
+
+/** A date-only deadline ("2025-06-30") runs to the end of that day in UTC. */
+export function getTaskDeadlineMs(task: Pick<Task, "deadline">): number | null {
+  const deadline = (task.deadline || "").trim();
+  const parsed = Date.parse(deadline);
+  if (Number.isNaN(parsed)) return null;
+  return DATE_ONLY_PATTERN.test(deadline) ? parsed + DAY_MS - 1 : parsed;
+}
+
+export function getSubmissionCutoffMs(task: Pick<Task, "deadline" | "deadlineGraceMinutes">): number | null {
+  const deadlineMs = getTaskDeadlineMs(task);
+  if (deadlineMs === null) return null;
+  return deadlineMs + Math.max(0, task.deadlineGraceMinutes || 0) * 60 * 1000;
+}
+
+/** Sets `submissions` on each task from the submission records rather than a stored counter. */
+export async function withDerivedSubmissionCounts<T extends Pick<Task, "id" | "submissions">>(tasks: T[]): Promise<T[]> {
+  const submissions = await db.getCollection<Submission>(SUBMISSIONS_COLLECTION);
+  const counts = new Map<string, number>();
+  for (const submission of submissions) {
+    if (!countsTowardLimits(submission)) continue;
+    counts.set(submission.taskId, (counts.get(submission.taskId) || 0) + 1);
+  }
+  return tasks.map((task) => ({ ...task, submissions: counts.get(task.id) || 0 }));
+}
+
+/**
+ * Throws when a user may not submit to a task right now: the task is not active, the
+ * deadline and its grace period have passed, or the task or the user is at their cap.
+ * Call inside `withTaskSubmissionLock` so the cap counts cannot race.
+ */
+export async function assertTaskAcceptsSubmission(task: Task, userId: string, nowMs = Date.now()): Promise<void> {
+  if (task.status === "completed") {
+    throw new Error("This task is completed and no longer accepts submissions");
+  }
+  if (task.status !== "active") {
+    throw new Error("This task is not open for submissions yet");
+  }
+
+  const cutoffMs = getSubmissionCutoffMs(task);
+  if (cutoffMs !== null && nowMs > cutoffMs) {
+    throw new Error("The deadline for this task has passed");
+  }
+
+  const submissions = (await db.getCollection<Submission>(SUBMISSIONS_COLLECTION)).filter(
+    (submission) => submission.taskId === task.id && countsTowardLimits(submission)
+  );
+  if (task.maxSubmissions && submissions.length >= task.maxSubmissions) {
+    throw new Error("This task has reached its submission limit");
+  }
+  const perUserLimit = task.maxSubmissionsPerUser || DEFAULT_MAX_SUBMISSIONS_PER_USER;
+  if (submissions.filter((submission) => submission.userId === userId).length >= perUserLimit) {
+    throw new Error(
+      perUserLimit === 1
+        ? "You have already submitted for this task"
+        : `You can submit up to ${perUserLimit} times for this task`
+    );
+  }
+}
+
+/** Runs `fn` after any earlier submission for the same task has finished. */
+export async function withTaskSubmissionLock<T>(taskId: string, fn: () => Promise<T>): Promise<T> {
+  const previous = taskLocks.get(taskId) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(fn);
+  const tail = run.catch(() => undefined);
+  taskLocks.set(taskId, tail);
+  try {
+    return await run;
+  } finally {
+    if (taskLocks.get(taskId) === tail) {
+      taskLocks.delete(taskId);
+    }
+  }
+}
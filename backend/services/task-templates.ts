@@ -0,0 +1,68 @@
+import { db } from "@/backend/db";
+import { normalizeTaskAudience } from "@/lib/task-audience";
+import type { TaskTemplate, TaskTemplateFields } from "@/types";
+
+const TEMPLATES_COLLECTION = "task_templates";
+
+export async function listTaskTemplates(): Promise<TaskTemplate[]> {
+  const templates = await db.getCollection<TaskTemplate>(TEMPLATES_COLLECTION);
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Looks a template up by id, or by name ignoring case, as import files refer to them. */
+export async function findTaskTemplate(idOrName: string): Promise<TaskTemplate | null> {
+  const key = idOrName.trim().toLowerCase();
+  const templates = await db.getCollection<TaskTemplate>(TEMPLATES_COLLECTION);
+  return (
+    templates.find((template) => template.id === idOrName.trim()) ||
+    templates.find((template) => template.name.toLowerCase() === key) ||
+    null
+  );
+}
+
+/** Creates or replaces a template. Names are unique so imports can refer to them. */
+export async function saveTaskTemplate(
+  input: TaskTemplateFields & { id?: string; name: string },
+  userId: string
+): Promise<{ before: TaskTemplate | null; template: TaskTemplate }> {
+  const name = input.name.trim();
+  const templates = await db.getCollection<TaskTemplate>(TEMPLATES_COLLECTION);
+  const existing = input.id ? templates.find((template) => template.id === input.id) : null;
+  if (input.id && !existing) {
+    throw new Error("Template not found");
+  }
+  const clash = templates.find(
+    (template) => template.id !== existing?.id && template.name.toLowerCase() === name.toLowerCase()
+  );
+  if (clash) {
+    throw new Error("A template with this name already exists");
+  }
+
+  const now = new Date().toISOString();
+  const { id: _id, name: _name, ...fields } = input;
+  const template: TaskTemplate = {
+    ...fields,
+    audience: normalizeTaskAudience(fields.audience),
+    id: existing?.id || `tasktpl-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    updatedByUserId: userId,
+  };
+  if (existing) {
+    await db.update<TaskTemplate>(TEMPLATES_COLLECTION, template.id, template);
+  } else {
+    await db.create<TaskTemplate>(TEMPLATES_COLLECTION, template);
+  }
+  return { before: existing || null, template };
+}
+
+export async function deleteTaskTemplate(id: string): Promise<TaskTemplate> {
+  const templates = await db.getCollection<TaskTemplate>(TEMPLATES_COLLECTION);
+  const existing = templates.find((template) => template.id === id);
+  if (!existing) {
+    throw new Error("Template not found");
+  }
+  await db.remove(TEMPLATES_COLLECTION, id);
+  return existing;
+}
@@ -0,0 +1,182 @@
+import { appRouter } from "@/backend/trpc/app-router";
+import { isValidPlatformUrl } from "@/backend/services/performance";
+import { redeemTelegramLinkCode, resolveTelegramChatUser } from "@/backend/services/telegram-links";
+import { sendTelegramMessage } from "@/backend/services/telegram-notifications";
+import { getNextEventOccurrence } from "@/lib/event-schedule";
+import type { Platform, User } from "@/types";
+
+const MAX_LISTED_TASKS = 10;
+const MAX_LISTED_EVENTS = 5;
+const SUBMIT_PLATFORMS: Platform[] = ["twitter", "instagram", "tiktok", "youtube", "facebook", "telegram"];
+
+// Only the parts of Telegram's Update object the bot reads.
+export type TelegramUpdate = {
+  update_id: number;
+  message?: {
+    message_id: number;
+    text?: string;
+    chat: { id: number; type: string };
+    from?: { id: number; username?: string };
+  };
+};
+
+type BotCaller = ReturnType<typeof appRouter.createCaller>;
+
+const HELP_TEXT = [
+  "Ambassador OS bot",
+  "/tasks - active tasks",
+  "/rank - your season points and rank",
+  "/submit <url> <taskId> - submit a post for review",
+  "/events - upcoming events",
+  "/rsvp <eventId> - RSVP to an event (/rsvp <eventId> off to cancel)",
+  "/link <code> - link this chat to your account",
+].join("\n");
+
+const NOT_LINKED_TEXT = "This chat is not linked yet. In the app, open Profile > Telegram Bot to get a code, then send /link <code>.";
+
+function parseCommand(text: string): { command: string; args: string[] } | null {
+  const [head, ...args] = text.trim().split(/\s+/);
+  if (!head?.startsWith("/")) return null;
+  // Group-style commands look like /tasks@BotName.
+  return { command: head.slice(1).split("@")[0].toLowerCase(), args };
+}
+
+// Commands run through the tRPC router as the linked user, so the usual access rules apply.
+function createUserCaller(user: User): BotCaller {
+  return appRouter.createCaller({ req: new Request("http://telegram.local/webhook"), user });
+}
+
+function detectPlatform(url: string): Platform | null {
+  return SUBMIT_PLATFORMS.find((platform) => isValidPlatformUrl(platform, url)) || null;
+}
+
+async function listTasks(caller: BotCaller): Promise<string> {
+  const tasks = (await caller.tasks.list())
+    .filter((task) => task.status === "active")
+    .sort((a, b) => (a.deadline || "").localeCompare(b.deadline || ""));
+  if (tasks.length === 0) return "No active tasks right now.";
+
+  const lines = tasks.slice(0, MAX_LISTED_TASKS).map((task) =>
+    `• ${task.title} (${task.points} pts)\n  ID: ${task.id} · Deadline: ${task.deadline || "none"}`
+  );
+  if (tasks.length > MAX_LISTED_TASKS) lines.push(`…and ${tasks.length - MAX_LISTED_TASKS} more in the app.`);
+  return ["Active tasks:", ...lines, "", "Submit with /submit <url> <taskId>"].join("\n");
+}
+
+async function describeRank(caller: BotCaller, user: User): Promise<string> {
+  const leaderboard = await caller.users.getLeaderboard({ limit: 3 });
+  const lines = [
+    `Season points: ${user.season_points || 0}`,
+    `Season rank: ${user.season_rank ? `#${user.season_rank}` : "unranked"}`,
+    `Approved submissions: ${user.season_approved_count || 0}`,
+  ];
+  if (leaderboard.length > 0) {
+    lines.push("", "Top ambassadors:", ...leaderboard.map((entry) => `${entry.rank}. ${entry.name} - ${entry.points} pts`));
+  }
+  return lines.join("\n");
+}
+
+async function submitPost(caller: BotCaller, args: string[]): Promise<string> {
+  const [url, taskId] = args;
+  if (!url || !taskId) return "Usage: /submit <url> <taskId>";
+
+  const platform = detectPlatform(url);
+  if (!platform) return "That link is not from a supported platform (X, Instagram, TikTok, YouTube, Facebook, Telegram).";
+
+  const submission = await caller.submissions.create({ taskId, platform, postUrl: url });
+  return `Submitted for review: ${submission.taskTitle}\nSubmission ID: ${submission.id}`;
+}
+
+async function listEvents(caller: BotCaller): Promise<string> {
+  const nowMs = Date.now();
+  const upcoming = (await caller.events.list())
+    .map((event) => ({ event, occurrence: getNextEventOccurrence(event, nowMs) }))
+    .filter((item) => item.occurrence !== null)
+    .sort((a, b) => (a.occurrence?.startMs ?? 0) - (b.occurrence?.startMs ?? 0))
+    .slice(0, MAX_LISTED_EVENTS);
+  if (upcoming.length === 0) return "No upcoming events.";
+
+  const lines = upcoming.map(({ event, occurrence }) => {
+    const status = event.rsvpStatus === "waitlisted" ? " · waitlisted" : event.isRsvped ? " · going" : "";
+    return `• ${event.title} (${event.type === "irl" ? "IRL" : "online"})\n  ${occurrence?.date} ${event.time} ${event.timezone}\n  ID: ${event.id}${status}`;
+  });
+  return ["Upcoming events:", ...lines, "", "RSVP with /rsvp <eventId>"].join("\n");
+}
+
+async function rsvpToEvent(caller: BotCaller, args: string[]): Promise<string> {
+  const [eventId, flag] = args;
+  if (!eventId) return "Usage: /rsvp <eventId> (add \"off\" to cancel)";
+
+  const cancel = flag?.toLowerCase() === "off";
+  const event = await caller.events.updateRsvp({ id: eventId, isRsvped: !cancel });
+  if (cancel) return `RSVP cancelled for ${event.title}.`;
+  if (event.rsvpStatus === "waitlisted") return `${event.title} is full. You're on the waitlist.`;
+  return `You're going to ${event.title}.`;
+}
+
+async function runLinkedCommand(user: User, command: string, args: string[]): Promise<string> {
+  const caller = createUserCaller(user);
+  switch (command) {
+    case "tasks":
+      return listTasks(caller);
+    case "rank":
+      return describeRank(caller, user);
+    case "submit":
+      return submitPost(caller, args);
+    case "events":
+      return listEvents(caller);
+    case "rsvp":
+      return rsvpToEvent(caller, args);
+    default:
+      return HELP_TEXT;
+  }
+}
+
+async function linkChat(chatId: string, code: string | undefined, telegramUsername?: string): Promise<string> {
+  if (!code) return "Usage: /link <code>";
+  const user = await redeemTelegramLinkCode(code, { chatId, telegramUsername });
+  if (!user) return "That code is invalid or has expired. Create a new one in the app.";
+  return `Linked to ${user.name}. Send /help to see what I can do.`;
+}
+
+async function buildReply(chatId: string, text: string, telegramUsername?: string): Promise<string> {
+  const parsed = parseCommand(text);
+  if (!parsed) return HELP_TEXT;
+  const { command, args } = parsed;
+
+  // /start <code> comes from the t.me deep link the app opens.
+  if (command === "link" || (command === "start" && args[0])) {
+    return linkChat(chatId, args[0], telegramUsername);
+  }
+  if (command === "start" || command === "help") {
+    return HELP_TEXT;
+  }
+
+  const user = await resolveTelegramChatUser(chatId);
+  if (!user) return NOT_LINKED_TEXT;
+
+  try {
+    return await runLinkedCommand(user, command, args);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.log("[TelegramBot] Command failed:", command, "for", user.id, message);
+    return `Sorry, that didn't work: ${message}`;
+  }
+}
+
+/**
+ * Handles one webhook update. Replies go back to the chat the command came from and only
+ * ever contain data for the account linked to that chat. Group chats are ignored so one
+ * member's data is never posted to others.
+ */
+export async function handleTelegramUpdate(update: TelegramUpdate): Promise<void> {
+  const message = update.message;
+  if (!message?.text || message.chat.type !== "private") return;
+
+  const chatId = String(message.chat.id);
+  const reply = await buildReply(chatId, message.text, message.from?.username);
+  const result = await sendTelegramMessage(chatId, reply);
+  if (!result.sent) {
+    console.log("[TelegramBot] Reply failed for chat", chatId, result.reason);
+  }
+}
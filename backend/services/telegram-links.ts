@@ -0,0 +1,122 @@
+import { createHash, randomInt } from "crypto";
+import { db } from "@/backend/db";
+import type { TelegramLink, TelegramLinkCode, User } from "@/types";
+
+const CODES_COLLECTION = "telegram_link_codes";
+const LINKS_COLLECTION = "telegram_links";
+const USERS_COLLECTION = "users";
+const LINK_CODE_TTL_MS = 15 * 60 * 1000;
+const LINK_CODE_LENGTH = 8;
+const LINK_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function hashLinkCode(code: string): string {
+  return createHash("sha256").update(code.trim().toUpperCase()).digest("hex");
+}
+
+function generateLinkCode(): string {
+  let code = "";
+  for (let i = 0; i < LINK_CODE_LENGTH; i += 1) {
+    code += LINK_CODE_ALPHABET[randomInt(LINK_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function isOpen(linkCode: TelegramLinkCode, now = Date.now()): boolean {
+  return !linkCode.usedAt && new Date(linkCode.expiresAt).getTime() > now;
+}
+
+/**
+ * Issues a one-time code the user sends to the bot to link their chat. Earlier open
+ * codes are retired, so only the latest one works.
+ */
+export async function createTelegramLinkCode(userId: string): Promise<{ code: string; expiresAt: string }> {
+  const now = new Date();
+  const codes = await db.getCollection<TelegramLinkCode>(CODES_COLLECTION);
+  for (const existing of codes) {
+    if (existing.userId === userId && isOpen(existing, now.getTime())) {
+      await db.update<TelegramLinkCode>(CODES_COLLECTION, existing.id, { usedAt: now.toISOString() });
+    }
+  }
+
+  const code = generateLinkCode();
+  const linkCode: TelegramLinkCode = {
+    id: `tglink-${now.getTime()}-${userId}`,
+    userId,
+    codeHash: hashLinkCode(code),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + LINK_CODE_TTL_MS).toISOString(),
+  };
+  await db.create<TelegramLinkCode>(CODES_COLLECTION, linkCode);
+  return { code, expiresAt: linkCode.expiresAt };
+}
+
+export async function getTelegramLinkForUser(userId: string): Promise<TelegramLink | null> {
+  const links = await db.getCollection<TelegramLink>(LINKS_COLLECTION);
+  return links.find((link) => link.userId === userId) || null;
+}
+
+/** Where to send a user's private messages: the chat they linked through the bot. */
+export async function getTelegramChatId(user: Pick<User, "id">): Promise<string | null> {
+  const link = await getTelegramLinkForUser(user.id);
+  return link?.chatId || null;
+}
+
+/** The active user a chat is linked to, or null for unknown chats and suspended accounts. */
+export async function resolveTelegramChatUser(chatId: string): Promise<User | null> {
+  const links = await db.getCollection<TelegramLink>(LINKS_COLLECTION);
+  const link = links.find((item) => item.chatId === chatId);
+  if (!link) return null;
+
+  const users = await db.getCollection<User>(USERS_COLLECTION);
+  const user = users.find((item) => item.id === link.userId);
+  return user && user.status === "active" ? user : null;
+}
+
+export async function unlinkTelegramUser(userId: string): Promise<boolean> {
+  const existing = await getTelegramLinkForUser(userId);
+  if (!existing) return false;
+  await db.remove(LINKS_COLLECTION, existing.id);
+  console.log("[TelegramLinks] Unlinked chat for", userId);
+  return true;
+}
+
+/**
+ * Redeems a link code from a chat. A chat belongs to one account at a time, so linking
+ * it again moves it, and linking a new chat replaces the user's previous one.
+ */
+export async function redeemTelegramLinkCode(
+  code: string,
+  chat: { chatId: string; telegramUsername?: string }
+): Promise<User | null> {
+  const now = Date.now();
+  const codeHash = hashLinkCode(code);
+  const codes = await db.getCollection<TelegramLinkCode>(CODES_COLLECTION);
+  const linkCode = codes.find((item) => item.codeHash === codeHash && isOpen(item, now));
+  if (!linkCode) return null;
+
+  const users = await db.getCollection<User>(USERS_COLLECTION);
+  const user = users.find((item) => item.id === linkCode.userId);
+  if (!user || user.status !== "active") return null;
+
+  await db.update<TelegramLinkCode>(CODES_COLLECTION, linkCode.id, { usedAt: new Date(now).toISOString() });
+
+  const links = await db.getCollection<TelegramLink>(LINKS_COLLECTION);
+  for (const previous of links.filter((link) => link.chatId === chat.chatId && link.userId !== user.id)) {
+    await db.remove(LINKS_COLLECTION, previous.id);
+  }
+
+  const link: TelegramLink = {
+    id: user.id,
+    userId: user.id,
+    chatId: chat.chatId,
+    telegramUsername: chat.telegramUsername,
+    linkedAt: new Date(now).toISOString(),
+  };
+  if (links.some((item) => item.id === user.id)) {
+    await db.update<TelegramLink>(LINKS_COLLECTION, link.id, link);
+  } else {
+    await db.create<TelegramLink>(LINKS_COLLECTION, link);
+  }
+  console.log("[TelegramLinks] Linked chat for", user.id);
+  return user;
+}
@@ -1,4 +1,6 @@
-import type { Event, Task } from "@/types";
+import { recordTelegramDelivery, resolveTelegramChatIds } from "@/backend/services/telegram-routing";
+import { normalizeTaskAudience } from "@/lib/task-audience";
+import type { Event, Poll, Season, Submission, SubmissionRating, Task, TelegramMessageType } from "@/types";
 
 type TelegramSendResponse = {
   ok: boolean;
@@ -9,10 +11,6 @@ function getTelegramBotToken(): string | null {
   return process.env.TELEGRAM_BOT_TOKEN || null;
 }
 
-function getTelegramTaskChannelId(): string | null {
-  return process.env.TELEGRAM_TASK_CHANNEL_ID || null;
-}
-
 function buildTaskMessage(task: Task): string {
   const brief = (task.brief || "").trim();
   const deadline = (task.deadline || "").trim();
@@ -27,9 +25,27 @@ function buildTaskMessage(task: Task): string {
   ].join("\n");
 }
 
-function buildEventReminderMessage(event: Event): string {
+function formatLeadTime(offsetMinutes: number): string {
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? "" : "s"}`;
+  if (offsetMinutes % (24 * 60) === 0) return plural(offsetMinutes / (24 * 60), "day");
+  if (offsetMinutes % 60 === 0) return plural(offsetMinutes / 60, "hour");
+  return plural(offsetMinutes, "minute");
+}
+
+function buildEventReminderMessage(event: Event, offsetMinutes: number): string {
+  const lead = formatLeadTime(offsetMinutes);
+  if (event.type === "irl") {
+    return [
+      `Reminder: Event starts in ${lead}`,
+      event.title,
+      `Date: ${event.date}`,
+      `Time: ${event.time} ${event.timezone}`,
+      `Location: ${event.location || "TBD"}`,
+      event.link ? `Link: ${event.link}` : null,
+    ].filter(Boolean).join("\n");
+  }
   return [
-    "Reminder: Meeting starts in 1 hour",
+    `Reminder: Meeting starts in ${lead}`,
     event.title,
     `Date: ${event.date}`,
     `Time: ${event.time} ${event.timezone}`,
@@ -37,6 +53,53 @@ function buildEventReminderMessage(event: Event): string {
   ].join("\n");
 }
 
+function buildPollMessage(poll: Poll): string {
+  return [
+    `New poll: ${poll.title}`,
+    (poll.description || "").trim() || null,
+    `Closes: ${new Date(poll.expiresAt).toUTCString()}`,
+  ].filter(Boolean).join("\n");
+}
+
+const REVIEW_OUTCOME_HEADLINES: Record<string, string> = {
+  approved: "Submission approved",
+  needs_edits: "Submission needs edits",
+  rejected: "Submission rejected",
+};
+
+function buildScoreBreakdown(rating: SubmissionRating): string[] {
+  return [
+    `Score: ${rating.totalScore}/100`,
+    `- Relevance: ${rating.relevanceToTask}/25`,
+    `- Creativity: ${rating.creativity}/15`,
+    `- Originality: ${rating.originality}/15`,
+    `- Effort & format: ${rating.effortFormat}/15`,
+    `- Enthusiasm & tone: ${rating.enthusiasmTone}/10`,
+    `- Engagement: ${rating.engagementScore}/20`,
+  ];
+}
+
+function buildSubmissionReviewMessage(submission: Submission, submissionUrl: string): string {
+  const feedback = (submission.feedback || "").trim();
+  const safeFeedback = feedback.length > 2000 ? `${feedback.slice(0, 1997)}...` : feedback;
+  return [
+    `${REVIEW_OUTCOME_HEADLINES[submission.status] || "Submission reviewed"}: ${submission.taskTitle}`,
+    ...(submission.rating ? ["", ...buildScoreBreakdown(submission.rating)] : []),
+    ...(safeFeedback ? ["", `Feedback: ${safeFeedback}`] : []),
+    "",
+    `Open: ${submissionUrl}`,
+  ].join("\n");
+}
+
+function buildPasswordResetMessage(code: string, expiresAt: string): string {
+  return [
+    "Ambassador OS password reset",
+    `Your reset code: ${code}`,
+    `Expires: ${new Date(expiresAt).toUTCString()}`,
+    "If you did not request this, you can ignore this message.",
+  ].join("\n");
+}
+
 async function sendTelegramText(chatId: string, text: string): Promise<{ sent: boolean; reason?: string }> {
   const token = getTelegramBotToken();
   if (!token) {
@@ -108,34 +171,131 @@ async function sendTelegramPhoto(chatId: string, photoUrl: string, caption: stri
   }
 }
 
-export async function sendTaskActiveNotification(task: Task): Promise<{ sent: boolean; reason?: string }> {
-  const token = getTelegramBotToken();
-  const chatId = getTelegramTaskChannelId();
-
-  if (!token || !chatId) {
-    return { sent: false, reason: "Missing TELEGRAM_BOT_TOKEN or TELEGRAM_TASK_CHANNEL_ID" };
+/**
+ * Posts one broadcast to every chat routed for its type and region, recording each
+ * chat's outcome in the delivery log. Counts as sent when at least one chat got it, so
+ * a retry never reposts to chats that already have the message.
+ */
+async function broadcastTelegram(params: {
+  messageType: TelegramMessageType;
+  regions?: (string | null | undefined)[];
+  subject: string;
+  text: string;
+  photoUrl?: string;
+}): Promise<{ sent: boolean; reason?: string }> {
+  if (!getTelegramBotToken()) {
+    return { sent: false, reason: "Missing TELEGRAM_BOT_TOKEN" };
+  }
+  const chatIds = await resolveTelegramChatIds(params.messageType, params.regions);
+  const region = (params.regions || []).filter(Boolean).join(", ") || null;
+  if (chatIds.length === 0) {
+    return { sent: false, reason: `No Telegram chat routed for ${params.messageType}` };
   }
 
-  const text = buildTaskMessage(task);
-  const photoUrl = (task.thumbnail || "").trim();
+  const photoUrl = (params.photoUrl || "").trim();
   const canSendPhoto = /^https?:\/\//i.test(photoUrl);
+  const failures: string[] = [];
+  for (const chatId of chatIds) {
+    let result = canSendPhoto ? await sendTelegramPhoto(chatId, photoUrl, params.text) : null;
+    if (!result?.sent) {
+      result = await sendTelegramText(chatId, params.text);
+    }
+    await recordTelegramDelivery({
+      messageType: params.messageType,
+      region,
+      chatId,
+      subject: params.subject,
+      status: result.sent ? "sent" : "failed",
+      error: result.reason,
+    });
+    if (!result.sent) {
+      failures.push(`${chatId}: ${result.reason}`);
+    }
+  }
 
-  if (canSendPhoto) {
-    const photoResult = await sendTelegramPhoto(chatId, photoUrl, text);
-    if (photoResult.sent) return photoResult;
-    return sendTelegramText(chatId, text);
+  if (failures.length === chatIds.length) {
+    return { sent: false, reason: failures.join("; ") };
   }
+  if (failures.length > 0) {
+    console.log("[Telegram] Broadcast partly failed:", params.messageType, failures.join("; "));
+  }
+  return { sent: true };
+}
 
-  return sendTelegramText(chatId, text);
+export async function sendTaskActiveNotification(task: Task): Promise<{ sent: boolean; reason?: string }> {
+  // Group chats cannot be narrowed to roles or single people, so only region targeting is broadcast.
+  const audience = normalizeTaskAudience(task.audience);
+  if (audience?.roles || (audience?.userIds && !audience.regions)) {
+    return { sent: false, reason: "Task is targeted to specific roles or users" };
+  }
+  return broadcastTelegram({
+    messageType: "task",
+    regions: audience?.regions,
+    subject: task.title,
+    text: buildTaskMessage(task),
+    photoUrl: task.thumbnail,
+  });
 }
 
-export async function sendOnlineEventReminder(event: Event): Promise<{ sent: boolean; reason?: string }> {
-  const token = getTelegramBotToken();
-  const chatId = getTelegramTaskChannelId();
+export async function sendEventReminder(event: Event, offsetMinutes: number): Promise<{ sent: boolean; reason?: string }> {
+  return broadcastTelegram({
+    messageType: "event_reminder",
+    regions: [event.region],
+    subject: event.title,
+    text: buildEventReminderMessage(event, offsetMinutes),
+  });
+}
 
-  if (!token || !chatId) {
-    return { sent: false, reason: "Missing TELEGRAM_BOT_TOKEN or TELEGRAM_TASK_CHANNEL_ID" };
-  }
+export async function sendPollNotification(poll: Poll): Promise<{ sent: boolean; reason?: string }> {
+  return broadcastTelegram({
+    messageType: "poll",
+    regions: [poll.region],
+    subject: poll.title,
+    text: buildPollMessage(poll),
+  });
+}
+
+export async function sendSeasonStartedNotification(
+  closedSeason: Season,
+  newSeason: Season
+): Promise<{ sent: boolean; reason?: string }> {
+  return broadcastTelegram({
+    messageType: "season",
+    subject: newSeason.name,
+    text: [`${newSeason.name} has started`, `${closedSeason.name} is closed and season points are reset.`].join("\n"),
+  });
+}
+
+export async function sendNewsNotification(news: {
+  postUrl: string;
+  text?: string;
+  imageUrl?: string;
+}): Promise<{ sent: boolean; reason?: string }> {
+  const text = (news.text || "").trim();
+  return broadcastTelegram({
+    messageType: "news",
+    subject: text.slice(0, 80) || news.postUrl,
+    text: [text, news.postUrl].filter(Boolean).join("\n"),
+    photoUrl: news.imageUrl,
+  });
+}
+
+export async function sendPasswordResetCode(
+  chatId: string,
+  code: string,
+  expiresAt: string
+): Promise<{ sent: boolean; reason?: string }> {
+  return sendTelegramText(chatId, buildPasswordResetMessage(code, expiresAt));
+}
+
+export async function sendTelegramMessage(chatId: string, text: string): Promise<{ sent: boolean; reason?: string }> {
+  return sendTelegramText(chatId, text);
+}
 
-  return sendTelegramText(chatId, buildEventReminderMessage(event));
+export async function sendSubmissionReviewNotification(
+  chatId: string,
+  submission: Submission,
+  submissionUrl: string
+): Promise<{ sent: boolean; reason?: string }> {
+  return sendTelegramText(chatId, buildSubmissionReviewMessage(submission, submissionUrl));
 }
@@ -0,0 +1,151 @@
+import { db } from "@/backend/db";
+import type { TelegramDelivery, TelegramDeliveryStatus, TelegramMessageType, TelegramRoute } from "@/types";
+
+const ROUTES_COLLECTION = "telegram_routes";
+const DELIVERIES_COLLECTION = "telegram_deliveries";
+const DEFAULT_DELIVERY_LIMIT = 100;
+const MAX_ERROR_LENGTH = 300;
+
+export const TELEGRAM_MESSAGE_TYPES = ["task", "event_reminder", "poll", "season", "news"] as const satisfies readonly TelegramMessageType[];
+
+// Broadcast types that went to TELEGRAM_TASK_CHANNEL_ID before routes existed keep doing so until routed.
+const LEGACY_CHANNEL_TYPES = new Set<TelegramMessageType>(["task", "event_reminder"]);
+
+function normalizeRegion(region: string | null | undefined): string | null {
+  const trimmed = (region || "").trim();
+  return trimmed ? trimmed : null;
+}
+
+function sameRegion(a: string | null, b: string | null): boolean {
+  return (a || "").toLowerCase() === (b || "").toLowerCase();
+}
+
+export async function listTelegramRoutes(): Promise<TelegramRoute[]> {
+  const routes = await db.getCollection<TelegramRoute>(ROUTES_COLLECTION);
+  return [...routes].sort(
+    (a, b) =>
+      (a.region || "").localeCompare(b.region || "") ||
+      TELEGRAM_MESSAGE_TYPES.indexOf(a.messageType) - TELEGRAM_MESSAGE_TYPES.indexOf(b.messageType)
+  );
+}
+
+/**
+ * Creates or updates the route for a (region, message type) pair. There is at most one
+ * route per pair, so saving a pair that exists replaces its chat list.
+ */
+export async function saveTelegramRoute(
+  input: { id?: string; region?: string | null; messageType: TelegramMessageType; chatIds: string[]; enabled?: boolean },
+  userId: string
+): Promise<{ before: TelegramRoute | null; route: TelegramRoute }> {
+  const region = normalizeRegion(input.region);
+  const chatIds = [...new Set(input.chatIds.map((chatId) => chatId.trim()).filter(Boolean))];
+  if (chatIds.length === 0) {
+    throw new Error("Add at least one chat ID");
+  }
+
+  const routes = await db.getCollection<TelegramRoute>(ROUTES_COLLECTION);
+  const existing = input.id ? routes.find((route) => route.id === input.id) : null;
+  if (input.id && !existing) {
+    throw new Error("Route not found");
+  }
+  const clash = routes.find(
+    (route) => route.id !== existing?.id && route.messageType === input.messageType && sameRegion(route.region, region)
+  );
+  if (clash) {
+    throw new Error("A route for this region and message type already exists");
+  }
+
+  const now = new Date().toISOString();
+  const route: TelegramRoute = {
+    id: existing?.id || `tgroute-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    region,
+    messageType: input.messageType,
+    chatIds,
+    enabled: input.enabled ?? existing?.enabled ?? true,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+    updatedByUserId: userId,
+  };
+  if (existing) {
+    await db.update<TelegramRoute>(ROUTES_COLLECTION, route.id, route);
+  } else {
+    await db.create<TelegramRoute>(ROUTES_COLLECTION, route);
+  }
+  return { before: existing || null, route };
+}
+
+export async function deleteTelegramRoute(id: string): Promise<TelegramRoute> {
+  const routes = await db.getCollection<TelegramRoute>(ROUTES_COLLECTION);
+  const existing = routes.find((route) => route.id === id);
+  if (!existing) {
+    throw new Error("Route not found");
+  }
+  await db.remove(ROUTES_COLLECTION, id);
+  return existing;
+}
+
+/**
+ * The chats a broadcast goes to. A regional message goes only to its regions' routes; a
+ * message for everyone (no regions) goes to every route of its type. Task and event
+ * reminder broadcasts for everyone fall back to TELEGRAM_TASK_CHANNEL_ID while no route
+ * of that type exists.
+ */
+export async function resolveTelegramChatIds(
+  messageType: TelegramMessageType,
+  regions: (string | null | undefined)[] = []
+): Promise<string[]> {
+  const targets = regions.map(normalizeRegion).filter((region): region is string => Boolean(region));
+  const routes = (await db.getCollection<TelegramRoute>(ROUTES_COLLECTION)).filter(
+    (route) => route.messageType === messageType
+  );
+
+  if (routes.length === 0) {
+    if (targets.length > 0) return [];
+    const legacyChannelId = process.env.TELEGRAM_TASK_CHANNEL_ID?.trim();
+    return LEGACY_CHANNEL_TYPES.has(messageType) && legacyChannelId ? [legacyChannelId] : [];
+  }
+
+  const matching = routes.filter(
+    (route) =>
+      route.enabled &&
+      (targets.length === 0 || targets.some((target) => sameRegion(route.region, target)))
+  );
+  return [...new Set(matching.flatMap((route) => route.chatIds))];
+}
+
+export async function recordTelegramDelivery(params: {
+  messageType: TelegramMessageType;
+  region?: string | null;
+  chatId: string;
+  subject: string;
+  status: TelegramDeliveryStatus;
+  error?: string;
+}): Promise<void> {
+  const createdAt = new Date().toISOString();
+  try {
+    await db.create<TelegramDelivery>(DELIVERIES_COLLECTION, {
+      id: `tgdelivery-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      messageType: params.messageType,
+      region: normalizeRegion(params.region),
+      chatId: params.chatId,
+      subject: params.subject,
+      status: params.status,
+      error: params.error?.slice(0, MAX_ERROR_LENGTH),
+      createdAt,
+    });
+  } catch (error) {
+    console.log("[TelegramRouting] Failed to record delivery:", error instanceof Error ? error.message : error);
+  }
+}
+
+/** Newest deliveries first, optionally only failures or one chat. */
+export async function listTelegramDeliveries(
+  options: { status?: TelegramDeliveryStatus; chatId?: string; limit?: number } = {}
+): Promise<TelegramDelivery[]> {
+  const deliveries = await db.getCollection<TelegramDelivery>(DELIVERIES_COLLECTION);
+  return deliveries
+    .filter((delivery) => !options.status || delivery.status === options.status)
+    .filter((delivery) => !options.chatId || delivery.chatId === options.chatId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, options.limit || DEFAULT_DELIVERY_LIMIT);
+}
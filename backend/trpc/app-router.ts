@@ -10,6 +10,9 @@ import { adminRouter } from "./routes/admin";
 import { pollsRouter } from "./routes/polls";
 import { newsRouter } from "./routes/news";
 import { extraContentRouter } from "./routes/extra-content";
+import { notificationsRouter } from "./routes/notifications";
+import { campaignsRouter } from "./routes/campaigns";
+import { reviewGuidanceRouter } from "./routes/review-guidance";
 
 export const appRouter = createTRPCRouter({
   tasks: tasksRouter,
@@ -23,6 +26,9 @@ export const appRouter = createTRPCRouter({
   polls: pollsRouter,
   news: newsRouter,
   extraContent: extraContentRouter,
+  notifications: notificationsRouter,
+  campaigns: campaignsRouter,
+  reviewGuidance: reviewGuidanceRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,10 +1,14 @@
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
 import superjson from "superjson";
+import { getBearerToken, resolveSessionUser } from "@/backend/services/auth-session";
 
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const sessionToken = getBearerToken(opts.req.headers.get("authorization"));
+  const user = await resolveSessionUser(sessionToken);
   return {
     req: opts.req,
+    user,
   };
 };
 
@@ -16,3 +20,24 @@ const t = initTRPC.context<Context>().create({
 
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
+
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Please sign in to continue" });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
+
+export const regionalLeadProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== "admin" && ctx.user.role !== "regional_lead") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Regional lead access required" });
+  }
+  return next();
+});
+
+export const adminProcedure = protectedProcedure.use(({ ctx, next }) => {
+  if (ctx.user.role !== "admin") {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Admin access required" });
+  }
+  return next();
+});
@@ -1,6 +1,5 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
-import { db } from "@/backend/db";
+import { adminProcedure, createTRPCRouter, protectedProcedure, regionalLeadProcedure } from "../create-context";
 import {
   getAmbassadorDirectory,
   getProgramAnalytics,
@@ -9,42 +8,73 @@ import {
   getRegionalLeaderboard,
 } from "@/backend/services/admin-analytics";
 import { getXMetricsStatus, runXMetricsTrackingBatch } from "@/backend/services/x-metrics-tracker";
-import type { User } from "@/types";
-
-const USERS_COLLECTION = "users";
+import { listAuditEntries, recordAuditEntry } from "@/backend/services/audit-log";
+import { listEventReminderJobs } from "@/backend/services/event-reminder-scheduler";
+import {
+  TELEGRAM_MESSAGE_TYPES,
+  deleteTelegramRoute,
+  listTelegramDeliveries,
+  listTelegramRoutes,
+  saveTelegramRoute,
+} from "@/backend/services/telegram-routing";
 
-async function ensureAdmin(adminUserId: string) {
-  const user = await db.getById<User>(USERS_COLLECTION, adminUserId);
-  if (!user || user.role !== "admin" || user.status !== "active") {
-    throw new Error("Admin access required");
-  }
-}
+const AUDIT_ACTIONS = [
+  "user.update",
+  "user.delete",
+  "submission.review",
+  "submission.assign",
+  "feedback_snippet.save",
+  "feedback_snippet.delete",
+  "review_rubric.update",
+  "task.create",
+  "task.update",
+  "task.delete",
+  "asset.delete",
+  "news.upsert",
+  "poll.create",
+  "season.close",
+  "telegram_route.save",
+  "telegram_route.delete",
+  "campaign.create",
+  "campaign.update",
+  "campaign.archive",
+  "task_template.save",
+  "task_template.delete",
+] as const;
+const AUDIT_TARGET_TYPES = [
+  "user",
+  "submission",
+  "task",
+  "asset",
+  "news",
+  "poll",
+  "season",
+  "telegram_route",
+  "campaign",
+  "task_template",
+  "feedback_snippet",
+  "review_rubric",
+] as const;
 
 export const adminRouter = createTRPCRouter({
-  analytics: publicProcedure
-    .input(z.object({ adminUserId: z.string(), seasonId: z.string().optional() }))
+  analytics: adminProcedure
+    .input(z.object({ seasonId: z.string().optional() }).optional())
     .query(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
-      return getProgramAnalytics(input.seasonId);
+      return getProgramAnalytics(input?.seasonId);
     }),
 
-  analyticsRegions: publicProcedure
-    .input(z.object({ adminUserId: z.string() }))
-    .query(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
-      return getRegionalAnalytics();
-    }),
+  analyticsRegions: regionalLeadProcedure.query(async () => {
+    return getRegionalAnalytics();
+  }),
 
-  regionDashboard: publicProcedure
+  regionDashboard: regionalLeadProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         region: z.string(),
         limit: z.number().min(1).max(100).optional(),
       })
     )
     .query(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
       const [leaderboard, feed] = await Promise.all([
         getRegionalLeaderboard(input.region, input.limit || 20),
         getRegionalActivityFeed(input.region, input.limit || 20),
@@ -57,16 +87,15 @@ export const adminRouter = createTRPCRouter({
       };
     }),
 
-  ambassadorDirectory: publicProcedure.query(async () => {
+  ambassadorDirectory: protectedProcedure.query(async () => {
     return getAmbassadorDirectory();
   }),
 
-  runXMetricsNow: publicProcedure
-    .input(z.object({ adminUserId: z.string(), region: z.string().optional() }))
+  runXMetricsNow: adminProcedure
+    .input(z.object({ region: z.string().optional() }).optional())
     .mutation(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
       // Manual admin run should allow immediate retries for transient upstream failures.
-      return runXMetricsTrackingBatch("manual-admin", input.region, {
+      return runXMetricsTrackingBatch("manual-admin", input?.region, {
         ignoreRateLimit: false,
         maxBatch: 2,
         force: true,
@@ -74,10 +103,90 @@ export const adminRouter = createTRPCRouter({
       });
     }),
 
-  xMetricsStatus: publicProcedure
-    .input(z.object({ adminUserId: z.string() }))
+  xMetricsStatus: adminProcedure.query(async () => {
+    return getXMetricsStatus();
+  }),
+
+  auditLog: adminProcedure
+    .input(
+      z
+        .object({
+          action: z.enum(AUDIT_ACTIONS).optional(),
+          actorId: z.string().optional(),
+          targetType: z.enum(AUDIT_TARGET_TYPES).optional(),
+          targetId: z.string().optional(),
+          from: z.string().optional(),
+          to: z.string().optional(),
+          limit: z.number().min(1).max(500).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      return listAuditEntries(input || {});
+    }),
+
+  eventReminders: adminProcedure
+    .input(z.object({ limit: z.number().min(1).max(500).optional() }).optional())
+    .query(async ({ input }) => {
+      return listEventReminderJobs(input?.limit);
+    }),
+
+  telegramRoutes: adminProcedure.query(async () => {
+    return listTelegramRoutes();
+  }),
+
+  saveTelegramRoute: adminProcedure
+    .input(
+      z.object({
+        id: z.string().optional(),
+        region: z.string().trim().max(100).nullable().optional(),
+        messageType: z.enum(TELEGRAM_MESSAGE_TYPES),
+        chatIds: z.array(z.string().trim().min(1).max(100)).min(1).max(20),
+        enabled: z.boolean().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { before, route } = await saveTelegramRoute(input, ctx.user.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "telegram_route.save",
+        targetType: "telegram_route",
+        targetId: route.id,
+        targetLabel: `${route.region || "All regions"} · ${route.messageType}`,
+        before: before ? { ...before } : null,
+        after: { ...route },
+      });
+      console.log("[Admin] Saved Telegram route:", route.id);
+      return route;
+    }),
+
+  deleteTelegramRoute: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const route = await deleteTelegramRoute(input.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "telegram_route.delete",
+        targetType: "telegram_route",
+        targetId: route.id,
+        targetLabel: `${route.region || "All regions"} · ${route.messageType}`,
+        before: { ...route },
+      });
+      console.log("[Admin] Deleted Telegram route:", route.id);
+      return { success: true };
+    }),
+
+  telegramDeliveries: adminProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(["sent", "failed"]).optional(),
+          chatId: z.string().optional(),
+          limit: z.number().min(1).max(500).optional(),
+        })
+        .optional()
+    )
     .query(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
-      return getXMetricsStatus();
+      return listTelegramDeliveries(input || {});
     }),
 });
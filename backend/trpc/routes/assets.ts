@@ -1,8 +1,9 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../create-context";
 import { assets as initialAssets } from "@/mocks/data";
 import { db } from "@/backend/db";
 import { DEFAULT_ASSET_FOLDER, DEFAULT_ASSET_FOLDER_ID } from "@/constants/assetFolders";
+import { recordAuditEntry } from "@/backend/services/audit-log";
 import type { Asset, AssetFolder, AssetType, Platform } from "@/types";
 
 const COLLECTION = "assets";
@@ -75,13 +76,13 @@ async function resolveFolderId(folderId?: string): Promise<string> {
 }
 
 export const assetsRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
+  list: protectedProcedure.query(async () => {
     const assets = await getAssets();
     console.log("[Assets] Fetching all assets, count:", assets.length);
     return assets;
   }),
 
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ input }) => {
       console.log("[Assets] Fetching asset by id:", input.id);
@@ -93,7 +94,7 @@ export const assetsRouter = createTRPCRouter({
       return asset;
     }),
 
-  create: publicProcedure
+  create: adminProcedure
     .input(
       z.object({
         name: z.string(),
@@ -134,7 +135,7 @@ export const assetsRouter = createTRPCRouter({
       return newAsset;
     }),
 
-  update: publicProcedure
+  update: adminProcedure
     .input(
       z.object({
         id: z.string(),
@@ -169,12 +170,12 @@ export const assetsRouter = createTRPCRouter({
       return updatedAsset;
     }),
 
-  listFolders: publicProcedure.query(async () => {
+  listFolders: protectedProcedure.query(async () => {
     const folders = await getFolders();
     return folders;
   }),
 
-  createFolder: publicProcedure
+  createFolder: adminProcedure
     .input(
       z.object({
         name: z.string().min(1),
@@ -192,7 +193,7 @@ export const assetsRouter = createTRPCRouter({
       return folder;
     }),
 
-  updateFolder: publicProcedure
+  updateFolder: adminProcedure
     .input(
       z.object({
         id: z.string(),
@@ -216,7 +217,7 @@ export const assetsRouter = createTRPCRouter({
       return updatedFolder;
     }),
 
-  deleteFolder: publicProcedure
+  deleteFolder: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
       if (input.id === DEFAULT_ASSET_FOLDER_ID) {
@@ -247,9 +248,9 @@ export const assetsRouter = createTRPCRouter({
       return { success: true };
     }),
 
-  delete: publicProcedure
+  delete: adminProcedure
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const assets = await getAssets();
       const existing = assets.find((a) => a.id === input.id);
       if (!existing) {
@@ -257,12 +258,20 @@ export const assetsRouter = createTRPCRouter({
       }
       
       await db.remove(COLLECTION, input.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "asset.delete",
+        targetType: "asset",
+        targetId: input.id,
+        targetLabel: existing.name,
+        before: { ...existing },
+      });
       
       console.log("[Assets] Deleted asset:", input.id);
       return { success: true };
     }),
 
-  incrementDownload: publicProcedure
+  incrementDownload: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
       const assets = await getAssets();
@@ -0,0 +1,108 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../create-context";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import {
+  createCampaign,
+  getCampaignDashboard,
+  listCampaigns,
+  setCampaignArchived,
+  updateCampaign,
+} from "@/backend/services/campaigns";
+
+const platformSchema = z.enum(["twitter", "instagram", "tiktok", "youtube", "facebook", "telegram"]);
+
+const campaignGoalsSchema = z.object({
+  submissions: z.number().int().min(1).optional(),
+  impressions: z.number().int().min(1).optional(),
+  contributors: z.number().int().min(1).optional(),
+});
+
+export const campaignsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({ includeArchived: z.boolean().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      // Only admins manage archived campaigns.
+      const includeArchived = ctx.user.role === "admin" && Boolean(input?.includeArchived);
+      return listCampaigns({ includeArchived });
+    }),
+
+  dashboard: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      return getCampaignDashboard(input.id);
+    }),
+
+  create: adminProcedure
+    .input(
+      z.object({
+        title: z.string().trim().min(1).max(120),
+        description: z.string().max(2000).optional(),
+        thumbnail: z.string().optional(),
+        startDate: z.string(),
+        endDate: z.string(),
+        platforms: z.array(platformSchema),
+        budget: z.number().min(0).optional(),
+        goals: campaignGoalsSchema.optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const campaign = await createCampaign(input);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "campaign.create",
+        targetType: "campaign",
+        targetId: campaign.id,
+        targetLabel: campaign.title,
+        after: { ...campaign },
+      });
+      console.log("[Campaigns] Created campaign:", campaign.id);
+      return campaign;
+    }),
+
+  update: adminProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        title: z.string().trim().min(1).max(120).optional(),
+        description: z.string().max(2000).optional(),
+        thumbnail: z.string().optional(),
+        startDate: z.string().optional(),
+        endDate: z.string().optional(),
+        platforms: z.array(platformSchema).optional(),
+        budget: z.number().min(0).nullable().optional(),
+        goals: campaignGoalsSchema.nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { id, ...changes } = input;
+      const { before, campaign } = await updateCampaign(id, changes);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "campaign.update",
+        targetType: "campaign",
+        targetId: campaign.id,
+        targetLabel: campaign.title,
+        before: { ...before },
+        after: { ...campaign },
+      });
+      console.log("[Campaigns] Updated campaign:", campaign.id);
+      return campaign;
+    }),
+
+  archive: adminProcedure
+    .input(z.object({ id: z.string(), archived: z.boolean().default(true) }))
+    .mutation(async ({ ctx, input }) => {
+      const { before, campaign } = await setCampaignArchived(input.id, input.archived);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "campaign.archive",
+        targetType: "campaign",
+        targetId: campaign.id,
+        targetLabel: campaign.title,
+        before: { archivedAt: before.archivedAt },
+        after: { archivedAt: campaign.archivedAt },
+      });
+      console.log("[Campaigns]", input.archived ? "Archived" : "Restored", "campaign:", campaign.id);
+      return campaign;
+    }),
+});
@@ -1,13 +1,41 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure, regionalLeadProcedure } from "../create-context";
 import { events as initialEvents } from "@/mocks/data";
 import { db } from "@/backend/db";
-import type { Event, EventType } from "@/types";
-import { refreshEventReminderSchedule } from "@/backend/services/event-reminder-scheduler";
+import type { Event, EventType, User } from "@/types";
+import { MAX_REMINDER_OFFSET_MINUTES, refreshEventReminderSchedule } from "@/backend/services/event-reminder-scheduler";
+import {
+  listEventRsvps,
+  promoteWaitlist,
+  removeEventRsvps,
+  setEventRsvp,
+  withRsvpState,
+} from "@/backend/services/event-rsvps";
+import {
+  checkInToEvent,
+  closeCheckInSession,
+  getCurrentCheckInCode,
+  listEventCheckIns,
+  openCheckInSession,
+  withCheckInState,
+} from "@/backend/services/event-checkins";
+import { recomputeAllUserPerformance } from "@/backend/services/performance";
+import { canManageEventCheckIn } from "@/lib/event-checkins";
+import { isValidTimeZone } from "@/lib/event-schedule";
+import { getCalendarFeedToken } from "@/backend/services/calendar-feed";
 
 const COLLECTION = "events";
 const MAX_DATA_URI_LENGTH = 300_000;
 const ENABLE_DEFAULT_SEEDING = (process.env.ENABLE_DEFAULT_SEEDING || "false") === "true";
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD dates");
+const recurrenceSchema = z.object({
+  frequency: z.enum(["weekly", "biweekly", "monthly"]),
+  until: localDateSchema.optional(),
+  count: z.number().int().min(1).max(500).optional(),
+  exceptions: z.array(localDateSchema).max(200).optional(),
+});
+// Minutes before start; an empty list turns reminders off for the event.
+const reminderOffsetsSchema = z.array(z.number().int().min(1).max(MAX_REMINDER_OFFSET_MINUTES)).max(5);
 
 function validateEventThumbnail(thumbnail: string) {
   if (!thumbnail.startsWith("data:image/")) return;
@@ -16,6 +44,15 @@ function validateEventThumbnail(thumbnail: string) {
   }
 }
 
+function validateEventSchedule(event: Pick<Event, "date" | "timezone" | "recurrence">) {
+  if (!isValidTimeZone(event.timezone)) {
+    throw new Error(`Unknown timezone "${event.timezone}". Use a zone name like "Asia/Tokyo" or an offset like "UTC+09:00".`);
+  }
+  if (event.recurrence?.until && event.recurrence.until < event.date) {
+    throw new Error("Recurrence end date is before the first event date");
+  }
+}
+
 async function ensureInitialized(): Promise<void> {
   const dbEvents = await db.getCollection<Event>(COLLECTION);
   if (dbEvents.length === 0 && ENABLE_DEFAULT_SEEDING) {
@@ -30,6 +67,40 @@ async function ensureInitialized(): Promise<void> {
 
 let initPromise: Promise<void> | null = null;
 
+async function getEventForViewer(eventId: string, viewerId: string): Promise<Event> {
+  const event = await getEventOrThrow(eventId);
+  const [rsvps, checkIns] = await Promise.all([
+    listEventRsvps(eventId),
+    listEventCheckIns({ eventId, userId: viewerId }),
+  ]);
+  return withCheckInState(withRsvpState(event, rsvps, viewerId), checkIns, viewerId);
+}
+
+async function getEventOrThrow(eventId: string): Promise<Event> {
+  const events = await getEvents();
+  const event = events.find((e) => e.id === eventId);
+  if (!event) {
+    throw new Error("Event not found");
+  }
+  return event;
+}
+
+async function getIrlEventOrThrow(eventId: string): Promise<Event> {
+  const event = await getEventOrThrow(eventId);
+  if (event.type !== "irl") {
+    throw new Error("Check-in is only available for IRL events");
+  }
+  return event;
+}
+
+async function getManagedIrlEventOrThrow(eventId: string, user: User): Promise<Event> {
+  const event = await getIrlEventOrThrow(eventId);
+  if (!canManageEventCheckIn(user, event)) {
+    throw new Error("You can only run check-in for events in your region");
+  }
+  return event;
+}
+
 async function getEvents(): Promise<Event[]> {
   if (!initPromise) {
     initPromise = ensureInitialized();
@@ -41,25 +112,126 @@ async function getEvents(): Promise<Event[]> {
 }
 
 export const eventsRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
-    const events = await getEvents();
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const [events, rsvps, checkIns] = await Promise.all([
+      getEvents(),
+      listEventRsvps(),
+      listEventCheckIns({ userId: ctx.user.id }),
+    ]);
     console.log("[Events] Fetching all events, count:", events.length);
-    return events;
+    return events.map((event) =>
+      withCheckInState(withRsvpState(event, rsvps, ctx.user.id), checkIns, ctx.user.id)
+    );
   }),
 
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       console.log("[Events] Fetching event by id:", input.id);
-      const events = await getEvents();
-      const event = events.find((e) => e.id === input.id);
-      if (!event) {
-        throw new Error("Event not found");
+      return getEventForViewer(input.id, ctx.user.id);
+    }),
+
+  attendees: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      const [rsvps, checkIns, users] = await Promise.all([
+        listEventRsvps(input.id),
+        listEventCheckIns({ eventId: input.id }),
+        db.getCollection<User>("users"),
+      ]);
+      return rsvps
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((rsvp) => {
+          const user = users.find((u) => u.id === rsvp.userId);
+          return {
+            userId: rsvp.userId,
+            name: user?.name || "Unknown user",
+            region: user?.region || "",
+            status: rsvp.status,
+            rsvpedAt: rsvp.createdAt,
+            checkedInAt: checkIns.find((checkIn) => checkIn.userId === rsvp.userId)?.checkedInAt || null,
+          };
+        });
+    }),
+
+  checkInCode: regionalLeadProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      await getManagedIrlEventOrThrow(input.id, ctx.user);
+      const [current, checkIns] = await Promise.all([
+        getCurrentCheckInCode(input.id),
+        listEventCheckIns({ eventId: input.id }),
+      ]);
+      return {
+        isOpen: Boolean(current),
+        code: current?.code || null,
+        expiresAt: current?.expiresAt || null,
+        checkedInCount: checkIns.length,
+      };
+    }),
+
+  openCheckIn: regionalLeadProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManagedIrlEventOrThrow(input.id, ctx.user);
+      await openCheckInSession(input.id, ctx.user.id);
+      return { success: true };
+    }),
+
+  closeCheckIn: regionalLeadProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      await getManagedIrlEventOrThrow(input.id, ctx.user);
+      await closeCheckInSession(input.id);
+      return { success: true };
+    }),
+
+  checkIn: protectedProcedure
+    .input(z.object({ id: z.string(), code: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const event = await getIrlEventOrThrow(input.id);
+      const { checkIn, created } = await checkInToEvent(event, ctx.user.id, input.code);
+      if (created) {
+        console.log("[Events] Check-in for event:", input.id, "by user:", ctx.user.id, "points:", checkIn.pointsAwarded);
+        if (checkIn.pointsAwarded > 0) {
+          await recomputeAllUserPerformance();
+        }
       }
-      return event;
+      return {
+        event: await getEventForViewer(input.id, ctx.user.id),
+        pointsAwarded: created ? checkIn.pointsAwarded : 0,
+        alreadyCheckedIn: !created,
+      };
+    }),
+
+  calendarFeed: protectedProcedure
+    .input(z.object({ rotate: z.boolean().optional() }).optional())
+    .mutation(async ({ ctx, input }) => {
+      const token = await getCalendarFeedToken(ctx.user.id, input?.rotate === true);
+      return { token, path: `/calendar/${token}.ics` };
     }),
 
-  create: publicProcedure
+  myAttendance: protectedProcedure.query(async ({ ctx }) => {
+    const [checkIns, events] = await Promise.all([
+      listEventCheckIns({ userId: ctx.user.id }),
+      getEvents(),
+    ]);
+    return checkIns
+      .sort((a, b) => b.checkedInAt.localeCompare(a.checkedInAt))
+      .map((checkIn) => {
+        const event = events.find((e) => e.id === checkIn.eventId);
+        return {
+          eventId: checkIn.eventId,
+          title: event?.title || "Deleted event",
+          date: event?.date || null,
+          location: event?.location || "",
+          checkedInAt: checkIn.checkedInAt,
+          pointsAwarded: checkIn.pointsAwarded,
+        };
+      });
+  }),
+
+  create: adminProcedure
     .input(
       z.object({
         title: z.string(),
@@ -70,12 +242,17 @@ export const eventsRouter = createTRPCRouter({
         time: z.string(),
         location: z.string(),
         timezone: z.string(),
-        maxAttendees: z.number().optional(),
+        recurrence: recurrenceSchema.optional(),
+        reminderOffsets: reminderOffsetsSchema.optional(),
+        region: z.string().optional(),
+        maxAttendees: z.number().int().min(0).optional(),
+        checkInPoints: z.number().min(0).max(100).optional(),
         link: z.string().optional(),
       })
     )
     .mutation(async ({ input }) => {
       validateEventThumbnail(input.thumbnail);
+      validateEventSchedule(input);
       const newEvent: Event = {
         id: `event-${Date.now()}`,
         title: input.title,
@@ -86,8 +263,12 @@ export const eventsRouter = createTRPCRouter({
         time: input.time,
         location: input.location,
         timezone: input.timezone,
+        recurrence: input.recurrence,
+        reminderOffsets: input.reminderOffsets,
+        region: input.region?.trim() || undefined,
         attendees: 0,
         maxAttendees: input.maxAttendees,
+        checkInPoints: input.checkInPoints,
         isRsvped: false,
         link: input.link,
       };
@@ -99,7 +280,7 @@ export const eventsRouter = createTRPCRouter({
       return newEvent;
     }),
 
-  update: publicProcedure
+  update: adminProcedure
     .input(
       z.object({
         id: z.string(),
@@ -111,11 +292,15 @@ export const eventsRouter = createTRPCRouter({
         time: z.string().optional(),
         location: z.string().optional(),
         timezone: z.string().optional(),
-        maxAttendees: z.number().optional(),
+        recurrence: recurrenceSchema.nullable().optional(),
+        reminderOffsets: reminderOffsetsSchema.nullable().optional(),
+        region: z.string().optional(),
+        maxAttendees: z.number().int().min(0).optional(),
+        checkInPoints: z.number().min(0).max(100).optional(),
         link: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const events = await getEvents();
       const existing = events.find((e) => e.id === input.id);
       if (!existing) {
@@ -126,15 +311,28 @@ export const eventsRouter = createTRPCRouter({
         validateEventThumbnail(input.thumbnail);
       }
       
-      const updatedEvent = { ...existing, ...input } as Event;
+      // `recurrence: null` turns a series back into a one-off event; `reminderOffsets: null`
+      // restores the default reminder.
+      const { recurrence, reminderOffsets, ...changes } = input;
+      const updatedEvent: Event = {
+        ...existing,
+        ...changes,
+        recurrence: recurrence === null ? undefined : recurrence ?? existing.recurrence,
+        reminderOffsets: reminderOffsets === null ? undefined : reminderOffsets ?? existing.reminderOffsets,
+        region: changes.region === undefined ? existing.region : changes.region.trim() || undefined,
+      };
+      validateEventSchedule(updatedEvent);
       await db.update(COLLECTION, input.id, updatedEvent);
       refreshEventReminderSchedule();
+      if ((updatedEvent.maxAttendees || 0) !== (existing.maxAttendees || 0)) {
+        await promoteWaitlist(updatedEvent);
+      }
       
       console.log("[Events] Updated event:", input.id);
-      return updatedEvent;
+      return getEventForViewer(input.id, ctx.user.id);
     }),
 
-  delete: publicProcedure
+  delete: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
       const events = await getEvents();
@@ -144,51 +342,38 @@ export const eventsRouter = createTRPCRouter({
       }
       
       await db.remove(COLLECTION, input.id);
+      await removeEventRsvps(input.id);
       refreshEventReminderSchedule();
       
       console.log("[Events] Deleted event:", input.id);
       return { success: true };
     }),
 
-  rsvp: publicProcedure
-    .input(z.object({ id: z.string(), userId: z.string() }))
-    .mutation(async ({ input }) => {
+  rsvp: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
       const events = await getEvents();
       const event = events.find((e) => e.id === input.id);
       if (!event) {
         throw new Error("Event not found");
       }
-      
-      const updatedEvent = {
-        ...event,
-        attendees: event.attendees + 1,
-        isRsvped: true,
-      };
-      
-      await db.update(COLLECTION, input.id, updatedEvent);
-      
-      console.log("[Events] RSVP for event:", input.id, "by user:", input.userId);
-      return updatedEvent;
+
+      const rsvp = await setEventRsvp(event, ctx.user.id, true);
+      console.log("[Events] RSVP for event:", input.id, "by user:", ctx.user.id, "status:", rsvp?.status);
+      return getEventForViewer(input.id, ctx.user.id);
     }),
 
-  updateRsvp: publicProcedure
+  updateRsvp: protectedProcedure
     .input(z.object({ id: z.string(), isRsvped: z.boolean() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const events = await getEvents();
       const event = events.find((e) => e.id === input.id);
       if (!event) {
         throw new Error("Event not found");
       }
-      
-      const updatedEvent = {
-        ...event,
-        attendees: Math.max(0, event.attendees + (input.isRsvped ? 1 : -1)),
-        isRsvped: input.isRsvped,
-      };
-      
-      await db.update(COLLECTION, input.id, updatedEvent);
-      
-      console.log("[Events] Updated RSVP for event:", input.id, "isRsvped:", input.isRsvped);
-      return updatedEvent;
+
+      await setEventRsvp(event, ctx.user.id, input.isRsvped);
+      console.log("[Events] Updated RSVP for event:", input.id, "by user:", ctx.user.id, "isRsvped:", input.isRsvped);
+      return getEventForViewer(input.id, ctx.user.id);
     }),
 });
@@ -1,17 +1,17 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
 import { db } from "@/backend/db";
 import { ensureActiveSeason, isSubmissionInSeason } from "@/backend/services/season";
+import { findPostReuse } from "@/backend/services/duplicate-content";
 import {
   extractTweetId,
   extractTwitterAuthorHandle,
   normalizeTwitterHandle,
   normalizeTwitterUrl,
 } from "@/backend/services/performance";
-import type { ExtraContentSubmission, Submission, User } from "@/types";
+import type { ExtraContentSubmission, User } from "@/types";
 
 const EXTRA_CONTENT_COLLECTION = "extra_content_submissions";
-const SUBMISSIONS_COLLECTION = "submissions";
 const USERS_COLLECTION = "users";
 const DAY_MS = 24 * 60 * 60 * 1000;
 
@@ -33,27 +33,15 @@ async function ensureUserOwnsTweet(userId: string, authorHandle: string): Promis
   }
 }
 
-async function ensureTweetIsGloballyUnique(tweetId: string): Promise<void> {
-  const [extraContent, submissions] = await Promise.all([
-    getExtraContent(),
-    db.getCollection<Submission>(SUBMISSIONS_COLLECTION),
-  ]);
+// Extra content earns points on its own, so any earlier use of the post blocks it.
+async function ensureTweetIsGloballyUnique(userId: string, canonicalUrl: string): Promise<void> {
+  const reuse = await findPostReuse({ userId, links: [{ platform: "twitter", url: canonicalUrl }] });
+  if (!reuse) return;
 
-  if (extraContent.some((item) => item.tweetId === tweetId)) {
+  if (reuse.earlier.source === "extra_content") {
     throw new Error("This X post has already been submitted");
   }
-
-  const duplicateTaskSubmission = submissions.some((submission) => {
-    const urls = [
-      submission.postUrl,
-      ...(submission.links || []).map((link) => link.url),
-    ].filter(Boolean);
-    return urls.some((url) => extractTweetId(url) === tweetId);
-  });
-
-  if (duplicateTaskSubmission) {
-    throw new Error("This X post is already attached to a task submission");
-  }
+  throw new Error("This X post is already attached to a task submission");
 }
 
 function buildExtraContent(input: { userId: string; postUrl: string }, seasonId: string): ExtraContentSubmission {
@@ -91,13 +79,13 @@ function buildExtraContent(input: { userId: string; postUrl: string }, seasonId:
 }
 
 export const extraContentRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
+  list: protectedProcedure.query(async () => {
     const currentSeason = await ensureActiveSeason();
     const extraContent = await getExtraContent();
     return extraContent.filter((item) => isSubmissionInSeason(item, currentSeason));
   }),
 
-  getByUserId: publicProcedure
+  getByUserId: protectedProcedure
     .input(z.object({ userId: z.string() }))
     .query(async ({ input }) => {
       const currentSeason = await ensureActiveSeason();
@@ -107,14 +95,14 @@ export const extraContentRouter = createTRPCRouter({
         .sort((a, b) => Date.parse(b.submittedAt || "") - Date.parse(a.submittedAt || ""));
     }),
 
-  create: publicProcedure
-    .input(z.object({ userId: z.string(), postUrl: z.string().min(1) }))
-    .mutation(async ({ input }) => {
+  create: protectedProcedure
+    .input(z.object({ postUrl: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
       const currentSeason = await ensureActiveSeason();
-      const next = buildExtraContent(input, currentSeason.id);
+      const next = buildExtraContent({ userId: ctx.user.id, postUrl: input.postUrl }, currentSeason.id);
 
-      await ensureUserOwnsTweet(input.userId, next.authorHandle);
-      await ensureTweetIsGloballyUnique(next.tweetId);
+      await ensureUserOwnsTweet(ctx.user.id, next.authorHandle);
+      await ensureTweetIsGloballyUnique(ctx.user.id, next.canonicalUrl);
       await db.create(EXTRA_CONTENT_COLLECTION, next);
 
       return next;
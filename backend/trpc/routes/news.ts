@@ -1,9 +1,10 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../create-context";
 import * as db from "../../db";
-import type { User } from "@/types";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import { notifyActiveUsers } from "@/backend/services/notifications";
+import { sendNewsNotification } from "@/backend/services/telegram-notifications";
 
-const USERS_COLLECTION = "users";
 const NEWS_COLLECTION = "home_news";
 const NEWS_ID = "latest";
 
@@ -16,37 +17,29 @@ type HomeNews = {
   updatedByUserId: string;
 };
 
-async function ensureAdmin(adminUserId: string) {
-  const user = await db.getById<User>(USERS_COLLECTION, adminUserId);
-  if (!user || user.role !== "admin" || user.status !== "active") {
-    throw new Error("Only an active admin can update home news.");
+async function getCurrentNews(): Promise<HomeNews | null> {
+  try {
+    return await db.getById<HomeNews>(NEWS_COLLECTION, NEWS_ID);
+  } catch (error) {
+    console.log("[News] Failed to fetch current home news:", error instanceof Error ? error.message : error);
+    return null;
   }
 }
 
 export const newsRouter = createTRPCRouter({
-  getCurrent: publicProcedure.query(async () => {
-    try {
-      const item = await db.getById<HomeNews>(NEWS_COLLECTION, NEWS_ID);
-      if (!item) return null;
-      return item;
-    } catch (error) {
-      console.log("[News] Failed to fetch current home news:", error instanceof Error ? error.message : error);
-      return null;
-    }
+  getCurrent: protectedProcedure.query(async () => {
+    return getCurrentNews();
   }),
 
-  upsert: publicProcedure
+  upsert: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         postUrl: z.string().trim().min(1),
         text: z.string().trim().optional(),
         imageUrl: z.string().trim().optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
-
+    .mutation(async ({ ctx, input }) => {
       const now = new Date().toISOString();
       const payload: HomeNews = {
         id: NEWS_ID,
@@ -54,9 +47,31 @@ export const newsRouter = createTRPCRouter({
         text: input.text || "",
         imageUrl: input.imageUrl || "",
         updatedAt: now,
-        updatedByUserId: input.adminUserId,
+        updatedByUserId: ctx.user.id,
       };
 
-      return db.upsert<HomeNews>(NEWS_COLLECTION, payload);
+      const previous = await getCurrentNews();
+      const saved = await db.upsert<HomeNews>(NEWS_COLLECTION, payload);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "news.upsert",
+        targetType: "news",
+        targetId: NEWS_ID,
+        targetLabel: "Home news",
+        before: previous ? { ...previous } : null,
+        after: { ...payload },
+      });
+      if (previous?.postUrl !== payload.postUrl) {
+        await notifyActiveUsers(
+          { type: "news", title: "News", body: payload.text || "There is a new post on the home screen.", link: "/(tabs)" },
+          (user) => user.id !== ctx.user.id,
+          { push: true }
+        );
+        const telegram = await sendNewsNotification(payload);
+        if (!telegram.sent) {
+          console.log("[News] Telegram news notification skipped/failed:", telegram.reason);
+        }
+      }
+      return saved;
     }),
 });
@@ -0,0 +1,36 @@
+import { z } from "zod";
+import { createTRPCRouter, protectedProcedure } from "../create-context";
+import {
+  countUnreadNotifications,
+  listNotifications,
+  markNotificationsRead,
+} from "@/backend/services/notifications";
+
+export const notificationsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          limit: z.number().min(1).max(200).optional(),
+          unreadOnly: z.boolean().optional(),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      return listNotifications(ctx.user.id, input || {});
+    }),
+
+  unreadCount: protectedProcedure.query(async ({ ctx }) => {
+    return { count: await countUnreadNotifications(ctx.user.id) };
+  }),
+
+  markRead: protectedProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1).max(200) }))
+    .mutation(async ({ ctx, input }) => {
+      return { updated: await markNotificationsRead(ctx.user.id, input.ids) };
+    }),
+
+  markAllRead: protectedProcedure.mutation(async ({ ctx }) => {
+    return { updated: await markNotificationsRead(ctx.user.id) };
+  }),
+});
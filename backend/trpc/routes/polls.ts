@@ -1,29 +1,17 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../create-context";
 import { db } from "@/backend/db";
-import type { Poll, PollOption, PollVote, User } from "@/types";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import { notifyActiveUsers } from "@/backend/services/notifications";
+import { sendPollNotification } from "@/backend/services/telegram-notifications";
+import type { Poll, PollOption, PollVote } from "@/types";
 
 const POLLS_COLLECTION = "polls";
 const POLL_OPTIONS_COLLECTION = "poll_options";
 const POLL_VOTES_COLLECTION = "poll_votes";
-const USERS_COLLECTION = "users";
-
-async function getUser(userId: string): Promise<User> {
-  const user = await db.getById<User>(USERS_COLLECTION, userId);
-  if (!user) throw new Error("User not found");
-  return user;
-}
-
-async function ensureAdmin(userId: string): Promise<User> {
-  const user = await getUser(userId);
-  if (user.role !== "admin" || user.status !== "active") {
-    throw new Error("Admin access required");
-  }
-  return user;
-}
 
 export const pollsRouter = createTRPCRouter({
-  list: publicProcedure
+  list: protectedProcedure
     .input(z.object({ region: z.string().optional() }).optional())
     .query(async ({ input }) => {
       const polls = await db.getCollection<Poll>(POLLS_COLLECTION);
@@ -36,10 +24,9 @@ export const pollsRouter = createTRPCRouter({
         .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt));
     }),
 
-  create: publicProcedure
+  create: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         title: z.string().min(1),
         description: z.string().optional(),
         region: z.string().nullable().optional(),
@@ -47,15 +34,14 @@ export const pollsRouter = createTRPCRouter({
         options: z.array(z.string().min(1)).min(2).max(10),
       })
     )
-    .mutation(async ({ input }) => {
-      await ensureAdmin(input.adminUserId);
+    .mutation(async ({ ctx, input }) => {
       const now = new Date().toISOString();
 
       const poll: Poll = {
         id: `poll-${Date.now()}`,
         title: input.title.trim(),
         description: input.description?.trim(),
-        createdBy: input.adminUserId,
+        createdBy: ctx.user.id,
         region: input.region || null,
         expiresAt: input.expiresAt,
         createdAt: now,
@@ -70,19 +56,34 @@ export const pollsRouter = createTRPCRouter({
       }));
 
       await Promise.all(options.map((option) => db.create<PollOption>(POLL_OPTIONS_COLLECTION, option)));
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "poll.create",
+        targetType: "poll",
+        targetId: poll.id,
+        targetLabel: poll.title,
+        after: { ...poll, options: options.map((option) => option.label) },
+      });
+      await notifyActiveUsers(
+        { type: "poll", title: "New poll", body: poll.title, link: "/(tabs)/events" },
+        (user) => user.id !== ctx.user.id && (!poll.region || user.region === poll.region),
+        { push: true }
+      );
+      const telegram = await sendPollNotification(poll);
+      if (!telegram.sent) {
+        console.log("[Polls] Telegram poll notification skipped/failed:", telegram.reason);
+      }
       return { poll, options };
     }),
 
-  vote: publicProcedure
+  vote: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         pollId: z.string(),
         optionId: z.string(),
       })
     )
-    .mutation(async ({ input }) => {
-      await getUser(input.userId);
+    .mutation(async ({ ctx, input }) => {
       const poll = await db.getById<Poll>(POLLS_COLLECTION, input.pollId);
       if (!poll) throw new Error("Poll not found");
       if (Date.now() >= Date.parse(poll.expiresAt)) {
@@ -95,7 +96,7 @@ export const pollsRouter = createTRPCRouter({
       }
 
       const votes = await db.getCollection<PollVote>(POLL_VOTES_COLLECTION);
-      const existing = votes.find((vote) => vote.pollId === input.pollId && vote.userId === input.userId);
+      const existing = votes.find((vote) => vote.pollId === input.pollId && vote.userId === ctx.user.id);
       if (existing) {
         throw new Error("You already voted on this poll");
       }
@@ -104,7 +105,7 @@ export const pollsRouter = createTRPCRouter({
         id: `poll-vote-${Date.now()}`,
         pollId: input.pollId,
         optionId: input.optionId,
-        userId: input.userId,
+        userId: ctx.user.id,
         createdAt: new Date().toISOString(),
       };
 
@@ -112,7 +113,7 @@ export const pollsRouter = createTRPCRouter({
       return { success: true };
     }),
 
-  results: publicProcedure
+  results: protectedProcedure
     .input(z.object({ pollId: z.string() }))
     .query(async ({ input }) => {
       const [poll, options, votes] = await Promise.all([
@@ -141,7 +142,7 @@ export const pollsRouter = createTRPCRouter({
       };
     }),
 
-  latestCompleted: publicProcedure
+  latestCompleted: protectedProcedure
     .input(z.object({ region: z.string().optional() }).optional())
     .query(async ({ input }) => {
       const [polls, options, votes] = await Promise.all([
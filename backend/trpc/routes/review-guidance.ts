@@ -0,0 +1,99 @@
+import { z } from "zod";
+import { adminProcedure, createTRPCRouter, regionalLeadProcedure } from "../create-context";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import {
+  deleteFeedbackSnippet,
+  getReviewRubric,
+  listFeedbackSnippets,
+  saveFeedbackSnippet,
+  saveRubricGuide,
+} from "@/backend/services/review-guidance";
+
+const rubricDimensionSchema = z.enum([
+  "relevanceToTask",
+  "creativity",
+  "originality",
+  "effortFormat",
+  "enthusiasmTone",
+  "engagementScore",
+]);
+
+const rubricBandSchema = z.object({
+  min: z.number().int().min(0),
+  max: z.number().int().min(0),
+  label: z.string().max(60),
+  description: z.string().max(500),
+  example: z.string().max(500).optional(),
+});
+
+export const reviewGuidanceRouter = createTRPCRouter({
+  // Everyone who reviews needs the rubric and snippets while scoring.
+  get: regionalLeadProcedure.query(async () => {
+    const [rubric, snippets] = await Promise.all([getReviewRubric(), listFeedbackSnippets()]);
+    return { rubric, snippets };
+  }),
+
+  saveRubric: adminProcedure
+    .input(
+      z.object({
+        dimension: rubricDimensionSchema,
+        description: z.string().max(500),
+        bands: z.array(rubricBandSchema).min(1).max(10),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { dimension, ...guideInput } = input;
+      const { before, guide } = await saveRubricGuide(dimension, guideInput, ctx.user.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "review_rubric.update",
+        targetType: "review_rubric",
+        targetId: dimension,
+        targetLabel: dimension,
+        before: { description: before.description, bands: before.bands },
+        after: { description: guide.description, bands: guide.bands },
+      });
+      console.log("[ReviewGuidance] Updated rubric:", dimension);
+      return guide;
+    }),
+
+  saveSnippet: adminProcedure
+    .input(
+      z.object({
+        id: z.string().optional(),
+        title: z.string().trim().min(1).max(80),
+        text: z.string().trim().min(1).max(2000),
+        status: z.enum(["approved", "needs_edits", "rejected"]).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { before, snippet } = await saveFeedbackSnippet(input, ctx.user.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "feedback_snippet.save",
+        targetType: "feedback_snippet",
+        targetId: snippet.id,
+        targetLabel: snippet.title,
+        before: before ? { ...before } : undefined,
+        after: { ...snippet },
+      });
+      console.log("[ReviewGuidance] Saved snippet:", snippet.id);
+      return snippet;
+    }),
+
+  deleteSnippet: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await deleteFeedbackSnippet(input.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "feedback_snippet.delete",
+        targetType: "feedback_snippet",
+        targetId: existing.id,
+        targetLabel: existing.title,
+        before: { ...existing },
+      });
+      console.log("[ReviewGuidance] Deleted snippet:", existing.id);
+      return { success: true };
+    }),
+});
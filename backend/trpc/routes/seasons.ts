@@ -1,8 +1,11 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../create-context";
 import { db } from "@/backend/db";
 import { ensureActiveSeason, isSubmissionInSeason, isTaskInSeason, listSeasons, setCurrentSeasonConfig } from "@/backend/services/season";
 import { recomputeAllUserPerformance } from "@/backend/services/performance";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import { notifyActiveUsers } from "@/backend/services/notifications";
+import { sendSeasonStartedNotification } from "@/backend/services/telegram-notifications";
 import type { Season, SeasonResetLog, Submission, Task, User } from "@/types";
 
 const COLLECTION = "seasons";
@@ -75,29 +78,25 @@ function shouldCarryTaskToNextSeason(task: Task, seasonEndedAtIso: string): bool
 }
 
 export const seasonsRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
+  list: protectedProcedure.query(async () => {
     await ensureActiveSeason();
     return listSeasons();
   }),
 
-  getCurrent: publicProcedure.query(async () => {
+  getCurrent: protectedProcedure.query(async () => {
     return ensureActiveSeason();
   }),
 
-  closeAndStartNew: publicProcedure
+  closeAndStartNew: adminProcedure
     .input(
       z.object({
-        adminUserId: z.string(),
         nextSeasonName: z.string().min(1).optional(),
         nextSeasonNumber: z.number().int().min(1).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const admin = ctx.user;
       const users = await db.getCollection<User>("users");
-      const admin = users.find((user) => user.id === input.adminUserId);
-      if (!admin || admin.role !== "admin" || admin.status !== "active") {
-        throw new Error("Only an active admin can close a season.");
-      }
 
       const currentSeason = await ensureActiveSeason();
       await backfillActiveTasksToCurrentSeason(currentSeason);
@@ -189,7 +188,34 @@ export const seasonsRouter = createTRPCRouter({
         createdAt: nowIso,
       };
       await db.create<SeasonResetLog>(RESET_LOGS_COLLECTION, resetLog);
+      await recordAuditEntry({
+        actor: admin,
+        action: "season.close",
+        targetType: "season",
+        targetId: currentSeason.id,
+        targetLabel: currentSeason.name,
+        before: { ...currentSeason },
+        after: {
+          ...closedSeasonWithSummary,
+          nextSeasonId: nextSeason.id,
+          carriedTaskCount: carriedTaskIds.size,
+        },
+      });
       await recomputeAllUserPerformance();
+      await notifyActiveUsers(
+        {
+          type: "season",
+          title: `${nextSeason.name} has started`,
+          body: `${currentSeason.name} is closed and season points are reset. Good luck!`,
+          link: "/(tabs)/leaderboard",
+        },
+        undefined,
+        { push: true }
+      );
+      const telegram = await sendSeasonStartedNotification(currentSeason, nextSeason);
+      if (!telegram.sent) {
+        console.log("[Seasons] Telegram season notification skipped/failed:", telegram.reason);
+      }
 
       return {
         closedSeason: closedSeasonWithSummary,
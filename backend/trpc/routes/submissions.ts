@@ -1,15 +1,34 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure, regionalLeadProcedure } from "../create-context";
 import { submissions as initialSubmissions, ambassadorPosts as initialPosts } from "@/mocks/data";
 import { db } from "@/backend/db";
 import { ensureActiveSeason, isSubmissionInSeason } from "@/backend/services/season";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import { notifySubmissionReviewed } from "@/backend/services/review-notifications";
+import { runSubmissionPrechecks } from "@/backend/services/submission-prechecks";
+import { checkSubmissionReuse } from "@/backend/services/duplicate-content";
+import { assertTaskAcceptsSubmission, withTaskSubmissionLock } from "@/backend/services/task-submission-rules";
+import {
+  assertCanGiveSecondReview,
+  assertCanReview,
+  buildReviewClaim,
+  buildReviewEntry,
+  getActiveReviewClaim,
+  getReviewStage,
+  isLeadOverride,
+  resolveEditChecklist,
+  getSecondReviewReason,
+  withSubmissionReviewLock,
+} from "@/backend/services/submission-review";
 import type { Submission, SubmissionStatus, Platform, AmbassadorPost, User, Task } from "@/types";
+import { isTaskVisibleToUser } from "@/lib/task-audience";
+import { canReviewSubmissionBy } from "@/lib/submission-review";
 import {
+  canonicalizePostUrl,
   computeEngagementScore,
   computeXEngagementScoreFromImpressions,
   isValidPlatformUrl,
   normalizePlatform,
-  normalizeTwitterUrl,
   parseMultiLinks,
   recomputeAllUserPerformance,
   extractTweetId,
@@ -144,6 +163,11 @@ async function getTaskInfo(taskId: string): Promise<{
   }
 }
 
+async function getTask(taskId: string): Promise<Task | null> {
+  const tasks = await db.getCollection<Task>("tasks");
+  return tasks.find((t) => t.id === taskId) || null;
+}
+
 async function getUserInfo(userId: string): Promise<User | null> {
   const users = await db.getCollection<User>("users");
   return users.find((u) => u.id === userId) || null;
@@ -155,10 +179,10 @@ function validateTaskReferenceTweet(
 ) {
   if (!requiredReferenceTweetUrl) return;
 
-  const requiredNormalized = normalizeTwitterUrl(requiredReferenceTweetUrl);
+  const requiredNormalized = canonicalizePostUrl("twitter", requiredReferenceTweetUrl);
   const hasMatch = links.some((item) => {
     if (normalizePlatform(item.platform) !== "twitter") return false;
-    return normalizeTwitterUrl(item.url) === requiredNormalized;
+    return canonicalizePostUrl("twitter", item.url) === requiredNormalized;
   });
 
   if (!hasMatch) {
@@ -183,13 +207,13 @@ const linkSchema = z.object({
 });
 
 export const submissionsRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
+  list: protectedProcedure.query(async () => {
     const currentSeason = await ensureActiveSeason();
     const submissions = await getSubmissions();
     return submissions.filter((submission) => isSubmissionInSeason(submission, currentSeason));
   }),
 
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
     .query(async ({ input }) => {
       const submissions = await getSubmissions();
@@ -198,7 +222,7 @@ export const submissionsRouter = createTRPCRouter({
       return submission;
     }),
 
-  getByUserId: publicProcedure
+  getByUserId: protectedProcedure
     .input(z.object({ userId: z.string() }))
     .query(async ({ input }) => {
       const currentSeason = await ensureActiveSeason();
@@ -206,7 +230,7 @@ export const submissionsRouter = createTRPCRouter({
       return submissions.filter((s) => s.userId === input.userId && isSubmissionInSeason(s, currentSeason));
     }),
 
-  getByTaskId: publicProcedure
+  getByTaskId: protectedProcedure
     .input(z.object({ taskId: z.string() }))
     .query(async ({ input }) => {
       const currentSeason = await ensureActiveSeason();
@@ -214,10 +238,9 @@ export const submissionsRouter = createTRPCRouter({
       return submissions.filter((s) => s.taskId === input.taskId && isSubmissionInSeason(s, currentSeason));
     }),
 
-  create: publicProcedure
+  create: protectedProcedure
     .input(
       z.object({
-        userId: z.string(),
         taskId: z.string(),
         platform: z.enum(["twitter", "x", "instagram", "tiktok", "youtube", "facebook", "telegram"]).optional(),
         postUrl: z.string().optional(),
@@ -227,47 +250,50 @@ export const submissionsRouter = createTRPCRouter({
         notes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const currentSeason = await ensureActiveSeason();
       validateScreenshot(input.screenshotUrl);
-      const taskInfo = await getTaskInfo(input.taskId);
-      const linkData = normalizeSubmissionLinks(input);
-      validateTaskReferenceTweet(taskInfo.requiredReferenceTweetUrl, linkData.links);
-
-      const newSubmission: Submission = {
-        id: `sub-${Date.now()}`,
-        seasonId: taskInfo.seasonId || currentSeason.id,
-        userId: input.userId,
-        taskId: input.taskId,
-        taskTitle: taskInfo.title,
-        campaignTitle: taskInfo.campaignTitle,
-        platform: linkData.platform,
-        platforms: linkData.platforms,
-        postUrl: linkData.postUrl,
-        links: linkData.links,
-        screenshotUrl: input.screenshotUrl,
-        notes: input.notes,
-        status: "pending" as SubmissionStatus,
-        submittedAt: new Date().toISOString(),
-      };
-
-      await db.create(SUBMISSIONS_COLLECTION, newSubmission);
-
-      const task = await db.getById<{ id: string; submissions: number }>("tasks", input.taskId);
-      if (task) {
-        await db.update<{ id: string; submissions: number }>("tasks", input.taskId, {
-          submissions: (task.submissions || 0) + 1,
-        });
+      const task = await db.getById<Task>("tasks", input.taskId);
+      if (!task) {
+        throw new Error("Task not found");
       }
-
-      return newSubmission;
+      if (!isTaskVisibleToUser(task, ctx.user)) {
+        throw new Error("This task is not open to your region or role");
+      }
+      const linkData = normalizeSubmissionLinks(input);
+      validateTaskReferenceTweet(task.requiredReferenceTweetUrl, linkData.links);
+
+      return withTaskSubmissionLock(task.id, async () => {
+        await assertTaskAcceptsSubmission(task, ctx.user.id);
+        const duplicateOf = await checkSubmissionReuse({ userId: ctx.user.id, links: linkData.links, task });
+
+        const newSubmission: Submission = {
+          id: `sub-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          seasonId: task.seasonId || currentSeason.id,
+          userId: ctx.user.id,
+          taskId: task.id,
+          taskTitle: task.title,
+          campaignTitle: task.campaignTitle,
+          platform: linkData.platform,
+          platforms: linkData.platforms,
+          postUrl: linkData.postUrl,
+          links: linkData.links,
+          screenshotUrl: input.screenshotUrl,
+          notes: input.notes,
+          status: "pending" as SubmissionStatus,
+          submittedAt: new Date().toISOString(),
+          ...(duplicateOf ? { duplicateOf } : {}),
+        };
+
+        await db.create(SUBMISSIONS_COLLECTION, newSubmission);
+        return newSubmission;
+      });
     }),
 
-  update: publicProcedure
+  update: protectedProcedure
     .input(
       z.object({
         id: z.string(),
-        userId: z.string(),
         platform: z.enum(["twitter", "x", "instagram", "tiktok", "youtube", "facebook", "telegram"]).optional(),
         postUrl: z.string().optional(),
         platforms: z.array(z.enum(["twitter", "x", "instagram", "tiktok", "youtube", "facebook", "telegram"])).optional(),
@@ -276,12 +302,12 @@ export const submissionsRouter = createTRPCRouter({
         notes: z.string().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       validateScreenshot(input.screenshotUrl);
       const submissions = await getSubmissions();
       const existing = submissions.find((submission) => submission.id === input.id);
       if (!existing) throw new Error("Submission not found");
-      if (existing.userId !== input.userId) throw new Error("You can only edit your own submission");
+      if (existing.userId !== ctx.user.id) throw new Error("You can only edit your own submission");
       if (existing.status !== "pending" && existing.status !== "needs_edits") {
         throw new Error("Approved or rejected submissions cannot be edited");
       }
@@ -294,6 +320,12 @@ export const submissionsRouter = createTRPCRouter({
         links: input.links || existing.links,
       });
       validateTaskReferenceTweet(taskInfo.requiredReferenceTweetUrl, linkData.links);
+      const duplicateOf = await checkSubmissionReuse({
+        userId: ctx.user.id,
+        links: linkData.links,
+        task: taskInfo,
+        excludeSubmissionId: existing.id,
+      });
 
       const updatedSubmission: Submission = {
         ...existing,
@@ -307,6 +339,11 @@ export const submissionsRouter = createTRPCRouter({
         feedback: undefined,
         rating: undefined,
         reviewedAt: undefined,
+        reviewClaim: undefined,
+        secondReviewReason: undefined,
+        editChecklist: undefined,
+        prechecks: undefined,
+        duplicateOf,
         submittedAt: new Date().toISOString(),
         seasonId: existing.seasonId,
       };
@@ -315,7 +352,7 @@ export const submissionsRouter = createTRPCRouter({
       return updatedSubmission;
     }),
 
-  review: publicProcedure
+  review: regionalLeadProcedure
     .input(
       z.object({
         id: z.string(),
@@ -330,118 +367,288 @@ export const submissionsRouter = createTRPCRouter({
             shares: z.number(),
           })
           .optional(),
+        requestSecondReview: z.boolean().optional(),
+        checklistItemIds: z.array(z.string()).max(100).optional(),
       })
     )
-    .mutation(async ({ input }) => {
-      const submissions = await getSubmissions();
-      const submission = submissions.find((s) => s.id === input.id);
-      if (!submission) throw new Error("Submission not found");
-      const submissionUser = await getUserInfo(submission.userId);
-
-      const nowIso = new Date().toISOString();
-      const wasApproved = submission.status === "approved";
-      const isNowApproved = input.status === "approved";
-      const nextMetrics = input.metrics || submission.metrics || {
-        impressions: 0,
-        likes: 0,
-        comments: 0,
-        shares: 0,
-      };
+    .mutation(async ({ ctx, input }) => {
+      return withSubmissionReviewLock(input.id, async () => {
+        const submissions = await getSubmissions();
+        const submission = submissions.find((s) => s.id === input.id);
+        if (!submission) throw new Error("Submission not found");
+        const submissionUser = await getUserInfo(submission.userId);
+        assertCanReview(submission, ctx.user, submissionUser);
+        const stage = getReviewStage(submission);
+        if (stage === "second") {
+          assertCanGiveSecondReview(submission, ctx.user);
+        }
 
-      let nextRating = input.rating || submission.rating;
-      if (isNowApproved && nextRating) {
+        const nowIso = new Date().toISOString();
+        const checklistItemIds = input.status === "needs_edits" ? input.checklistItemIds || [] : [];
+        const editChecklist =
+          checklistItemIds.length > 0
+            ? resolveEditChecklist(await getTask(submission.taskId), checklistItemIds)
+            : [];
+        const wasApproved = submission.status === "approved";
+        const isNowApproved = input.status === "approved";
+        const nextMetrics = input.metrics || submission.metrics || {
+          impressions: 0,
+          likes: 0,
+          comments: 0,
+          shares: 0,
+        };
+
+        let nextRating = input.rating || submission.rating;
+        if (isNowApproved && nextRating) {
+          const links = parseMultiLinks(
+            normalizePlatform(submission.platform),
+            submission.postUrl,
+            submission.platforms,
+            submission.links
+          );
+          const hasTwitterLink = links.some((item) => normalizePlatform(item.platform) === "twitter");
+          const xImpressions = input.metrics?.impressions ?? submission.xImpressions;
+          const followerCount = submissionUser?.stats?.xFollowers || 0;
+
+          if (hasTwitterLink && typeof xImpressions === "number") {
+            const currentEngagement = Math.max(0, Math.min(20, Math.trunc(nextRating.engagementScore || 0)));
+            const thresholdScore = computeXEngagementScoreFromImpressions(xImpressions, followerCount);
+            const nextEngagement = Math.max(currentEngagement, thresholdScore);
+            const contentOnly = Math.max(0, (nextRating.totalScore || 0) - currentEngagement);
+            nextRating = {
+              ...nextRating,
+              engagementScore: nextEngagement,
+              totalScore: Math.min(100, Number((contentOnly + nextEngagement).toFixed(2))),
+            };
+          } else if (!hasTwitterLink) {
+            // Preserve the admin-entered score for non-X platforms instead of
+            // recomputing it from metrics, which can be missing or intentionally manual.
+            const engagementScore = Math.max(0, Math.min(20, Number(nextRating.engagementScore || 0)));
+            const contentOnly = Math.max(0, (nextRating.totalScore || 0) - (nextRating.engagementScore || 0));
+            nextRating = {
+              ...nextRating,
+              engagementScore,
+              totalScore: Math.min(100, Number((contentOnly + engagementScore).toFixed(2))),
+            };
+          }
+        }
+
+        let xTrackingExpiresAt = submission.xTrackingExpiresAt;
         const links = parseMultiLinks(
           normalizePlatform(submission.platform),
           submission.postUrl,
           submission.platforms,
           submission.links
         );
-        const hasTwitterLink = links.some((item) => normalizePlatform(item.platform) === "twitter");
-        const xImpressions = input.metrics?.impressions ?? submission.xImpressions;
-        const followerCount = submissionUser?.stats?.xFollowers || 0;
-
-        if (hasTwitterLink && typeof xImpressions === "number") {
-          const currentEngagement = Math.max(0, Math.min(20, Math.trunc(nextRating.engagementScore || 0)));
-          const thresholdScore = computeXEngagementScoreFromImpressions(xImpressions, followerCount);
-          const nextEngagement = Math.max(currentEngagement, thresholdScore);
-          const contentOnly = Math.max(0, (nextRating.totalScore || 0) - currentEngagement);
-          nextRating = {
-            ...nextRating,
-            engagementScore: nextEngagement,
-            totalScore: Math.min(100, Number((contentOnly + nextEngagement).toFixed(2))),
-          };
-        } else if (!hasTwitterLink) {
-          // Preserve the admin-entered score for non-X platforms instead of
-          // recomputing it from metrics, which can be missing or intentionally manual.
-          const engagementScore = Math.max(0, Math.min(20, Number(nextRating.engagementScore || 0)));
-          const contentOnly = Math.max(0, (nextRating.totalScore || 0) - (nextRating.engagementScore || 0));
-          nextRating = {
-            ...nextRating,
-            engagementScore,
-            totalScore: Math.min(100, Number((contentOnly + engagementScore).toFixed(2))),
+
+        const twitterLink = links.find((item) => normalizePlatform(item.platform) === "twitter");
+        const hasTrackableTweet = !!twitterLink?.url && !!extractTweetId(twitterLink.url);
+        if (isNowApproved && hasTrackableTweet) {
+          xTrackingExpiresAt = new Date(Date.now() + (7 * 24 * 60 * 60 * 1000)).toISOString();
+        }
+
+        const reviewHistory = [
+          ...(submission.reviewHistory || []),
+          buildReviewEntry(
+            stage,
+            ctx.user,
+            {
+              status: input.status,
+              feedback: input.feedback,
+              rating: input.rating ? nextRating : undefined,
+              editChecklist,
+              overridesLead: isLeadOverride(submission, ctx.user),
+            },
+            nowIso
+          ),
+        ];
+        const secondReviewReason =
+          stage === "first"
+            ? getSecondReviewReason(submission, input.status, nextRating, Boolean(input.requestSecondReview))
+            : null;
+
+        // The approval is held back, unannounced, until a second reviewer confirms or overrides it.
+        if (secondReviewReason) {
+          const awaitingSubmission: Submission = {
+            ...submission,
+            rating: nextRating,
+            metrics: nextMetrics,
+            reviewHistory,
+            secondReviewReason,
+            reviewClaim: undefined,
+            assignedReviewerId: undefined,
           };
+          await db.update(SUBMISSIONS_COLLECTION, input.id, awaitingSubmission);
+          await recordAuditEntry({
+            actor: ctx.user,
+            action: "submission.review",
+            targetType: "submission",
+            targetId: input.id,
+            targetLabel: `${submission.taskTitle} by ${submissionUser?.name || submission.userId}`,
+            before: { ...submission },
+            after: { ...awaitingSubmission },
+          });
+          console.log("[Submissions] Approval waiting for second review:", input.id, secondReviewReason);
+          return awaitingSubmission;
         }
-      }
 
-      let xTrackingExpiresAt = submission.xTrackingExpiresAt;
-      const links = parseMultiLinks(
-        normalizePlatform(submission.platform),
-        submission.postUrl,
-        submission.platforms,
-        submission.links
-      );
+        const updatedSubmission: Submission = {
+          ...submission,
+          status: input.status as SubmissionStatus,
+          feedback: input.feedback,
+          reviewedAt: nowIso,
+          rating: nextRating,
+          metrics: nextMetrics,
+          xTrackingExpiresAt,
+          reviewHistory,
+          secondReviewReason: undefined,
+          reviewClaim: undefined,
+          editChecklist: editChecklist.length > 0 ? editChecklist : undefined,
+        };
+
+        await db.update(SUBMISSIONS_COLLECTION, input.id, updatedSubmission);
+        await recordAuditEntry({
+          actor: ctx.user,
+          action: "submission.review",
+          targetType: "submission",
+          targetId: input.id,
+          targetLabel: `${submission.taskTitle} by ${submissionUser?.name || submission.userId}`,
+          before: { ...submission },
+          after: { ...updatedSubmission },
+        });
 
-      const twitterLink = links.find((item) => normalizePlatform(item.platform) === "twitter");
-      const hasTrackableTweet = !!twitterLink?.url && !!extractTweetId(twitterLink.url);
-      if (isNowApproved && hasTrackableTweet) {
-        xTrackingExpiresAt = new Date(Date.now() + (7 * 24 * 60 * 60 * 1000)).toISOString();
-      }
+        const user = submissionUser;
+        if (user && !wasApproved && isNowApproved) {
+          const posts = await getPosts();
+          const hasExistingPost = posts.some((post) => {
+            const sourceSubmissionId = (post as AmbassadorPost & { sourceSubmissionId?: string }).sourceSubmissionId;
+            return sourceSubmissionId === submission.id;
+          });
+
+          if (!hasExistingPost) {
+            const newPost: AmbassadorPost & { sourceSubmissionId?: string } = {
+              id: `post-${Date.now()}`,
+              sourceSubmissionId: submission.id,
+              userId: submission.userId,
+              userName: user.name,
+              userAvatar: sanitizeAvatar(user.avatar),
+              userRegion: user.region,
+              platform: updatedSubmission.platform,
+              campaignTitle: submission.campaignTitle,
+              content: submission.notes || `Post for ${submission.taskTitle}`,
+              postUrl: updatedSubmission.postUrl,
+              thumbnail: updatedSubmission.screenshotUrl,
+              metrics: nextMetrics,
+              postedAt: updatedSubmission.submittedAt,
+            };
+            await db.create(POSTS_COLLECTION, newPost);
+          }
+        }
 
-      const updatedSubmission: Submission = {
-        ...submission,
-        status: input.status as SubmissionStatus,
-        feedback: input.feedback,
-        reviewedAt: nowIso,
-        rating: nextRating,
-        metrics: nextMetrics,
-        xTrackingExpiresAt,
-      };
+        await recomputeAllUserPerformance();
 
-      await db.update(SUBMISSIONS_COLLECTION, input.id, updatedSubmission);
+        const notification = await notifySubmissionReviewed(submission, updatedSubmission);
+        if (!notification.sent) {
+          console.log("[Submissions] Review notification skipped/failed:", input.id, notification.reason);
+        }
+        return updatedSubmission;
+      });
+    }),
 
-      const user = submissionUser;
-      if (user && !wasApproved && isNowApproved) {
-        const posts = await getPosts();
-        const hasExistingPost = posts.some((post) => {
-          const sourceSubmissionId = (post as AmbassadorPost & { sourceSubmissionId?: string }).sourceSubmissionId;
-          return sourceSubmissionId === submission.id;
-        });
+  claim: regionalLeadProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return withSubmissionReviewLock(input.id, async () => {
+        const submission = await db.getById<Submission>(SUBMISSIONS_COLLECTION, input.id);
+        if (!submission) throw new Error("Submission not found");
+        assertCanReview(submission, ctx.user, await getUserInfo(submission.userId));
+
+        const claimed: Submission = { ...submission, reviewClaim: buildReviewClaim(ctx.user) };
+        await db.update<Submission>(SUBMISSIONS_COLLECTION, input.id, claimed);
+        return claimed;
+      });
+    }),
 
-        if (!hasExistingPost) {
-          const newPost: AmbassadorPost & { sourceSubmissionId?: string } = {
-            id: `post-${Date.now()}`,
-            sourceSubmissionId: submission.id,
-            userId: submission.userId,
-            userName: user.name,
-            userAvatar: sanitizeAvatar(user.avatar),
-            userRegion: user.region,
-            platform: updatedSubmission.platform,
-            campaignTitle: submission.campaignTitle,
-            content: submission.notes || `Post for ${submission.taskTitle}`,
-            postUrl: updatedSubmission.postUrl,
-            thumbnail: updatedSubmission.screenshotUrl,
-            metrics: nextMetrics,
-            postedAt: updatedSubmission.submittedAt,
-          };
-          await db.create(POSTS_COLLECTION, newPost);
+  release: regionalLeadProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      return withSubmissionReviewLock(input.id, async () => {
+        const submission = await db.getById<Submission>(SUBMISSIONS_COLLECTION, input.id);
+        if (!submission) throw new Error("Submission not found");
+        const claim = getActiveReviewClaim(submission);
+        if (claim && claim.reviewerId !== ctx.user.id) {
+          throw new Error(`${claim.reviewerName} is reviewing this submission`);
         }
+        if (!submission.reviewClaim) return submission;
+
+        const released: Submission = { ...submission, reviewClaim: undefined };
+        await db.update<Submission>(SUBMISSIONS_COLLECTION, input.id, released);
+        return released;
+      });
+    }),
+
+  // Fetches the X post once and stores the results so every reviewer sees the same badges.
+  precheck: regionalLeadProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const submission = await db.getById<Submission>(SUBMISSIONS_COLLECTION, input.id);
+      if (!submission) throw new Error("Submission not found");
+      const author = await getUserInfo(submission.userId);
+      if (!canReviewSubmissionBy(ctx.user, author)) {
+        throw new Error("You can only review submissions from ambassadors in your region");
       }
+      const task = await getTask(submission.taskId);
+      const prechecks = await runSubmissionPrechecks(submission, task, author);
+
+      return withSubmissionReviewLock(input.id, async () => {
+        const current = await db.getById<Submission>(SUBMISSIONS_COLLECTION, input.id);
+        if (!current) throw new Error("Submission not found");
+        if (current.submittedAt !== submission.submittedAt) {
+          throw new Error("The submission was changed while it was being checked. Try again.");
+        }
+        const checked: Submission = { ...current, prechecks };
+        await db.update<Submission>(SUBMISSIONS_COLLECTION, input.id, checked);
+        console.log("[Submissions] Pre-checked:", input.id, prechecks.checks.filter((check) => !check.passed).length, "failed");
+        return checked;
+      });
+    }),
 
-      await recomputeAllUserPerformance();
-      return updatedSubmission;
+  assign: adminProcedure
+    .input(z.object({ id: z.string(), reviewerId: z.string().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      return withSubmissionReviewLock(input.id, async () => {
+        const submission = await db.getById<Submission>(SUBMISSIONS_COLLECTION, input.id);
+        if (!submission) throw new Error("Submission not found");
+        if (input.reviewerId) {
+          const [reviewer, author] = await Promise.all([getUserInfo(input.reviewerId), getUserInfo(submission.userId)]);
+          if (!reviewer || !canReviewSubmissionBy(reviewer, author)) {
+            throw new Error("Reviewer must be an admin or a regional lead from the ambassador's region");
+          }
+        }
+
+        const claim = getActiveReviewClaim(submission);
+        const updated: Submission = {
+          ...submission,
+          assignedReviewerId: input.reviewerId || undefined,
+          // A claim held by someone other than the new reviewer is handed over.
+          reviewClaim: claim && claim.reviewerId === input.reviewerId ? claim : undefined,
+        };
+        await db.update<Submission>(SUBMISSIONS_COLLECTION, input.id, updated);
+        await recordAuditEntry({
+          actor: ctx.user,
+          action: "submission.assign",
+          targetType: "submission",
+          targetId: input.id,
+          targetLabel: submission.taskTitle,
+          before: { assignedReviewerId: submission.assignedReviewerId },
+          after: { assignedReviewerId: updated.assignedReviewerId },
+        });
+        console.log("[Submissions] Assigned reviewer:", input.id, input.reviewerId || "none");
+        return updated;
+      });
     }),
 
-  getAmbassadorFeed: publicProcedure
+  getAmbassadorFeed: protectedProcedure
     .input(z.object({ limit: z.number().optional() }).optional())
     .query(async ({ input }) => {
       const limit = input?.limit || 20;
@@ -471,7 +678,7 @@ export const submissionsRouter = createTRPCRouter({
         }));
     }),
 
-  delete: publicProcedure
+  delete: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
       const submissions = await getSubmissions();
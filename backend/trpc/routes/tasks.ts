@@ -1,15 +1,90 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
-import { tasks as initialTasks, campaigns } from "@/mocks/data";
+import { adminProcedure, createTRPCRouter, protectedProcedure } from "../create-context";
+import { tasks as initialTasks } from "@/mocks/data";
 import { db } from "@/backend/db";
 import { ensureActiveSeason, isTaskInSeason } from "@/backend/services/season";
-import type { Task, TaskStatus, Platform } from "@/types";
-import { sendTaskActiveNotification } from "@/backend/services/telegram-notifications";
+import type { Task, User } from "@/types";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import { withDerivedSubmissionCounts } from "@/backend/services/task-submission-rules";
+import { resolveTaskCampaign } from "@/backend/services/campaigns";
+import { applyTaskTemplate, parseTaskImport, withTaskImportDefaults } from "@/backend/services/task-import";
+import {
+  deleteTaskTemplate,
+  findTaskTemplate,
+  listTaskTemplates,
+  saveTaskTemplate,
+} from "@/backend/services/task-templates";
+import {
+  announceTaskActivation,
+  isTaskScheduled,
+  refreshTaskStatusSchedule,
+} from "@/backend/services/task-status-scheduler";
+import { isTaskVisibleToUser, normalizeTaskAudience } from "@/lib/task-audience";
 
 const COLLECTION = "tasks";
 const MAX_IMAGE_DATA_URI_LENGTH = 300_000;
+const MAX_IMPORT_CONTENT_LENGTH = 1_000_000;
 const ENABLE_DEFAULT_SEEDING = (process.env.ENABLE_DEFAULT_SEEDING || "false") === "true";
 
+const taskAudienceSchema = z.object({
+  regions: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+  roles: z.array(z.enum(["ambassador", "regional_lead"])).optional(),
+  userIds: z.array(z.string().min(1)).max(500).optional(),
+});
+
+const platformSchema = z.enum(["twitter", "instagram", "tiktok", "youtube", "facebook", "telegram"]);
+
+const createTaskSchema = z.object({
+  campaignId: z.string().optional(), // empty for tasks outside any campaign
+  campaignTitle: z.string().optional(),
+  title: z.string(),
+  brief: z.string(),
+  thumbnail: z.string().optional(),
+  platforms: z.array(platformSchema),
+  hashtags: z.array(z.string()),
+  mentions: z.array(z.string()),
+  dos: z.array(z.string()),
+  donts: z.array(z.string()),
+  deadline: z.string(),
+  points: z.number(),
+  maxSubmissions: z.number().optional(),
+  maxSubmissionsPerUser: z.number().int().min(1).optional(),
+  deadlineGraceMinutes: z.number().int().min(0).optional(),
+  publishAt: z.string().optional(),
+  requiredReferenceTweetUrl: z.string().optional(),
+  audience: taskAudienceSchema.optional(),
+});
+
+// A template is a task without its dates.
+const taskTemplateSchema = createTaskSchema
+  .omit({ campaignTitle: true, deadline: true, publishAt: true })
+  .extend({
+    id: z.string().optional(),
+    name: z.string().trim().min(1).max(80),
+  });
+
+type TaskImportResult = {
+  row: number;
+  success: boolean;
+  taskId?: string;
+  title?: string;
+  error?: string;
+};
+
+function parsePublishAt(publishAt?: string | null): string | undefined {
+  if (!publishAt) return undefined;
+  const publishAtMs = Date.parse(publishAt);
+  if (Number.isNaN(publishAtMs)) {
+    throw new Error("Invalid publish time");
+  }
+  return new Date(publishAtMs).toISOString();
+}
+
+// Scheduled tasks stay hidden from everyone but admins until they are published.
+function isTaskListedForUser(task: Task, user: User): boolean {
+  return user.role === "admin" || (!isTaskScheduled(task) && isTaskVisibleToUser(task, user));
+}
+
 function validateTaskThumbnail(thumbnail?: string) {
   if (!thumbnail) return;
   if (thumbnail.startsWith("data:image/") && thumbnail.length > MAX_IMAGE_DATA_URI_LENGTH) {
@@ -41,93 +116,179 @@ async function getTasks(): Promise<Task[]> {
   return tasks;
 }
 
+async function createTask(input: z.infer<typeof createTaskSchema>, actor: User): Promise<Task> {
+  const currentSeason = await ensureActiveSeason();
+  validateTaskThumbnail(input.thumbnail);
+  const campaign = input.campaignId ? await resolveTaskCampaign(input.campaignId) : null;
+  const publishAt = parsePublishAt(input.publishAt);
+  const newTask: Task = {
+    id: `task-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    seasonId: currentSeason.id,
+    campaignId: campaign?.id || "",
+    campaignTitle: campaign?.title || input.campaignTitle || "General Campaign",
+    title: input.title,
+    brief: input.brief,
+    thumbnail: input.thumbnail,
+    platforms: input.platforms,
+    hashtags: input.hashtags,
+    mentions: input.mentions,
+    dos: input.dos,
+    donts: input.donts,
+    deadline: input.deadline,
+    points: input.points,
+    status: publishAt && Date.parse(publishAt) > Date.now() ? "upcoming" : "active",
+    publishAt,
+    submissions: 0,
+    maxSubmissions: input.maxSubmissions,
+    maxSubmissionsPerUser: input.maxSubmissionsPerUser,
+    deadlineGraceMinutes: input.deadlineGraceMinutes,
+    requiredReferenceTweetUrl: input.requiredReferenceTweetUrl,
+    audience: normalizeTaskAudience(input.audience),
+  };
+
+  await db.create(COLLECTION, newTask);
+  await recordAuditEntry({
+    actor,
+    action: "task.create",
+    targetType: "task",
+    targetId: newTask.id,
+    targetLabel: newTask.title,
+    after: { ...newTask },
+  });
+
+  if (newTask.status === "active") {
+    await announceTaskActivation(newTask, actor.id);
+  }
+  refreshTaskStatusSchedule();
+
+  console.log("[Tasks] Created new task:", newTask.id);
+  return newTask;
+}
+
 export const tasksRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
+  list: protectedProcedure.query(async ({ ctx }) => {
     const currentSeason = await ensureActiveSeason();
     const tasks = await getTasks();
-    const scopedTasks = tasks.filter((task) => isTaskInSeason(task, currentSeason));
+    const scopedTasks = tasks.filter((task) => isTaskInSeason(task, currentSeason) && isTaskListedForUser(task, ctx.user));
     console.log("[Tasks] Fetching season tasks, count:", scopedTasks.length, "season:", currentSeason.id);
-    return scopedTasks;
+    return withDerivedSubmissionCounts(scopedTasks);
   }),
 
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       console.log("[Tasks] Fetching task by id:", input.id);
       const currentSeason = await ensureActiveSeason();
       const tasks = await getTasks();
-      const task = tasks.find((t) => t.id === input.id && isTaskInSeason(t, currentSeason));
+      // Out-of-audience and unpublished tasks look missing rather than forbidden.
+      const task = tasks.find(
+        (t) => t.id === input.id && isTaskInSeason(t, currentSeason) && isTaskListedForUser(t, ctx.user)
+      );
       if (!task) {
         throw new Error("Task not found");
       }
-      return task;
+      const [counted] = await withDerivedSubmissionCounts([task]);
+      return counted;
+    }),
+
+  create: adminProcedure
+    .input(createTaskSchema)
+    .mutation(async ({ ctx, input }) => {
+      return createTask(input, ctx.user);
+    }),
+
+  templates: adminProcedure.query(async () => {
+    return listTaskTemplates();
+  }),
+
+  saveTemplate: adminProcedure
+    .input(taskTemplateSchema)
+    .mutation(async ({ ctx, input }) => {
+      validateTaskThumbnail(input.thumbnail);
+      const { before, template } = await saveTaskTemplate(input, ctx.user.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "task_template.save",
+        targetType: "task_template",
+        targetId: template.id,
+        targetLabel: template.name,
+        before: before ? { ...before } : undefined,
+        after: { ...template },
+      });
+      return template;
+    }),
+
+  deleteTemplate: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await deleteTaskTemplate(input.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "task_template.delete",
+        targetType: "task_template",
+        targetId: existing.id,
+        targetLabel: existing.name,
+        before: { ...existing },
+      });
+      return { success: true };
     }),
 
-  create: publicProcedure
+  /**
+   * Creates one task per CSV or JSON row. Each row goes through the same validation as
+   * `create`; a bad row is reported and skipped without stopping the rest.
+   */
+  bulkImport: adminProcedure
     .input(
       z.object({
-        campaignId: z.string(),
-        campaignTitle: z.string().optional(),
-        title: z.string(),
-        brief: z.string(),
-        thumbnail: z.string().optional(),
-        platforms: z.array(z.enum(["twitter", "instagram", "tiktok", "youtube", "facebook", "telegram"])),
-        hashtags: z.array(z.string()),
-        mentions: z.array(z.string()),
-        dos: z.array(z.string()),
-        donts: z.array(z.string()),
-        deadline: z.string(),
-        points: z.number(),
-        maxSubmissions: z.number().optional(),
-        requiredReferenceTweetUrl: z.string().optional(),
+        format: z.enum(["csv", "json"]),
+        content: z.string().min(1).max(MAX_IMPORT_CONTENT_LENGTH),
       })
     )
-    .mutation(async ({ input }) => {
-      const currentSeason = await ensureActiveSeason();
-      validateTaskThumbnail(input.thumbnail);
-      const campaign = campaigns.find((c) => c.id === input.campaignId);
-      const newTask: Task = {
-        id: `task-${Date.now()}`,
-        seasonId: currentSeason.id,
-        campaignId: input.campaignId,
-        campaignTitle: input.campaignTitle || campaign?.title || "General Campaign",
-        title: input.title,
-        brief: input.brief,
-        thumbnail: input.thumbnail,
-        platforms: input.platforms as Platform[],
-        hashtags: input.hashtags,
-        mentions: input.mentions,
-        dos: input.dos,
-        donts: input.donts,
-        deadline: input.deadline,
-        points: input.points,
-        status: "active" as TaskStatus,
-        submissions: 0,
-        maxSubmissions: input.maxSubmissions,
-        requiredReferenceTweetUrl: input.requiredReferenceTweetUrl,
-      };
-      
-      await db.create(COLLECTION, newTask);
+    .mutation(async ({ ctx, input }) => {
+      const rows = parseTaskImport(input.format, input.content);
+      const report: TaskImportResult[] = [];
 
-      if (newTask.status === "active") {
-        const result = await sendTaskActiveNotification(newTask);
-        if (!result.sent) {
-          console.log("[Tasks] Telegram task notification skipped/failed:", result.reason);
+      for (const { row, values } of rows) {
+        try {
+          let merged = values;
+          if (typeof values.template === "string" && values.template.trim()) {
+            const template = await findTaskTemplate(values.template);
+            if (!template) {
+              throw new Error(`Template "${values.template}" not found`);
+            }
+            merged = applyTaskTemplate(values, template);
+          }
+          const parsed = createTaskSchema.safeParse(withTaskImportDefaults(merged));
+          if (!parsed.success) {
+            const issue = parsed.error.issues[0];
+            throw new Error(issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message);
+          }
+          const task = await createTask(parsed.data, ctx.user);
+          report.push({ row, success: true, taskId: task.id, title: task.title });
+        } catch (error) {
+          report.push({
+            row,
+            success: false,
+            title: typeof values.title === "string" ? values.title : undefined,
+            error: error instanceof Error ? error.message : "Could not create task",
+          });
         }
       }
-      
-      console.log("[Tasks] Created new task:", newTask.id);
-      return newTask;
+
+      const created = report.filter((result) => result.success).length;
+      console.log("[Tasks] Bulk import created", created, "of", report.length, "tasks");
+      return { created, failed: report.length - created, results: report };
     }),
 
-  update: publicProcedure
+  update: adminProcedure
     .input(
       z.object({
         id: z.string(),
+        campaignId: z.string().nullable().optional(),
         title: z.string().optional(),
         brief: z.string().optional(),
         thumbnail: z.string().optional(),
-        platforms: z.array(z.enum(["twitter", "instagram", "tiktok", "youtube", "facebook", "telegram"])).optional(),
+        platforms: z.array(platformSchema).optional(),
         hashtags: z.array(z.string()).optional(),
         mentions: z.array(z.string()).optional(),
         dos: z.array(z.string()).optional(),
@@ -135,11 +296,15 @@ export const tasksRouter = createTRPCRouter({
         deadline: z.string().optional(),
         points: z.number().optional(),
         status: z.enum(["active", "upcoming", "completed"]).optional(),
-        maxSubmissions: z.number().optional(),
+        maxSubmissions: z.number().nullable().optional(),
+        maxSubmissionsPerUser: z.number().int().min(1).nullable().optional(),
+        deadlineGraceMinutes: z.number().int().min(0).nullable().optional(),
+        publishAt: z.string().nullable().optional(),
         requiredReferenceTweetUrl: z.string().optional(),
+        audience: taskAudienceSchema.nullable().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       validateTaskThumbnail(input.thumbnail);
       const tasks = await getTasks();
       const existing = tasks.find((t) => t.id === input.id);
@@ -147,24 +312,49 @@ export const tasksRouter = createTRPCRouter({
         throw new Error("Task not found");
       }
       
-      const updatedTask = { ...existing, ...input } as Task;
+      const { audience, maxSubmissions, maxSubmissionsPerUser, deadlineGraceMinutes, publishAt, campaignId, ...changes } = input;
+      const updatedTask = { ...existing, ...changes } as Task;
+      if (campaignId === null) {
+        updatedTask.campaignId = "";
+        updatedTask.campaignTitle = "General Campaign";
+      } else if (campaignId !== undefined && campaignId !== existing.campaignId) {
+        const campaign = await resolveTaskCampaign(campaignId);
+        updatedTask.campaignId = campaign.id;
+        updatedTask.campaignTitle = campaign.title;
+      }
+      if (audience !== undefined) {
+        updatedTask.audience = normalizeTaskAudience(audience);
+      }
+      // null clears a limit.
+      if (maxSubmissions !== undefined) updatedTask.maxSubmissions = maxSubmissions ?? undefined;
+      if (maxSubmissionsPerUser !== undefined) updatedTask.maxSubmissionsPerUser = maxSubmissionsPerUser ?? undefined;
+      if (deadlineGraceMinutes !== undefined) updatedTask.deadlineGraceMinutes = deadlineGraceMinutes ?? undefined;
+      if (publishAt !== undefined) updatedTask.publishAt = parsePublishAt(publishAt);
       await db.update(COLLECTION, input.id, updatedTask);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "task.update",
+        targetType: "task",
+        targetId: input.id,
+        targetLabel: updatedTask.title,
+        before: { ...existing },
+        after: { ...updatedTask },
+      });
 
       const becameActive = existing.status !== "active" && updatedTask.status === "active";
       if (becameActive) {
-        const result = await sendTaskActiveNotification(updatedTask);
-        if (!result.sent) {
-          console.log("[Tasks] Telegram task activation notification skipped/failed:", result.reason);
-        }
+        await announceTaskActivation(updatedTask, ctx.user.id);
       }
+      refreshTaskStatusSchedule();
       
       console.log("[Tasks] Updated task:", input.id);
-      return updatedTask;
+      const [counted] = await withDerivedSubmissionCounts([updatedTask]);
+      return counted;
     }),
 
-  delete: publicProcedure
+  delete: adminProcedure
     .input(z.object({ id: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const tasks = await getTasks();
       const existing = tasks.find((t) => t.id === input.id);
       if (!existing) {
@@ -172,12 +362,22 @@ export const tasksRouter = createTRPCRouter({
       }
       
       await db.remove(COLLECTION, input.id);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "task.delete",
+        targetType: "task",
+        targetId: input.id,
+        targetLabel: existing.title,
+        before: { ...existing },
+      });
       
       console.log("[Tasks] Deleted task:", input.id);
       return { success: true };
     }),
 
-  incrementSubmissions: publicProcedure
+  // Kept for older app builds. The count is derived from submission records now, so this
+  // no longer changes anything and only returns the task's current count.
+  incrementSubmissions: protectedProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
       const tasks = await getTasks();
@@ -185,11 +385,8 @@ export const tasksRouter = createTRPCRouter({
       if (!task) {
         return null;
       }
-      
-      const updatedTask = { ...task, submissions: task.submissions + 1 };
-      await db.update(COLLECTION, input.id, updatedTask);
-      
-      console.log("[Tasks] Incremented submissions for task:", input.id, "to", updatedTask.submissions);
-      return updatedTask;
+
+      const [counted] = await withDerivedSubmissionCounts([task]);
+      return counted;
     }),
 });
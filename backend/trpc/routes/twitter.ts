@@ -1,5 +1,5 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { createTRPCRouter, protectedProcedure, publicProcedure } from "../create-context";
 
 const getTwitterToken = () => {
   try {
@@ -98,7 +98,7 @@ function extractTweetId(url: string): string | null {
 }
 
 export const twitterRouter = createTRPCRouter({
-  getTweetMetrics: publicProcedure
+  getTweetMetrics: protectedProcedure
     .input(z.object({ tweetUrl: z.string() }))
     .query(async ({ input }) => {
       console.log("[Twitter] Getting metrics for URL:", input.tweetUrl);
@@ -112,7 +112,7 @@ export const twitterRouter = createTRPCRouter({
       return tweetData;
     }),
 
-  getBatchTweetMetrics: publicProcedure
+  getBatchTweetMetrics: protectedProcedure
     .input(z.object({ tweetUrls: z.array(z.string()) }))
     .query(async ({ input }) => {
       console.log("[Twitter] Getting batch metrics for", input.tweetUrls.length, "tweets");
@@ -141,7 +141,7 @@ export const twitterRouter = createTRPCRouter({
       return results;
     }),
 
-  getUserTimeline: publicProcedure
+  getUserTimeline: protectedProcedure
     .input(z.object({ username: z.string(), maxResults: z.number().optional() }))
     .query(async ({ input }) => {
       const token = getTwitterToken();
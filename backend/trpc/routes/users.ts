@@ -1,7 +1,38 @@
 import { z } from "zod";
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { adminProcedure, createTRPCRouter, protectedProcedure, publicProcedure } from "../create-context";
 import { allUsers as initialUsers } from "@/mocks/data";
 import { db } from "@/backend/db";
+import { issueSessionToken } from "@/backend/services/auth-session";
+import { hashPassword, verifyPassword } from "@/backend/services/passwords";
+import {
+  consumePasswordReset,
+  createPasswordReset,
+  listOpenAdminPasswordResets,
+  markPasswordResetForAdmin,
+} from "@/backend/services/password-resets";
+import {
+  assertLoginAllowed,
+  assertResetRequestAllowed,
+  clearLoginBlock,
+  clearLoginFailures,
+  getClientIp,
+  listBlockedLogins,
+  recordLoginFailure,
+  recordResetRequest,
+} from "@/backend/services/login-throttle";
+import { sendPasswordResetCode } from "@/backend/services/telegram-notifications";
+import { recordAuditEntry } from "@/backend/services/audit-log";
+import {
+  createTelegramLinkCode,
+  getTelegramChatId,
+  getTelegramLinkForUser,
+  unlinkTelegramUser,
+} from "@/backend/services/telegram-links";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "@/backend/services/notification-preferences";
+import { registerDevice, unregisterDevice } from "@/backend/services/push-notifications";
 import { AVATAR_PRESETS, DEFAULT_AVATAR_URI } from "@/constants/avatarPresets";
 import type { User, UserRole, UserStatus } from "@/types";
 
@@ -98,7 +129,7 @@ function sanitizeHandles(handles?: User["handles"]): User["handles"] {
   };
 }
 
-function sanitizeUser(user: User): User {
+function normalizeUser(user: User): User {
   const stats = user.stats || {
     totalPosts: 0,
     totalImpressions: 0,
@@ -131,81 +162,116 @@ function sanitizeUser(user: User): User {
   };
 }
 
+// Credentials never leave the API. Invite codes stay visible to admins, who hand them out.
+function sanitizeUser(user: User, viewer: Pick<User, "role"> | null): User {
+  const safeUser: User = { ...normalizeUser(user) };
+  delete safeUser.password;
+  if (viewer?.role !== "admin") {
+    delete safeUser.inviteCode;
+  }
+  return safeUser;
+}
+
 async function getUsers(forceRefresh = false): Promise<User[]> {
   if (!initialized || forceRefresh) {
     const dbUsers = await db.getCollection<User>(COLLECTION);
     if (dbUsers.length === 0 && !initialized && ENABLE_DEFAULT_SEEDING) {
       console.log("[Users] No users in DB, initializing with defaults");
       for (const user of initialUsers) {
-        await db.create(COLLECTION, sanitizeUser(user));
+        await db.create(COLLECTION, normalizeUser(user));
       }
-      usersCache = initialUsers.map(sanitizeUser);
+      usersCache = initialUsers.map(normalizeUser);
     } else if (dbUsers.length === 0 && !initialized) {
       console.log("[Users] Collection empty, seeding disabled");
       usersCache = [];
     } else {
-      usersCache = dbUsers.map(sanitizeUser);
+      usersCache = dbUsers.map(normalizeUser);
     }
     initialized = true;
   }
   return usersCache;
 }
 
+async function upgradeLegacyPassword(user: User, password: string): Promise<void> {
+  try {
+    const updatedUser: User = { ...user, password: await hashPassword(password) };
+    await db.update<User>(COLLECTION, user.id, updatedUser);
+    const index = usersCache.findIndex((u) => u.id === user.id);
+    if (index >= 0) usersCache[index] = updatedUser;
+    console.log("[Users] Migrated stored password to hash for:", user.id);
+  } catch (error) {
+    console.log("[Users] Failed to migrate stored password for:", user.id, error);
+  }
+}
+
 export const usersRouter = createTRPCRouter({
-  list: publicProcedure.query(async () => {
+  list: protectedProcedure.query(async ({ ctx }) => {
     const users = await getUsers(true);
     console.log("[Users] Fetching all users from DB, count:", users.length);
-    return users.map(sanitizeUser);
+    return users.map((user) => sanitizeUser(user, ctx.user));
   }),
 
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ id: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       console.log("[Users] Fetching user by id:", input.id);
       const users = await getUsers();
       const user = users.find((u) => u.id === input.id);
       if (!user) {
         throw new Error("User not found");
       }
-      return sanitizeUser(user);
+      return sanitizeUser(user, ctx.user);
     }),
 
-  getByEmail: publicProcedure
+  getByEmail: adminProcedure
     .input(z.object({ email: z.string() }))
-    .query(async ({ input }) => {
+    .query(async ({ ctx, input }) => {
       console.log("[Users] Fetching user by email:", input.email);
       const users = await getUsers();
       const user = users.find((u) => userMatchesEmail(u, input.email));
-      return user ? sanitizeUser(user) : null;
+      return user ? sanitizeUser(user, ctx.user) : null;
     }),
 
   login: publicProcedure
     .input(z.object({ email: z.string().optional(), identifier: z.string().optional(), password: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const identifier = (input.identifier || input.email || "").trim();
       if (!identifier) throw new Error("Email or username is required");
       console.log("[Users] Login attempt for:", identifier);
+      const clientIp = getClientIp(ctx.req);
+      await assertLoginAllowed(identifier, clientIp);
       const users = await getUsers();
-      const user = users.find(
-        (u) => userMatchesIdentifier(u, identifier) && u.password === input.password
-      );
+      let user: User | undefined;
+      for (const candidate of users.filter((u) => userMatchesIdentifier(u, identifier))) {
+        const check = await verifyPassword(input.password, candidate.password);
+        if (!check.ok) continue;
+        if (check.needsRehash) {
+          await upgradeLegacyPassword(candidate, input.password);
+        }
+        user = candidate;
+        break;
+      }
       if (!user) {
+        await recordLoginFailure(identifier, clientIp);
         throw new Error("Invalid credentials");
       }
+      await clearLoginFailures(identifier);
       if (user.status === "pending") {
         throw new Error("Account pending activation");
       }
       console.log("[Users] Login successful for:", user.id);
-      return sanitizeUser(user);
+      return { user: sanitizeUser(user, user), sessionToken: issueSessionToken(user) };
     }),
 
   activate: publicProcedure
     .input(z.object({ email: z.string(), inviteCode: z.string(), password: z.string() }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const normalizedEmail = normalizeEmail(input.email);
       const normalizedInviteCode = input.inviteCode.trim().toUpperCase();
 
-      console.log("[Users] Activation attempt with email:", normalizedEmail, "code:", normalizedInviteCode);
+      console.log("[Users] Activation attempt with email:", normalizedEmail);
+      const clientIp = getClientIp(ctx.req);
+      await assertLoginAllowed(normalizedEmail, clientIp);
       const users = await getUsers();
       
       // First, find user by email to give better error messages
@@ -213,6 +279,7 @@ export const usersRouter = createTRPCRouter({
       
       if (!userByEmail) {
         console.log("[Users] Activation failed - email not found:", input.email);
+        await recordLoginFailure(normalizedEmail, clientIp);
         throw new Error("Account not found. Please contact admin for an invite.");
       }
       
@@ -229,7 +296,8 @@ export const usersRouter = createTRPCRouter({
       // Verify invite code matches
       const expectedInviteCode = userByEmail.inviteCode?.trim().toUpperCase();
       if (expectedInviteCode !== normalizedInviteCode) {
-        console.log("[Users] Activation failed - wrong invite code for:", normalizedEmail, "expected:", userByEmail.inviteCode, "got:", normalizedInviteCode);
+        console.log("[Users] Activation failed - wrong invite code for:", normalizedEmail);
+        await recordLoginFailure(normalizedEmail, clientIp);
         throw new Error("Incorrect invite code. Please check the code sent by your admin.");
       }
       
@@ -237,18 +305,19 @@ export const usersRouter = createTRPCRouter({
       const updatedUser: User = {
         ...userByEmail,
         status: "active",
-        password: input.password,
+        password: await hashPassword(input.password),
         activatedAt: new Date().toISOString().split("T")[0],
       };
       
       await db.update(COLLECTION, userByEmail.id, updatedUser);
       usersCache[userIndex] = updatedUser;
+      await clearLoginFailures(normalizedEmail);
       
       console.log("[Users] Activated user:", userByEmail.id, userByEmail.email);
-      return sanitizeUser(updatedUser);
+      return { user: sanitizeUser(updatedUser, updatedUser), sessionToken: issueSessionToken(updatedUser) };
     }),
 
-  create: publicProcedure
+  create: adminProcedure
     .input(
       z.object({
         name: z.string(),
@@ -268,7 +337,7 @@ export const usersRouter = createTRPCRouter({
         }).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const inviteCode = `FSL${Date.now().toString(36).toUpperCase()}`;
       const normalizedEmail = normalizeEmail(input.email);
       const requestedUsername = input.username ? normalizeUsername(input.username) : "";
@@ -310,7 +379,7 @@ export const usersRouter = createTRPCRouter({
         }
 
         console.log("[Users] Refreshed invite code for existing pending user:", existing.id, "invite code:", refreshedInviteCode);
-        return sanitizeUser(refreshedUser);
+        return sanitizeUser(refreshedUser, ctx.user);
       }
 
       const username = requestedUsername
@@ -350,14 +419,14 @@ export const usersRouter = createTRPCRouter({
         await db.create(COLLECTION, newUser);
         usersCache.push(newUser);
         console.log("[Users] Created new user:", newUser.id, "invite code:", inviteCode);
-        return sanitizeUser(newUser);
+        return sanitizeUser(newUser, ctx.user);
       } catch (error) {
         console.log("[Users] Failed to create user in DB:", error);
         throw new Error("Failed to save user. Please try again.");
       }
     }),
 
-  update: publicProcedure
+  update: protectedProcedure
     .input(
       z.object({
         id: z.string(),
@@ -380,7 +449,15 @@ export const usersRouter = createTRPCRouter({
         }).optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const isAdmin = ctx.user.role === "admin";
+      if (!isAdmin && ctx.user.id !== input.id) {
+        throw new Error("You can only update your own profile");
+      }
+      if (!isAdmin && (input.role !== undefined || input.region !== undefined || input.status !== undefined)) {
+        throw new Error("Only admins can change role, region or status");
+      }
+
       validateAvatar(input.avatar);
       const users = await getUsers();
       const index = users.findIndex((u) => u.id === input.id);
@@ -407,7 +484,7 @@ export const usersRouter = createTRPCRouter({
       const mergedHandles = input.handles
         ? sanitizeHandles({ ...baseUser.handles, ...input.handles })
         : sanitizeHandles(baseUser.handles);
-      const updatedUser = sanitizeUser({
+      const updatedUser = normalizeUser({
         ...baseUser,
         name: input.name ?? baseUser.name,
         email: nextEmail,
@@ -424,12 +501,28 @@ export const usersRouter = createTRPCRouter({
       } as User);
       await db.update<User>(COLLECTION, input.id, updatedUser);
       usersCache[index] = updatedUser;
+
+      const accessChanged =
+        updatedUser.role !== baseUser.role ||
+        updatedUser.region !== baseUser.region ||
+        updatedUser.status !== baseUser.status;
+      if (accessChanged || (isAdmin && ctx.user.id !== input.id)) {
+        await recordAuditEntry({
+          actor: ctx.user,
+          action: "user.update",
+          targetType: "user",
+          targetId: input.id,
+          targetLabel: updatedUser.name,
+          before: { ...baseUser },
+          after: { ...updatedUser },
+        });
+      }
       
       console.log("[Users] Updated user:", input.id);
-      return sanitizeUser(updatedUser);
+      return sanitizeUser(updatedUser, ctx.user);
     }),
 
-  updateStats: publicProcedure
+  updateStats: adminProcedure
     .input(
       z.object({
         id: z.string(),
@@ -441,7 +534,7 @@ export const usersRouter = createTRPCRouter({
         completedTasks: z.number().optional(),
       })
     )
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
       const users = await getUsers();
       const index = users.findIndex((u) => u.id === input.id);
       if (index === -1) {
@@ -475,10 +568,10 @@ export const usersRouter = createTRPCRouter({
       usersCache[index] = updatedUser;
       
       console.log("[Users] Updated stats for user:", input.id);
-      return updatedUser;
+      return sanitizeUser(updatedUser, ctx.user);
     }),
 
-  getLeaderboard: publicProcedure
+  getLeaderboard: protectedProcedure
     .input(z.object({ limit: z.number().optional(), region: z.string().optional() }).optional())
     .query(async ({ input }) => {
       const limit = input?.limit || 10;
@@ -498,13 +591,18 @@ export const usersRouter = createTRPCRouter({
       return sortedUsers;
     }),
 
-  changePassword: publicProcedure
+  changePassword: protectedProcedure
     .input(z.object({ 
       id: z.string(), 
       currentPassword: z.string().optional(),
       newPassword: z.string().min(6, "Password must be at least 6 characters")
     }))
-    .mutation(async ({ input }) => {
+    .mutation(async ({ ctx, input }) => {
+      const isSelf = ctx.user.id === input.id;
+      if (!isSelf && ctx.user.role !== "admin") {
+        throw new Error("You can only change your own password");
+      }
+
       const users = await getUsers();
       const index = users.findIndex((u) => u.id === input.id);
       if (index === -1) {
@@ -513,31 +611,201 @@ export const usersRouter = createTRPCRouter({
       
       const user = users[index];
       
-      // If currentPassword is provided, verify it (for self-service password change)
-      if (input.currentPassword !== undefined && user.password !== input.currentPassword) {
+      // Self-service changes must prove the current password; admins resetting others do not.
+      if (isSelf && ctx.user.role !== "admin" && input.currentPassword === undefined) {
+        throw new Error("Current password is required");
+      }
+      if (input.currentPassword !== undefined && !(await verifyPassword(input.currentPassword, user.password)).ok) {
         throw new Error("Current password is incorrect");
       }
       
       const newSessionVersion = (user.sessionVersion || 0) + 1;
-      const updatedUser = { ...user, password: input.newPassword, sessionVersion: newSessionVersion };
+      const updatedUser = { ...user, password: await hashPassword(input.newPassword), sessionVersion: newSessionVersion };
       await db.update(COLLECTION, input.id, updatedUser);
       usersCache[index] = updatedUser;
       
       console.log("[Users] Password changed for user:", input.id, "new sessionVersion:", newSessionVersion);
-      return { success: true, sessionVersion: newSessionVersion };
+      // The version bump revokes existing tokens, so hand the caller a fresh one for their own account.
+      return {
+        success: true,
+        sessionVersion: newSessionVersion,
+        sessionToken: isSelf ? issueSessionToken(updatedUser) : undefined,
+      };
+    }),
+
+  telegramLink: protectedProcedure.query(async ({ ctx }) => {
+    const link = await getTelegramLinkForUser(ctx.user.id);
+    return {
+      linked: Boolean(link),
+      telegramUsername: link?.telegramUsername,
+      linkedAt: link?.linkedAt,
+      botUsername: process.env.TELEGRAM_BOT_USERNAME || null,
+    };
+  }),
+
+  createTelegramLinkCode: protectedProcedure.mutation(async ({ ctx }) => {
+    const { code, expiresAt } = await createTelegramLinkCode(ctx.user.id);
+    const botUsername = process.env.TELEGRAM_BOT_USERNAME || null;
+    console.log("[Users] Telegram link code issued for:", ctx.user.id);
+    return {
+      code,
+      expiresAt,
+      botUsername,
+      deepLink: botUsername ? `https://t.me/${botUsername}?start=${code}` : null,
+    };
+  }),
+
+  unlinkTelegram: protectedProcedure.mutation(async ({ ctx }) => {
+    return { success: await unlinkTelegramUser(ctx.user.id) };
+  }),
+
+  notificationPreferences: protectedProcedure.query(async ({ ctx }) => {
+    return getNotificationPreferences(ctx.user.id);
+  }),
+
+  updateNotificationPreferences: protectedProcedure
+    .input(
+      z.object({
+        telegram: z.object({
+          submission_approved: z.boolean().optional(),
+          submission_needs_edits: z.boolean().optional(),
+          submission_rejected: z.boolean().optional(),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const preferences = await updateNotificationPreferences(ctx.user.id, input.telegram);
+      console.log("[Users] Updated notification preferences for:", ctx.user.id);
+      return preferences;
     }),
 
-  delete: publicProcedure
+  registerDevice: protectedProcedure
+    .input(
+      z.object({
+        token: z.string().min(1).max(200),
+        platform: z.enum(["ios", "android"]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const device = await registerDevice(ctx.user.id, input);
+      return { success: true, deviceId: device.id };
+    }),
+
+  unregisterDevice: protectedProcedure
+    .input(z.object({ token: z.string().min(1).max(200) }))
+    .mutation(async ({ ctx, input }) => {
+      return { success: await unregisterDevice(ctx.user.id, input.token) };
+    }),
+
+  requestPasswordReset: publicProcedure
+    .input(z.object({ identifier: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const identifier = input.identifier.trim();
+      if (!identifier) throw new Error("Email or username is required");
+      const clientIp = getClientIp(ctx.req);
+      await assertResetRequestAllowed(identifier, clientIp);
+      await recordResetRequest(identifier, clientIp);
+
+      const users = await getUsers();
+      const user = users.find((u) => u.status === "active" && userMatchesIdentifier(u, identifier));
+      // Same response whether or not the account exists, so this cannot be used to probe for users.
+      if (!user) {
+        console.log("[Users] Password reset requested for unknown or inactive account");
+        return { success: true };
+      }
+
+      const chatId = await getTelegramChatId(user);
+      const { reset, code } = await createPasswordReset(user.id, chatId ? "telegram" : "admin");
+      if (chatId) {
+        const result = await sendPasswordResetCode(chatId, code, reset.expiresAt);
+        if (!result.sent) {
+          console.log("[Users] Telegram reset delivery failed for:", user.id, result.reason);
+          await markPasswordResetForAdmin(reset, code);
+        }
+      }
+
+      console.log("[Users] Password reset issued for:", user.id);
+      return { success: true };
+    }),
+
+  completePasswordReset: publicProcedure
+    .input(z.object({
+      identifier: z.string(),
+      code: z.string(),
+      newPassword: z.string().min(6, "Password must be at least 6 characters"),
+    }))
+    .mutation(async ({ input }) => {
+      const identifier = input.identifier.trim();
+      const users = await getUsers();
+      let user: User | undefined;
+      for (const candidate of users.filter((u) => u.status === "active" && userMatchesIdentifier(u, identifier))) {
+        if (await consumePasswordReset(candidate.id, input.code)) {
+          user = candidate;
+          break;
+        }
+      }
+      if (!user) {
+        throw new Error("Invalid or expired reset code");
+      }
+
+      const index = usersCache.findIndex((u) => u.id === user.id);
+      const newSessionVersion = (user.sessionVersion || 0) + 1;
+      const updatedUser = { ...user, password: await hashPassword(input.newPassword), sessionVersion: newSessionVersion };
+      await db.update(COLLECTION, user.id, updatedUser);
+      if (index >= 0) usersCache[index] = updatedUser;
+
+      console.log("[Users] Password reset completed for:", user.id);
+      return { success: true };
+    }),
+
+  listPasswordResets: adminProcedure.query(async () => {
+    const [resets, users] = await Promise.all([listOpenAdminPasswordResets(), getUsers()]);
+    return resets.map((reset) => {
+      const user = users.find((u) => u.id === reset.userId);
+      return {
+        id: reset.id,
+        userId: reset.userId,
+        userName: user?.name || "Unknown user",
+        userEmail: user?.email || "",
+        code: reset.handoffCode || "",
+        createdAt: reset.createdAt,
+        expiresAt: reset.expiresAt,
+      };
+    });
+  }),
+
+  listLoginBlocks: adminProcedure.query(async () => {
+    return listBlockedLogins();
+  }),
+
+  clearLoginBlock: adminProcedure
     .input(z.object({ id: z.string() }))
     .mutation(async ({ input }) => {
+      await clearLoginBlock(input.id);
+      console.log("[Users] Cleared login block:", input.id);
+      return { success: true };
+    }),
+
+  delete: adminProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
       const users = await getUsers();
       const index = users.findIndex((u) => u.id === input.id);
       if (index === -1) {
         throw new Error("User not found");
       }
       
+      const deletedUser = users[index];
       await db.remove(COLLECTION, input.id);
       usersCache.splice(index, 1);
+      await recordAuditEntry({
+        actor: ctx.user,
+        action: "user.delete",
+        targetType: "user",
+        targetId: input.id,
+        targetLabel: deletedUser.name,
+        before: { ...deletedUser },
+      });
       
       console.log("[Users] Deleted user:", input.id);
       return { success: true };
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import createContextHook from '@nkzw/create-context-hook';
-import { Submission, SubmissionRating, Task, Asset, Event, AmbassadorPost, AssetFolder, ExtraContentSubmission } from '@/types';
+import { Submission, SubmissionRating, Task, Asset, Event, EventRecurrence, AmbassadorPost, AssetFolder, ExtraContentSubmission } from '@/types';
 import { 
   ambassadorPosts as mockAmbassadorPosts,
   tasks as mockTasks,
@@ -10,6 +10,7 @@ import {
   submissions as mockSubmissions,
 } from '@/mocks/data';
 import { trpcClient, isBackendEnabled } from '@/lib/trpc';
+import { useAuth } from '@/contexts/AuthContext';
 import { DEFAULT_ASSET_FOLDER, DEFAULT_ASSET_FOLDER_ID, ensureDefaultFolder } from '@/constants/assetFolders';
 
 const STORAGE_KEYS = {
@@ -58,6 +59,8 @@ async function saveStoredList<T>(key: string, list: T[]): Promise<void> {
 }
 
 export const [AppProvider, useApp] = createContextHook(() => {
+  const { currentUser } = useAuth();
+  const sessionUserId = currentUser?.id;
   const [submissions, setSubmissions] = useState<Submission[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [assets, setAssets] = useState<Asset[]>([]);
@@ -133,7 +136,6 @@ export const [AppProvider, useApp] = createContextHook(() => {
           backendSubmissions,
           backendFeed,
           backendExtraContent,
-          storedRsvps,
         ] = await Promise.all([
           trpcClient.tasks.list.query().catch((e) => {
             console.log('[AppContext] Failed to fetch tasks from backend:', e);
@@ -155,7 +157,6 @@ export const [AppProvider, useApp] = createContextHook(() => {
             console.log('[AppContext] Failed to fetch extra content from backend:', e);
             return null;
           }),
-          AsyncStorage.getItem(STORAGE_KEYS.RSVPS).catch(() => null),
         ]);
 
         if (Array.isArray(backendTasks)) {
@@ -164,6 +165,8 @@ export const [AppProvider, useApp] = createContextHook(() => {
         }
         if (Array.isArray(backendEvents)) {
           setEvents(backendEvents);
+          // RSVP state is per caller on the backend, so it replaces whatever this device cached.
+          setRsvpStates(Object.fromEntries(backendEvents.map((e) => [e.id, e.isRsvped])));
           void saveStoredList(STORAGE_KEYS.EVENTS, backendEvents);
         }
         if (Array.isArray(backendSubmissions)) {
@@ -179,15 +182,6 @@ export const [AppProvider, useApp] = createContextHook(() => {
           void saveStoredList(STORAGE_KEYS.EXTRA_CONTENT, backendExtraContent);
         }
 
-        if (storedRsvps) {
-          try {
-            const parsed = JSON.parse(storedRsvps);
-            if (parsed && typeof parsed === 'object') setRsvpStates(parsed);
-          } catch (e) {
-            console.log('[AppContext] Error parsing rsvps:', e);
-          }
-        }
-
         console.log(
           '[AppContext] Data loaded from backend - Tasks:',
           Array.isArray(backendTasks) ? backendTasks.length : 'unchanged',
@@ -258,7 +252,8 @@ export const [AppProvider, useApp] = createContextHook(() => {
     return () => {
       isMounted = false;
     };
-  }, [fetchAllData]);
+    // Backend reads are session-scoped, so reload whenever the signed-in user changes.
+  }, [fetchAllData, sessionUserId]);
 
   const refreshData = useCallback(async () => {
     setIsRefreshing(true);
@@ -300,7 +295,6 @@ export const [AppProvider, useApp] = createContextHook(() => {
       if (BACKEND_ENABLED) {
         const result = await trpcClient.submissions.create.mutate({
           taskId: submission.taskId,
-          userId,
           platform: submission.platform,
           postUrl: submission.postUrl,
           platforms: submission.platforms,
@@ -354,7 +348,6 @@ export const [AppProvider, useApp] = createContextHook(() => {
       if (BACKEND_ENABLED) {
         const result = await trpcClient.submissions.update.mutate({
           id: submissionId,
-          userId,
           platform: updates.platform,
           postUrl: updates.postUrl,
           platforms: updates.platforms,
@@ -401,23 +394,26 @@ export const [AppProvider, useApp] = createContextHook(() => {
     status: Submission['status'], 
     rating?: SubmissionRating,
     feedback?: string,
-    metrics?: { impressions: number; likes: number; comments: number; shares: number }
+    metrics?: { impressions: number; likes: number; comments: number; shares: number },
+    options?: { requestSecondReview?: boolean; checklistItemIds?: string[] }
   ) => {
     try {
       const reviewStatus = status as 'approved' | 'needs_edits' | 'rejected';
 
       if (BACKEND_ENABLED) {
-        await trpcClient.submissions.review.mutate({
+        const reviewed = await trpcClient.submissions.review.mutate({
           id: submissionId,
           status: reviewStatus,
           rating,
           feedback,
           metrics,
+          requestSecondReview: options?.requestSecondReview,
+          checklistItemIds: options?.checklistItemIds,
         });
         await syncSubmissionViewsFromBackend();
 
         console.log('[AppContext] Submission reviewed in backend:', submissionId, status);
-        return { success: true };
+        return { success: true, awaitingSecondReview: Boolean(reviewed.secondReviewReason) };
       }
 
       setSubmissions(prev => {
@@ -438,7 +434,7 @@ export const [AppProvider, useApp] = createContextHook(() => {
       });
 
       console.log('[AppContext] Submission reviewed locally:', submissionId, status);
-      return { success: true };
+      return { success: true, awaitingSecondReview: false };
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : 'Failed to review submission';
       console.log('[AppContext] Error reviewing submission:', errMsg, error);
@@ -446,40 +442,55 @@ export const [AppProvider, useApp] = createContextHook(() => {
     }
   }, [syncSubmissionViewsFromBackend]);
 
-  const updateRsvp = useCallback(async (eventId: string, isRsvped: boolean) => {
-    const updatedRsvps = { ...rsvpStates, [eventId]: isRsvped };
-    setRsvpStates(updatedRsvps);
-    
+  const updateRsvp = useCallback(async (eventId: string, isRsvped: boolean): Promise<{ success: boolean; event?: Event; error?: string }> => {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.RSVPS, JSON.stringify(updatedRsvps));
-
       if (BACKEND_ENABLED) {
-        await trpcClient.events.updateRsvp.mutate({ id: eventId, isRsvped });
+        const result = await trpcClient.events.updateRsvp.mutate({ id: eventId, isRsvped });
         
-        setEvents(prev => prev.map(e => 
-          e.id === eventId 
-            ? { ...e, attendees: e.attendees + (isRsvped ? 1 : -1), isRsvped }
-            : e
-        ));
+        setEvents(prev => prev.map(e => e.id === eventId ? result : e));
+        setRsvpStates(prev => ({ ...prev, [eventId]: result.isRsvped }));
         
-        console.log('[AppContext] RSVP updated for event:', eventId, isRsvped);
-      } else {
-        setEvents(prev => {
-          const updated = prev.map(e => 
-            e.id === eventId 
-              ? { ...e, attendees: e.attendees + (isRsvped ? 1 : -1), isRsvped }
-              : e
-          );
-          void saveStoredList(STORAGE_KEYS.EVENTS, updated);
-          return updated;
-        });
-        console.log('[AppContext] RSVP updated locally for event:', eventId, isRsvped);
+        console.log('[AppContext] RSVP updated for event:', eventId, result.rsvpStatus);
+        return { success: true, event: result };
       }
+
+      const updatedRsvps = { ...rsvpStates, [eventId]: isRsvped };
+      setRsvpStates(updatedRsvps);
+      await AsyncStorage.setItem(STORAGE_KEYS.RSVPS, JSON.stringify(updatedRsvps));
+      setEvents(prev => {
+        const updated = prev.map(e => 
+          e.id === eventId 
+            ? { ...e, attendees: Math.max(0, e.attendees + (isRsvped ? 1 : -1)), isRsvped, rsvpStatus: isRsvped ? 'going' as const : null }
+            : e
+        );
+        void saveStoredList(STORAGE_KEYS.EVENTS, updated);
+        return updated;
+      });
+      console.log('[AppContext] RSVP updated locally for event:', eventId, isRsvped);
+      return { success: true };
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update RSVP';
       console.log('[AppContext] Error saving RSVP:', error);
+      return { success: false, error: message };
     }
   }, [rsvpStates]);
 
+  const checkInToEvent = useCallback(async (eventId: string, code: string): Promise<{ success: boolean; pointsAwarded?: number; alreadyCheckedIn?: boolean; error?: string }> => {
+    if (!BACKEND_ENABLED) {
+      return { success: false, error: 'Event check-in requires a connection to the server' };
+    }
+    try {
+      const result = await trpcClient.events.checkIn.mutate({ id: eventId, code });
+      setEvents(prev => prev.map(e => e.id === eventId ? result.event : e));
+      console.log('[AppContext] Checked in to event:', eventId, 'points:', result.pointsAwarded);
+      return { success: true, pointsAwarded: result.pointsAwarded, alreadyCheckedIn: result.alreadyCheckedIn };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to check in';
+      console.log('[AppContext] Error checking in:', error);
+      return { success: false, error: message };
+    }
+  }, []);
+
   const addTask = useCallback(async (task: Omit<Task, 'id'>) => {
     try {
       console.log('[AppContext] Creating task:', task.title, 'campaign:', task.campaignTitle);
@@ -498,6 +509,10 @@ export const [AppProvider, useApp] = createContextHook(() => {
           deadline: task.deadline,
           points: task.points,
           maxSubmissions: task.maxSubmissions,
+          maxSubmissionsPerUser: task.maxSubmissionsPerUser,
+          deadlineGraceMinutes: task.deadlineGraceMinutes,
+          publishAt: task.publishAt,
+          audience: task.audience,
         });
         
         setTasks(prev => [result, ...prev]);
@@ -525,10 +540,20 @@ export const [AppProvider, useApp] = createContextHook(() => {
   const updateTask = useCallback(async (taskId: string, updates: Partial<Task>) => {
     try {
       if (BACKEND_ENABLED) {
-        const { campaignId, campaignTitle, submissions, id, assetIds, ...validUpdates } = updates as Task;
+        const {
+          campaignId, campaignTitle, submissions, id, assetIds, audience,
+          maxSubmissions, maxSubmissionsPerUser, deadlineGraceMinutes, publishAt, ...validUpdates
+        } = updates as Task;
         await trpcClient.tasks.update.mutate({
           id: taskId,
           ...validUpdates,
+          // An explicit undefined audience or limit means "none", which the server clears with null.
+          ...('audience' in updates ? { audience: audience ?? null } : {}),
+          ...('maxSubmissions' in updates ? { maxSubmissions: maxSubmissions ?? null } : {}),
+          ...('maxSubmissionsPerUser' in updates ? { maxSubmissionsPerUser: maxSubmissionsPerUser ?? null } : {}),
+          ...('deadlineGraceMinutes' in updates ? { deadlineGraceMinutes: deadlineGraceMinutes ?? null } : {}),
+          ...('publishAt' in updates ? { publishAt: publishAt ?? null } : {}),
+          ...('campaignId' in updates ? { campaignId: campaignId || null } : {}),
         });
         
         setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...updates } : t));
@@ -799,7 +824,11 @@ export const [AppProvider, useApp] = createContextHook(() => {
           time: event.time,
           location: event.location,
           timezone: event.timezone,
+          recurrence: event.recurrence,
+          reminderOffsets: event.reminderOffsets,
+          region: event.region,
           maxAttendees: event.maxAttendees,
+          checkInPoints: event.checkInPoints,
           link: event.link,
         });
         
@@ -830,22 +859,35 @@ export const [AppProvider, useApp] = createContextHook(() => {
     }
   }, []);
 
-  const updateEvent = useCallback(async (eventId: string, updates: Partial<Event>) => {
+  const updateEvent = useCallback(async (
+    eventId: string,
+    updates: Partial<Omit<Event, 'recurrence' | 'reminderOffsets'>> & {
+      recurrence?: EventRecurrence | null;
+      reminderOffsets?: number[] | null;
+    }
+  ) => {
     try {
       if (BACKEND_ENABLED) {
-        await trpcClient.events.update.mutate({
+        const result = await trpcClient.events.update.mutate({
           id: eventId,
           ...updates,
         });
         
-        setEvents(prev => prev.map(e => e.id === eventId ? { ...e, ...updates } : e));
+        setEvents(prev => prev.map(e => e.id === eventId ? result : e));
         
         console.log('[AppContext] Event updated in backend:', eventId);
         return { success: true };
       }
 
       setEvents(prev => {
-        const updated = prev.map(e => e.id === eventId ? { ...e, ...updates } : e);
+        const updated = prev.map(e => e.id === eventId
+          ? {
+            ...e,
+            ...updates,
+            recurrence: updates.recurrence === null ? undefined : updates.recurrence ?? e.recurrence,
+            reminderOffsets: updates.reminderOffsets === null ? undefined : updates.reminderOffsets ?? e.reminderOffsets,
+          }
+          : e);
         void saveStoredList(STORAGE_KEYS.EVENTS, updated);
         return updated;
       });
@@ -920,7 +962,7 @@ export const [AppProvider, useApp] = createContextHook(() => {
   const addExtraContent = useCallback(async (postUrl: string, userId: string) => {
     try {
       if (BACKEND_ENABLED) {
-        const result = await trpcClient.extraContent.create.mutate({ userId, postUrl });
+        const result = await trpcClient.extraContent.create.mutate({ postUrl });
         const backendExtraContent = await trpcClient.extraContent.list.query().catch(() => null);
         if (Array.isArray(backendExtraContent)) {
           setExtraContent(backendExtraContent);
@@ -996,6 +1038,7 @@ export const [AppProvider, useApp] = createContextHook(() => {
     updateSubmission,
     reviewSubmission,
     updateRsvp,
+    checkInToEvent,
     refreshData,
     refreshAssets,
     addTask,
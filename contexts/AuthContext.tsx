@@ -1,11 +1,14 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TRPCClientError } from '@trpc/client';
 import { User } from '@/types';
 import { allUsers as mockUsers } from '@/mocks/data';
-import { trpcClient, isBackendEnabled } from '@/lib/trpc';
+import { trpcClient, isBackendEnabled, setSessionToken, getSessionToken } from '@/lib/trpc';
+import { registerDeviceForPush, unregisterDeviceForPush } from '@/lib/push-notifications';
 import { DEFAULT_AVATAR_URI, normalizeAvatarUri } from '@/constants/avatarPresets';
 
 const STORAGE_KEY = 'auth_user';
+const SESSION_TOKEN_KEY = 'auth_session_token';
 const USERS_STORAGE_KEY = 'app_users';
 const ACTIVATION_SOCIAL_SETUP_KEY = 'activation_social_setup_user_id';
 const BACKEND_ENABLED = isBackendEnabled();
@@ -33,6 +36,8 @@ interface AuthContextType {
     username?: string;
   }) => Promise<{ success: boolean; error?: string }>;
   changePassword: (userId: string, newPassword: string, currentPassword?: string) => Promise<{ success: boolean; error?: string }>;
+  requestPasswordReset: (identifier: string) => Promise<{ success: boolean; error?: string }>;
+  completePasswordReset: (identifier: string, code: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
   refreshUsers: () => Promise<void>;
   markSocialSetupComplete: () => Promise<void>;
   clearStorage: () => Promise<void>;
@@ -48,6 +53,20 @@ function normalizeUsers(list: User[]): User[] {
   return list.map(normalizeUserAvatar);
 }
 
+async function persistSessionToken(token: string | null): Promise<void> {
+  setSessionToken(token);
+  if (token) {
+    await AsyncStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    await AsyncStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+}
+
+// The server rejected the stored token: it expired, or a password change revoked it.
+function isUnauthorizedError(error: unknown): boolean {
+  return error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED';
+}
+
 function hasAtLeastOneSocial(user: User | null): boolean {
   if (!user) return false;
   return Boolean(
@@ -68,6 +87,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [requiresSocialSetup, setRequiresSocialSetup] = useState(false);
   const isLoggingOutRef = useRef(false);
 
+  // Dropping the user sends the app back to the login screen (see app/_layout.tsx).
+  const clearSession = useCallback(async () => {
+    setCurrentUser(null);
+    setRequiresSocialSetup(false);
+    setUsers([]);
+    await AsyncStorage.removeItem(STORAGE_KEY);
+    await persistSessionToken(null);
+  }, []);
+
   const syncCurrentUserRecord = useCallback(async (updatedUsers: User[]) => {
     if (isLoggingOutRef.current) return;
     if (updatedUsers.length === 0) return;
@@ -93,6 +121,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setCurrentUser(null);
       setRequiresSocialSetup(false);
       await AsyncStorage.removeItem(STORAGE_KEY);
+      await persistSessionToken(null);
       return;
     }
 
@@ -109,6 +138,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const loadUsers = useCallback(async () => {
     try {
       if (BACKEND_ENABLED) {
+        // The users list is session-protected; nothing to load until someone signs in.
+        if (!getSessionToken()) {
+          setUsers([]);
+          return [];
+        }
         const backendUsers = normalizeUsers(await trpcClient.users.list.query());
         setUsers(backendUsers);
         await AsyncStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(backendUsers));
@@ -131,6 +165,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       return normalizedMockUsers;
     } catch (error) {
       console.log('[Auth] Error loading users:', error);
+      if (BACKEND_ENABLED && isUnauthorizedError(error)) {
+        await clearSession();
+        return [];
+      }
       if (BACKEND_ENABLED) {
         const storedUsers = await AsyncStorage.getItem(USERS_STORAGE_KEY);
         if (storedUsers) {
@@ -147,7 +185,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await syncCurrentUserRecord(normalizedMockUsers);
       return normalizedMockUsers;
     }
-  }, [syncCurrentUserRecord]);
+  }, [syncCurrentUserRecord, clearSession]);
 
   const saveUsers = useCallback(async (updatedUsers: User[]) => {
     try {
@@ -164,6 +202,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     const load = async () => {
       try {
+        // Restore the session token first so protected queries below are authenticated
+        const storedToken = await AsyncStorage.getItem(SESSION_TOKEN_KEY);
+        setSessionToken(storedToken);
+
         // Load users from storage
         const loadedUsers = await loadUsers();
         
@@ -171,6 +213,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         const rawUser = await AsyncStorage.getItem(STORAGE_KEY);
         if (!mounted) return;
 
+        if (rawUser && BACKEND_ENABLED && !storedToken) {
+          // Sessions stored before server-issued tokens existed must sign in again.
+          setCurrentUser(null);
+          setRequiresSocialSetup(false);
+          await AsyncStorage.removeItem(STORAGE_KEY);
+          return;
+        }
+
         if (rawUser) {
           try {
             const user = JSON.parse(rawUser) as { id?: string; status?: User['status']; sessionVersion?: number };
@@ -187,6 +237,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
               setCurrentUser(null);
               setRequiresSocialSetup(false);
               await AsyncStorage.removeItem(STORAGE_KEY);
+              await persistSessionToken(null);
               return;
             }
 
@@ -198,6 +249,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                   sourceUser = normalizeUserAvatar(backendUser);
                 } catch (backendUserError) {
                   console.log('[Auth] Failed to fetch fresh session user from backend:', backendUserError);
+                  if (isUnauthorizedError(backendUserError)) {
+                    await clearSession();
+                    return;
+                  }
                 }
               }
               const normalizedUser = normalizeUserAvatar(sourceUser as User);
@@ -210,15 +265,18 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
                 await AsyncStorage.removeItem(ACTIVATION_SOCIAL_SETUP_KEY);
               }
               console.log('[Auth] Restored session for:', normalizedUser.email);
+              if (BACKEND_ENABLED) void registerDeviceForPush();
             } else {
               setCurrentUser(null);
               setRequiresSocialSetup(false);
               await AsyncStorage.removeItem(STORAGE_KEY);
+              await persistSessionToken(null);
             }
           } catch {
             setCurrentUser(null);
             setRequiresSocialSetup(false);
             await AsyncStorage.removeItem(STORAGE_KEY);
+            await persistSessionToken(null);
           }
         }
       } catch (error) {
@@ -230,16 +288,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     load();
     return () => { mounted = false; };
-  }, [loadUsers]);
+  }, [loadUsers, clearSession]);
 
   const login = useCallback(async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
     console.log('[Auth] Attempting login for:', email);
 
     if (BACKEND_ENABLED) {
       try {
-        const user = normalizeUserAvatar(await trpcClient.users.login.mutate({ email, password }));
+        const result = await trpcClient.users.login.mutate({ email, password });
+        await persistSessionToken(result.sessionToken);
+        const user = normalizeUserAvatar(result.user);
         console.log('[Auth] Login successful (backend):', user.name);
         setCurrentUser(user);
+        void registerDeviceForPush();
         await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(user));
         const activationSetupUserId = await AsyncStorage.getItem(ACTIVATION_SOCIAL_SETUP_KEY);
         const mustComplete = activationSetupUserId === user.id && !hasAtLeastOneSocial(user);
@@ -290,11 +351,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const activateAccount = useCallback(async (email: string, inviteCode: string, password: string): Promise<{ success: boolean; error?: string }> => {
     if (BACKEND_ENABLED) {
       try {
-        const activatedUser = normalizeUserAvatar(await trpcClient.users.activate.mutate({ email, inviteCode, password }));
+        const result = await trpcClient.users.activate.mutate({ email, inviteCode, password });
+        await persistSessionToken(result.sessionToken);
+        const activatedUser = normalizeUserAvatar(result.user);
         setCurrentUser(activatedUser);
         await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(activatedUser));
         await AsyncStorage.setItem(ACTIVATION_SOCIAL_SETUP_KEY, activatedUser.id);
         setRequiresSocialSetup(!hasAtLeastOneSocial(activatedUser));
+        void registerDeviceForPush();
         await loadUsers();
         return { success: true };
       } catch (error) {
@@ -342,9 +406,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = useCallback(async () => {
     isLoggingOutRef.current = true;
+    if (BACKEND_ENABLED) await unregisterDeviceForPush();
     setCurrentUser(null);
     setRequiresSocialSetup(false);
     await AsyncStorage.removeItem(STORAGE_KEY);
+    await persistSessionToken(null);
     isLoggingOutRef.current = false;
   }, []);
 
@@ -580,18 +646,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
     if (BACKEND_ENABLED) {
       try {
-        await trpcClient.users.changePassword.mutate({
+        const result = await trpcClient.users.changePassword.mutate({
           id: userId,
           newPassword,
           currentPassword,
         });
-        await loadUsers();
-
         if (currentUser?.id === userId) {
-          const updatedUser = { ...currentUser, password: newPassword };
+          // Store the new sessionVersion before reloading users so the refresh doesn't sign us out.
+          if (result.sessionToken) {
+            await persistSessionToken(result.sessionToken);
+          }
+          const updatedUser = { ...currentUser, sessionVersion: result.sessionVersion };
           setCurrentUser(updatedUser);
           await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedUser));
         }
+        await loadUsers();
         return { success: true };
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Failed to change password';
@@ -627,6 +696,32 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { success: true };
   }, [currentUser, saveUsers, loadUsers]);
 
+  const requestPasswordReset = useCallback(async (identifier: string): Promise<{ success: boolean; error?: string }> => {
+    if (!BACKEND_ENABLED) {
+      return { success: false, error: 'Password reset is unavailable offline. Contact your admin.' };
+    }
+    try {
+      await trpcClient.users.requestPasswordReset.mutate({ identifier });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to request password reset';
+      return { success: false, error: message };
+    }
+  }, []);
+
+  const completePasswordReset = useCallback(async (identifier: string, code: string, newPassword: string): Promise<{ success: boolean; error?: string }> => {
+    if (!BACKEND_ENABLED) {
+      return { success: false, error: 'Password reset is unavailable offline. Contact your admin.' };
+    }
+    try {
+      await trpcClient.users.completePasswordReset.mutate({ identifier, code, newPassword });
+      return { success: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to reset password';
+      return { success: false, error: message };
+    }
+  }, []);
+
   const refreshUsers = useCallback(async () => {
     await loadUsers();
   }, [loadUsers]);
@@ -640,6 +735,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await AsyncStorage.removeItem(STORAGE_KEY);
     await AsyncStorage.removeItem(USERS_STORAGE_KEY);
     await AsyncStorage.removeItem(ACTIVATION_SOCIAL_SETUP_KEY);
+    await persistSessionToken(null);
     setCurrentUser(null);
     setRequiresSocialSetup(false);
     setUsers(normalizeUsers(mockUsers));
@@ -663,10 +759,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     deleteUser,
     updateProfile,
     changePassword,
+    requestPasswordReset,
+    completePasswordReset,
     refreshUsers,
     markSocialSetupComplete,
     clearStorage,
-  }), [currentUser, users, isAuthenticated, isLoading, isAdmin, requiresSocialSetup, login, logout, activateAccount, createUser, updateUserStatus, deleteUser, updateProfile, changePassword, refreshUsers, markSocialSetupComplete, clearStorage]);
+  }), [currentUser, users, isAuthenticated, isLoading, isAdmin, requiresSocialSetup, login, logout, activateAccount, createUser, updateUserStatus, deleteUser, updateProfile, changePassword, requestPasswordReset, completePasswordReset, refreshUsers, markSocialSetupComplete, clearStorage]);
 
   return (
     <AuthContext.Provider value={value}>
@@ -0,0 +1,15 @@
+import type { Event, User } from "@/types";
+
+/**
+ * Whether a user may run check-in for an event. Admins manage every event; regional leads
+ * manage events in their own region, but not global ones.
+ */
+export function canManageEventCheckIn(
+  user: Pick<User, "role" | "region"> | null | undefined,
+  event: Pick<Event, "region">
+): boolean {
+  if (user?.role === "admin") return true;
+  if (user?.role !== "regional_lead") return false;
+  const region = user.region?.trim().toLowerCase();
+  return Boolean(region) && event.region?.trim().toLowerCase() === region;
+}
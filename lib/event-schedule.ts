@@ -0,0 +1,303 @@
+import type { Event, EventRecurrence } from "@/types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SERIES_ITERATIONS = 5000;
+
+// Abbreviations people type into the timezone field, mapped to the zone they usually mean.
+const TIMEZONE_ALIASES: Record<string, string> = {
+  PST: "America/Los_Angeles",
+  PDT: "America/Los_Angeles",
+  MST: "America/Denver",
+  MDT: "America/Denver",
+  CST: "America/Chicago",
+  CDT: "America/Chicago",
+  EST: "America/New_York",
+  EDT: "America/New_York",
+  BST: "Europe/London",
+  CET: "Europe/Berlin",
+  CEST: "Europe/Berlin",
+  EET: "Europe/Athens",
+  EEST: "Europe/Athens",
+  IST: "Asia/Kolkata",
+  WIB: "Asia/Jakarta",
+  SGT: "Asia/Singapore",
+  HKT: "Asia/Hong_Kong",
+  JST: "Asia/Tokyo",
+  KST: "Asia/Seoul",
+  AEST: "Australia/Sydney",
+  AEDT: "Australia/Sydney",
+};
+
+type ResolvedTimeZone = { kind: "offset"; minutes: number } | { kind: "zone"; name: string };
+
+export type EventOccurrence = {
+  date: string; // local YYYY-MM-DD in the event's timezone
+  startMs: number;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getZoneFormatter(zone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatterCache.set(zone, formatter);
+  }
+  return formatter;
+}
+
+function parseUtcOffsetMinutes(timezone: string): number | null {
+  const raw = timezone.trim().toUpperCase();
+  if (!raw) return null;
+  if (raw === "UTC" || raw === "GMT" || raw === "Z") return 0;
+
+  const match = raw.match(/^(?:UTC|GMT)\s*([+-])\s*(\d{1,2})(?::?(\d{2}))?$/);
+  if (!match) return null;
+
+  const sign = match[1] === "-" ? -1 : 1;
+  const hours = Number(match[2]);
+  const minutes = Number(match[3] || 0);
+  if (hours > 14 || minutes > 59) return null;
+  return sign * (hours * 60 + minutes);
+}
+
+function resolveTimeZone(timezone: string | undefined): ResolvedTimeZone | null {
+  const raw = (timezone || "UTC").trim();
+  const offset = parseUtcOffsetMinutes(raw || "UTC");
+  if (offset !== null) return { kind: "offset", minutes: offset };
+
+  const name = TIMEZONE_ALIASES[raw.toUpperCase()] || raw;
+  try {
+    getZoneFormatter(name);
+    return { kind: "zone", name };
+  } catch {
+    return null;
+  }
+}
+
+export function isValidTimeZone(timezone: string): boolean {
+  return resolveTimeZone(timezone) !== null;
+}
+
+/** The IANA zone an event's timezone refers to, or null for fixed offsets and unknown values. */
+export function getIanaTimeZone(timezone: string | undefined): string | null {
+  const resolved = resolveTimeZone(timezone);
+  return resolved?.kind === "zone" ? resolved.name : null;
+}
+
+/** The device's IANA zone, used as the default when creating events. */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/** The zone's UTC offset in minutes at an instant. */
+export function getZoneOffsetMinutes(zone: string, utcMs: number): number {
+  const parts = getZoneFormatter(zone).formatToParts(new Date(utcMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value || 0);
+  const wallMs = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return Math.round((wallMs - Math.floor(utcMs / 1000) * 1000) / 60000);
+}
+
+export type TimeZoneTransition = {
+  atMs: number;
+  offsetFrom: number;
+  offsetTo: number;
+};
+
+/**
+ * Offset changes of an IANA zone in [fromMs, toMs], earliest first. The zone is sampled
+ * weekly and each change is narrowed down to the minute, so two changes less than a week
+ * apart are missed.
+ */
+export function getTimeZoneTransitions(zone: string, fromMs: number, toMs: number): TimeZoneTransition[] {
+  const transitions: TimeZoneTransition[] = [];
+  const stepMs = 7 * DAY_MS;
+  let previousMs = fromMs;
+  let previousOffset = getZoneOffsetMinutes(zone, fromMs);
+
+  for (let sampleMs = fromMs + stepMs; previousMs < toMs; sampleMs += stepMs) {
+    const nextMs = Math.min(sampleMs, toMs);
+    const nextOffset = getZoneOffsetMinutes(zone, nextMs);
+    if (nextOffset !== previousOffset) {
+      let lo = previousMs;
+      let hi = nextMs;
+      while (hi - lo > 1000) {
+        const mid = Math.floor((lo + hi) / 2);
+        if (getZoneOffsetMinutes(zone, mid) === previousOffset) lo = mid;
+        else hi = mid;
+      }
+      transitions.push({ atMs: Math.floor(hi / 60000) * 60000, offsetFrom: previousOffset, offsetTo: nextOffset });
+    }
+    previousMs = nextMs;
+    previousOffset = nextOffset;
+  }
+  return transitions;
+}
+
+function parseDate(raw: string): { year: number; month: number; day: number } | null {
+  const match = raw.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+function parseTime(raw: string): { hour: number; minute: number; second: number } | null {
+  const match = raw.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const second = Number(match[3] || 0);
+  if (hour > 23 || minute > 59 || second > 59) return null;
+  return { hour, minute, second };
+}
+
+function formatDate(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * Converts a wall-clock date and time in `timezone` to a UTC timestamp. Zone offsets are
+ * looked up for that exact instant, so DST transitions are honoured. Unknown zones are
+ * treated as UTC.
+ */
+export function zonedTimeToUtcMs(date: string, time: string, timezone?: string): number | null {
+  const dateParts = parseDate(date);
+  const timeParts = parseTime(time || "00:00");
+  if (!dateParts || !timeParts) {
+    const fallback = Date.parse(`${date}T${time}`);
+    return Number.isNaN(fallback) ? null : fallback;
+  }
+
+  const wallMs = Date.UTC(
+    dateParts.year,
+    dateParts.month - 1,
+    dateParts.day,
+    timeParts.hour,
+    timeParts.minute,
+    timeParts.second
+  );
+  const zone = resolveTimeZone(timezone) || { kind: "offset", minutes: 0 };
+  if (zone.kind === "offset") {
+    return wallMs - zone.minutes * 60 * 1000;
+  }
+
+  // Guess with the offset at the wall time, then correct once in case that guess
+  // landed on the other side of a DST change.
+  const firstGuess = wallMs - getZoneOffsetMinutes(zone.name, wallMs) * 60 * 1000;
+  return wallMs - getZoneOffsetMinutes(zone.name, firstGuess) * 60 * 1000;
+}
+
+function addMonthsKeepingDay(anchor: { year: number; month: number; day: number }, months: number): string | null {
+  const target = new Date(Date.UTC(anchor.year, anchor.month - 1 + months, 1));
+  const daysInMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  // Like RRULE, a monthly series on the 31st skips months that have no 31st.
+  if (anchor.day > daysInMonth) return null;
+  return formatDate(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), anchor.day));
+}
+
+/**
+ * Yields the local dates of an event series in order, starting at the event's own date.
+ * `count` limits generated dates before exceptions are removed, matching RRULE + EXDATE.
+ */
+function* iterateOccurrenceDates(date: string, recurrence?: EventRecurrence): Generator<string> {
+  const anchor = parseDate(date);
+  if (!anchor) return;
+  if (!recurrence) {
+    yield date;
+    return;
+  }
+
+  const exceptions = new Set(recurrence.exceptions || []);
+  const anchorMs = Date.UTC(anchor.year, anchor.month - 1, anchor.day);
+  let generated = 0;
+
+  for (let step = 0; step < MAX_SERIES_ITERATIONS; step += 1) {
+    let next: string | null;
+    if (recurrence.frequency === "monthly") {
+      next = addMonthsKeepingDay(anchor, step);
+      if (!next) continue;
+    } else {
+      const intervalDays = recurrence.frequency === "biweekly" ? 14 : 7;
+      next = formatDate(anchorMs + step * intervalDays * DAY_MS);
+    }
+
+    if (recurrence.until && next > recurrence.until) return;
+    if (recurrence.count && generated >= recurrence.count) return;
+    generated += 1;
+    if (exceptions.has(next)) continue;
+    yield next;
+  }
+}
+
+/** Occurrences whose start falls in [fromMs, toMs], earliest first. */
+export function getEventOccurrences(
+  event: Pick<Event, "date" | "time" | "timezone" | "recurrence">,
+  fromMs: number,
+  toMs: number
+): EventOccurrence[] {
+  const occurrences: EventOccurrence[] = [];
+  for (const date of iterateOccurrenceDates(event.date, event.recurrence)) {
+    const startMs = zonedTimeToUtcMs(date, event.time, event.timezone);
+    if (startMs === null) continue;
+    if (startMs > toMs) break;
+    if (startMs >= fromMs) occurrences.push({ date, startMs });
+  }
+  return occurrences;
+}
+
+/**
+ * The first occurrence starting at or after `nowMs - graceMs`, or null once the series
+ * is over. A grace period keeps an event that just started visible as the current one.
+ */
+export function getNextEventOccurrence(
+  event: Pick<Event, "date" | "time" | "timezone" | "recurrence">,
+  nowMs = Date.now(),
+  graceMs = 0
+): EventOccurrence | null {
+  for (const date of iterateOccurrenceDates(event.date, event.recurrence)) {
+    const startMs = zonedTimeToUtcMs(date, event.time, event.timezone);
+    if (startMs !== null && startMs >= nowMs - graceMs) return { date, startMs };
+  }
+  return null;
+}
+
+/** The occurrence to show for an event: the next one, or the last one for finished events. */
+export function getDisplayOccurrence(
+  event: Pick<Event, "date" | "time" | "timezone" | "recurrence">,
+  nowMs = Date.now(),
+  graceMs = 0
+): EventOccurrence | null {
+  const next = getNextEventOccurrence(event, nowMs, graceMs);
+  if (next) return next;
+  let last: EventOccurrence | null = null;
+  for (const date of iterateOccurrenceDates(event.date, event.recurrence)) {
+    const startMs = zonedTimeToUtcMs(date, event.time, event.timezone);
+    if (startMs !== null) last = { date, startMs };
+  }
+  return last;
+}
+
+export function describeRecurrence(recurrence?: EventRecurrence): string | null {
+  if (!recurrence) return null;
+  const base = recurrence.frequency === "monthly"
+    ? "Monthly"
+    : recurrence.frequency === "biweekly"
+      ? "Every 2 weeks"
+      : "Weekly";
+  if (recurrence.until) return `${base} until ${recurrence.until}`;
+  if (recurrence.count) return `${base}, ${recurrence.count} times`;
+  return base;
+}
@@ -0,0 +1,84 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+
+import { trpcClient } from '@/lib/trpc';
+
+const PUSH_TOKEN_KEY = 'push_device_token';
+const ANDROID_CHANNEL_ID = 'default';
+
+if (Platform.OS !== 'web') {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+}
+
+function getProjectId(): string | undefined {
+  return Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+}
+
+async function getExpoPushToken(): Promise<string | null> {
+  if (Platform.OS === 'web' || !Device.isDevice) return null;
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Notifications',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+
+  const existing = await Notifications.getPermissionsAsync();
+  const permission = existing.granted ? existing : await Notifications.requestPermissionsAsync();
+  if (!permission.granted) {
+    console.log('[Push] Notification permission not granted');
+    return null;
+  }
+
+  const { data } = await Notifications.getExpoPushTokenAsync({ projectId: getProjectId() });
+  return data;
+}
+
+/** Registers this phone for push after sign-in. Web and simulators are skipped. */
+export async function registerDeviceForPush(): Promise<void> {
+  try {
+    const token = await getExpoPushToken();
+    if (!token) return;
+    await trpcClient.users.registerDevice.mutate({
+      token,
+      platform: Platform.OS === 'ios' ? 'ios' : 'android',
+    });
+    await AsyncStorage.setItem(PUSH_TOKEN_KEY, token);
+    console.log('[Push] Device registered');
+  } catch (error) {
+    console.log('[Push] Device registration failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+/** Stops pushes to this phone for the account that is signing out. */
+export async function unregisterDeviceForPush(): Promise<void> {
+  try {
+    const token = await AsyncStorage.getItem(PUSH_TOKEN_KEY);
+    if (!token) return;
+    await AsyncStorage.removeItem(PUSH_TOKEN_KEY);
+    await trpcClient.users.unregisterDevice.mutate({ token });
+  } catch (error) {
+    console.log('[Push] Device unregistration failed:', error instanceof Error ? error.message : error);
+  }
+}
+
+/** Calls `open` with the in-app link of a push the user taps. */
+export function subscribeToPushLinks(open: (link: string) => void): () => void {
+  if (Platform.OS === 'web') return () => {};
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    const link = response.notification.request.content.data?.link;
+    if (typeof link === 'string' && link.startsWith('/')) open(link);
+  });
+  return () => subscription.remove();
+}
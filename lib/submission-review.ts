@@ -0,0 +1,98 @@
+import type { EditChecklistItem, Submission, SubmissionReviewEntry, Task, User } from "@/types";
+
+export type ReviewerThroughput = {
+  reviewerId: string;
+  name: string;
+  role: SubmissionReviewEntry["reviewerRole"];
+  reviews: number;
+  approved: number;
+  needsEdits: number;
+  rejected: number;
+  secondReviews: number;
+  overrides: number;
+  averageTurnaroundHours: number;
+  lastReviewedAt?: string;
+};
+
+/**
+ * The "needs edits" checklist for a task: one item per required hashtag and mention,
+ * and per do and don't. Item ids are positions, so they stay stable while the task does.
+ */
+export function buildEditChecklist(task: Pick<Task, "hashtags" | "mentions" | "dos" | "donts">): EditChecklistItem[] {
+  return [
+    ...(task.hashtags || []).map((hashtag, index) => ({ id: `hashtag-${index}`, kind: "hashtag" as const, label: `Include ${hashtag}` })),
+    ...(task.mentions || []).map((mention, index) => ({ id: `mention-${index}`, kind: "mention" as const, label: `Mention ${mention}` })),
+    ...(task.dos || []).map((item, index) => ({ id: `do-${index}`, kind: "do" as const, label: item })),
+    ...(task.donts || []).map((item, index) => ({ id: `dont-${index}`, kind: "dont" as const, label: `Avoid: ${item}` })),
+  ];
+}
+
+/**
+ * Whether a reviewer may review a submission by `author`. Admins review everything;
+ * regional leads review ambassadors from their own region, but never themselves.
+ */
+export function canReviewSubmissionBy(
+  reviewer: Pick<User, "id" | "role" | "region">,
+  author: Pick<User, "id" | "region"> | null | undefined
+): boolean {
+  if (reviewer.role === "admin") return true;
+  if (reviewer.role !== "regional_lead" || !author || author.id === reviewer.id) return false;
+  const region = reviewer.region?.trim().toLowerCase();
+  return Boolean(region) && author.region?.trim().toLowerCase() === region;
+}
+
+/**
+ * Review counts per reviewer from the submissions' review history, busiest first.
+ * Turnaround is measured from when the submission was (re)submitted.
+ */
+export function buildReviewerThroughput(
+  submissions: Pick<Submission, "submittedAt" | "reviewHistory">[],
+  users: Pick<User, "id" | "name" | "role">[]
+): ReviewerThroughput[] {
+  const userById = new Map(users.map((user) => [user.id, user]));
+  const rows = new Map<string, ReviewerThroughput & { turnaroundSum: number; turnaroundCount: number }>();
+
+  for (const submission of submissions) {
+    const submittedMs = Date.parse(submission.submittedAt);
+    for (const entry of submission.reviewHistory || []) {
+      const user = userById.get(entry.reviewerId);
+      const row = rows.get(entry.reviewerId) || {
+        reviewerId: entry.reviewerId,
+        name: user?.name || entry.reviewerName,
+        role: entry.reviewerRole || user?.role,
+        reviews: 0,
+        approved: 0,
+        needsEdits: 0,
+        rejected: 0,
+        secondReviews: 0,
+        overrides: 0,
+        averageTurnaroundHours: 0,
+        turnaroundSum: 0,
+        turnaroundCount: 0,
+      };
+      row.reviews += 1;
+      if (entry.status === "approved") row.approved += 1;
+      else if (entry.status === "needs_edits") row.needsEdits += 1;
+      else row.rejected += 1;
+      if (entry.stage === "second") row.secondReviews += 1;
+      if (entry.overridesLead) row.overrides += 1;
+
+      const reviewedMs = Date.parse(entry.reviewedAt);
+      if (!Number.isNaN(submittedMs) && !Number.isNaN(reviewedMs) && reviewedMs >= submittedMs) {
+        row.turnaroundSum += (reviewedMs - submittedMs) / (60 * 60 * 1000);
+        row.turnaroundCount += 1;
+      }
+      if (!row.lastReviewedAt || entry.reviewedAt > row.lastReviewedAt) {
+        row.lastReviewedAt = entry.reviewedAt;
+      }
+      rows.set(entry.reviewerId, row);
+    }
+  }
+
+  return [...rows.values()]
+    .map(({ turnaroundSum, turnaroundCount, ...row }) => ({
+      ...row,
+      averageTurnaroundHours: turnaroundCount > 0 ? turnaroundSum / turnaroundCount : 0,
+    }))
+    .sort((a, b) => b.reviews - a.reviews || a.name.localeCompare(b.name));
+}
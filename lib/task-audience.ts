@@ -0,0 +1,53 @@
+import type { Task, TaskAudience, TaskAudienceRole, User, UserRole } from "@/types";
+
+export const TASK_AUDIENCE_ROLES: TaskAudienceRole[] = ["ambassador", "regional_lead"];
+
+function sameRegion(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/** Drops empty lists and duplicates; returns undefined when the task is for everyone. */
+export function normalizeTaskAudience(audience?: TaskAudience | null): TaskAudience | undefined {
+  if (!audience) return undefined;
+  const regions = [...new Set((audience.regions || []).map((region) => region.trim()).filter(Boolean))];
+  const roles = [...new Set(audience.roles || [])];
+  const userIds = [...new Set((audience.userIds || []).map((userId) => userId.trim()).filter(Boolean))];
+  if (regions.length === 0 && roles.length === 0 && userIds.length === 0) return undefined;
+  return {
+    ...(regions.length > 0 ? { regions } : {}),
+    ...(roles.length > 0 ? { roles } : {}),
+    ...(userIds.length > 0 ? { userIds } : {}),
+  };
+}
+
+export function isTaskTargeted(task: Pick<Task, "audience">): boolean {
+  return Boolean(normalizeTaskAudience(task.audience));
+}
+
+/** Whether a user may see and submit to a task. Admins can always. */
+export function isTaskVisibleToUser(task: Pick<Task, "audience">, user: Pick<User, "id" | "role" | "region">): boolean {
+  if (user.role === "admin") return true;
+  const audience = normalizeTaskAudience(task.audience);
+  if (!audience) return true;
+  if (audience.userIds?.includes(user.id)) return true;
+  if (!audience.regions && !audience.roles) return false;
+  if (audience.regions && !audience.regions.some((region) => sameRegion(region, user.region || ""))) return false;
+  if (audience.roles && !(audience.roles as UserRole[]).includes(user.role)) return false;
+  return true;
+}
+
+/** Short label for admins, e.g. "Japan, Korea · Leads · +2 users". */
+export function describeTaskAudience(task: Pick<Task, "audience">): string | null {
+  const audience = normalizeTaskAudience(task.audience);
+  if (!audience) return null;
+  const parts: string[] = [];
+  if (audience.regions) parts.push(audience.regions.join(", "));
+  if (audience.roles) {
+    parts.push(audience.roles.map((role) => (role === "regional_lead" ? "Leads" : "Ambassadors")).join(", "));
+  }
+  if (audience.userIds) {
+    const count = audience.userIds.length;
+    parts.push(`${parts.length > 0 ? "+" : ""}${count} user${count === 1 ? "" : "s"}`);
+  }
+  return parts.join(" · ");
+}
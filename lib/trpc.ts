@@ -140,10 +140,20 @@ const fetchWithRetry = async (url: RequestInfo | URL, options?: RequestInit): Pr
   throw new Error('Backend temporarily unavailable');
 };
 
+let sessionToken: string | null = null;
+
+// Set by AuthContext after login/restore; attached to every tRPC request.
+export const setSessionToken = (token: string | null) => {
+  sessionToken = token;
+};
+
+export const getSessionToken = () => sessionToken;
+
 const linkOptions = {
   url: `${baseUrl}/api/trpc`,
   transformer: superjson,
   fetch: fetchWithRetry,
+  headers: (): Record<string, string> => (sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}),
 };
 
 // React Query client for hooks
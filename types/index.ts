@@ -56,10 +56,21 @@ export interface Campaign {
   thumbnail: string;
   startDate: string;
   endDate: string;
-  status: TaskStatus;
+  status: TaskStatus; // derived from the start and end dates when campaigns are read
   platforms: Platform[];
   totalTasks: number;
   completedTasks: number;
+  budget?: number; // USD
+  goals?: CampaignGoals;
+  archivedAt?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface CampaignGoals {
+  submissions?: number; // approved submissions
+  impressions?: number;
+  contributors?: number; // ambassadors with an approved submission
 }
 
 export interface Task {
@@ -78,10 +89,61 @@ export interface Task {
   deadline: string;
   points: number;
   status: TaskStatus;
-  submissions: number;
+  submissions: number; // derived from submission records when tasks are read
   maxSubmissions?: number;
+  maxSubmissionsPerUser?: number; // defaults to 1
+  deadlineGraceMinutes?: number; // submissions still accepted this long after the deadline
+  publishAt?: string; // ISO time an upcoming task goes active
   assetIds?: string[];
   requiredReferenceTweetUrl?: string;
+  audience?: TaskAudience; // unset means every ambassador
+}
+
+// Who a task is for. Listed users always qualify; others must match each non-empty
+// region and role list, so a task with only listed users is for them alone.
+export type TaskAudienceRole = Exclude<UserRole, 'admin'>;
+
+export interface TaskAudience {
+  regions?: string[];
+  roles?: TaskAudienceRole[];
+  userIds?: string[];
+}
+
+export type TaskTemplateFields = Pick<
+  Task,
+  'title' | 'brief' | 'platforms' | 'hashtags' | 'mentions' | 'dos' | 'donts' | 'points'
+> &
+  Partial<
+    Pick<
+      Task,
+      | 'campaignId'
+      | 'thumbnail'
+      | 'maxSubmissions'
+      | 'maxSubmissionsPerUser'
+      | 'deadlineGraceMinutes'
+      | 'requiredReferenceTweetUrl'
+      | 'audience'
+    >
+  >;
+
+// Everything a task needs except its dates, for tasks that repeat every week.
+export interface TaskTemplate extends TaskTemplateFields {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedByUserId: string;
+}
+
+export type TaskTransition = 'publish' | 'complete';
+
+// One row per scheduled status change, so a change is applied (and announced) at most once.
+export interface TaskTransitionLog {
+  id: string; // taskId|transition|scheduledFor
+  taskId: string;
+  transition: TaskTransition;
+  scheduledFor: string; // publishAt or submission cutoff the change was due at
+  appliedAt: string;
 }
 
 export interface Asset {
@@ -117,13 +179,85 @@ export interface Event {
   date: string;
   time: string;
   location: string;
-  timezone: string;
+  timezone: string; // IANA zone ("Asia/Tokyo"), "UTC", or a fixed offset ("UTC+09:00")
+  recurrence?: EventRecurrence;
+  region?: string; // unset for events open to every region
+  reminderOffsets?: number[]; // minutes before start; unset uses the default lead time
   attendees: number;
   maxAttendees?: number;
   isRsvped: boolean;
+  rsvpStatus?: EventRsvpStatus | null;
+  waitlistCount?: number;
+  checkInPoints?: number;
+  isCheckedIn?: boolean;
   link?: string;
 }
 
+export type EventRecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export interface EventRecurrence {
+  frequency: EventRecurrenceFrequency;
+  until?: string; // YYYY-MM-DD, last local date an occurrence may fall on
+  count?: number; // total occurrences in the series, skipped dates included
+  exceptions?: string[]; // YYYY-MM-DD local dates that are skipped
+}
+
+export type EventRsvpStatus = 'going' | 'waitlisted';
+
+export interface EventRsvp {
+  id: string;
+  eventId: string;
+  userId: string;
+  status: EventRsvpStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EventReminderStatus = 'scheduled' | 'sent' | 'failed' | 'missed' | 'cancelled';
+
+export interface EventReminderJob {
+  id: string;
+  eventId: string;
+  eventTitle: string;
+  eventDate: string; // occurrence date in the event's timezone
+  eventTime: string;
+  offsetMinutes: number;
+  startsAt: string;
+  sendAt: string;
+  status: EventReminderStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  sentAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CalendarFeed {
+  id: string; // user id; one feed per user
+  userId: string;
+  token: string;
+  createdAt: string;
+}
+
+export interface EventCheckInSession {
+  id: string; // event id; one session per event
+  eventId: string;
+  secret: string;
+  openedBy: string;
+  openedAt: string;
+  closedAt?: string;
+}
+
+export interface EventCheckIn {
+  id: string;
+  eventId: string;
+  userId: string;
+  seasonId: string;
+  checkedInAt: string;
+  pointsAwarded: number;
+}
+
 export interface SubmissionRating {
   relevanceToTask: number; // 0-25: Followed brief, correct hashtags/tags/platform/message
   creativity: number; // 0-15: Angle, storytelling, originality of presentation
@@ -135,6 +269,67 @@ export interface SubmissionRating {
   notes?: string; // Admin notes on the rating
 }
 
+export type RubricDimension = Exclude<keyof SubmissionRating, 'totalScore' | 'notes'>;
+
+export interface RubricBand {
+  min: number;
+  max: number;
+  label: string;
+  description: string;
+  example?: string; // An anchor example of work that scores in this band
+}
+
+export interface RubricGuide {
+  dimension: RubricDimension;
+  description: string;
+  bands: RubricBand[];
+  updatedAt?: string;
+  updatedByUserId?: string;
+}
+
+export interface FeedbackSnippet {
+  id: string;
+  title: string;
+  text: string;
+  status?: Exclude<SubmissionStatus, 'pending'>; // Offered only for this decision when set
+  createdAt: string;
+  updatedAt: string;
+  updatedByUserId: string;
+}
+
+export type EditChecklistKind = 'hashtag' | 'mention' | 'do' | 'dont';
+
+export interface EditChecklistItem {
+  id: string; // `${kind}-${index}` into the task's list
+  kind: EditChecklistKind;
+  label: string;
+}
+
+export type SubmissionPrecheckKey = 'hashtags' | 'mentions' | 'original' | 'author';
+
+export interface SubmissionPrecheck {
+  key: SubmissionPrecheckKey;
+  label: string;
+  passed: boolean;
+  detail?: string;
+}
+
+export interface SubmissionPrechecks {
+  tweetUrl: string;
+  checkedAt: string;
+  checks: SubmissionPrecheck[];
+  suggestedRelevance?: number; // Prefills relevanceToTask; unset when the task has no tags to check
+}
+
+export interface SubmissionDuplicateRef {
+  source: 'submission' | 'extra_content';
+  id: string;
+  userId: string;
+  url: string; // The earlier post's URL as it was submitted
+  taskTitle?: string;
+  submittedAt: string;
+}
+
 export interface Submission {
   id: string;
   seasonId?: string;
@@ -167,6 +362,36 @@ export interface Submission {
   xTrackingExpiresAt?: string;
   flaggedForReview?: boolean;
   flaggedReason?: string;
+  assignedReviewerId?: string;
+  reviewClaim?: SubmissionReviewClaim;
+  reviewHistory?: SubmissionReviewEntry[]; // Every review given, oldest first
+  secondReviewReason?: string; // Set while an approval waits for a second reviewer
+  editChecklist?: EditChecklistItem[]; // What to fix, picked by the reviewer with "needs edits"
+  prechecks?: SubmissionPrechecks; // Automatic checks of the X post against the task
+  duplicateOf?: SubmissionDuplicateRef; // An earlier post this one reuses, for the reviewer to compare
+}
+
+export interface SubmissionReviewClaim {
+  reviewerId: string;
+  reviewerName: string;
+  claimedAt: string;
+  expiresAt: string;
+}
+
+export type SubmissionReviewStage = 'first' | 'second';
+
+export interface SubmissionReviewEntry {
+  id: string;
+  stage: SubmissionReviewStage;
+  reviewerId: string;
+  reviewerName: string;
+  reviewerRole?: UserRole; // Lead decisions are marked by 'regional_lead'
+  overridesLead?: boolean; // An admin changed a regional lead's decision
+  status: Exclude<SubmissionStatus, 'pending'>;
+  feedback?: string;
+  rating?: SubmissionRating;
+  editChecklist?: EditChecklistItem[];
+  reviewedAt: string;
 }
 
 export interface ExtraContentSubmission {
@@ -235,6 +460,174 @@ export interface SeasonResetLog {
   createdAt: string;
 }
 
+export type PasswordResetDelivery = 'telegram' | 'admin';
+
+export interface PasswordReset {
+  id: string;
+  userId: string;
+  codeHash: string;
+  delivery: PasswordResetDelivery;
+  handoffCode?: string;
+  attempts: number;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+export interface TelegramLinkCode {
+  id: string;
+  userId: string;
+  codeHash: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string;
+}
+
+export interface TelegramLink {
+  id: string; // same as userId; one linked chat per account
+  userId: string;
+  chatId: string;
+  telegramUsername?: string;
+  linkedAt: string;
+}
+
+export type NotificationCategory = 'submission_approved' | 'submission_needs_edits' | 'submission_rejected';
+
+export interface NotificationPreferences {
+  id: string; // same as userId
+  userId: string;
+  telegram: Record<NotificationCategory, boolean>;
+  updatedAt: string;
+}
+
+export type AppNotificationType = 'task' | 'review' | 'poll' | 'event' | 'season' | 'news';
+
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: AppNotificationType;
+  title: string;
+  body: string;
+  link?: string; // in-app route to open, e.g. /task/<id>
+  readAt?: string;
+  createdAt: string;
+}
+
+export type DevicePlatform = 'ios' | 'android';
+
+export interface Device {
+  id: string;
+  userId: string;
+  token: string; // Expo push token, ExponentPushToken[...]
+  platform: DevicePlatform;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+// Expo accepted the message; the receipt says whether the device got it.
+export interface PushTicket {
+  id: string; // Expo receipt id
+  userId: string;
+  token: string;
+  createdAt: string;
+}
+
+export type TelegramMessageType = 'task' | 'event_reminder' | 'poll' | 'season' | 'news';
+
+// Sends broadcasts of one type to group chats. A route without a region gets the broadcasts not limited to regions.
+export interface TelegramRoute {
+  id: string;
+  region: string | null;
+  messageType: TelegramMessageType;
+  chatIds: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  updatedByUserId: string;
+}
+
+export type TelegramDeliveryStatus = 'sent' | 'failed';
+
+export interface TelegramDelivery {
+  id: string;
+  messageType: TelegramMessageType;
+  region: string | null;
+  chatId: string;
+  subject: string; // task, event or poll title the message was about
+  status: TelegramDeliveryStatus;
+  error?: string;
+  createdAt: string;
+}
+
+export type LoginAttemptScope = 'identifier' | 'ip';
+
+export interface LoginAttemptRecord {
+  id: string;
+  scope: LoginAttemptScope;
+  key: string;
+  failures: number;
+  firstFailureAt: string;
+  lastFailureAt: string;
+  backoffUntil?: string;
+  lockedUntil?: string;
+}
+
+export type AuditAction =
+  | 'user.update'
+  | 'user.delete'
+  | 'submission.review'
+  | 'submission.assign'
+  | 'feedback_snippet.save'
+  | 'feedback_snippet.delete'
+  | 'review_rubric.update'
+  | 'task.create'
+  | 'task.update'
+  | 'task.delete'
+  | 'asset.delete'
+  | 'news.upsert'
+  | 'poll.create'
+  | 'season.close'
+  | 'telegram_route.save'
+  | 'telegram_route.delete'
+  | 'campaign.create'
+  | 'campaign.update'
+  | 'campaign.archive'
+  | 'task_template.save'
+  | 'task_template.delete';
+
+export type AuditTargetType =
+  | 'user'
+  | 'submission'
+  | 'task'
+  | 'asset'
+  | 'news'
+  | 'poll'
+  | 'season'
+  | 'telegram_route'
+  | 'campaign'
+  | 'task_template'
+  | 'feedback_snippet'
+  | 'review_rubric';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string;
+  actorName: string;
+  actorRole: UserRole;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel?: string;
+  changes: AuditChange[];
+  createdAt: string;
+}
+
 export interface Poll {
   id: string;
   title: string;